@@ -4,29 +4,35 @@ import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet, apiPost } from "@/lib/api";
+import { appointmentsApi, doctorsApi, schedulesApi } from "@/lib/client";
+import type { CreateAppointmentInput } from "@/lib/client";
+import { ApiError, getErrorMessage } from "@/lib/errors";
+import type { Doctor, PaymentIntent, Slot } from "@/lib/types";
 import { getSocket, onSocketEvent, offSocketEvent } from "@/lib/socket";
-
-interface Doctor {
-  _id: string;
-  name: string;
-  specialization?: string;
-  qualification?: string;
-  serviceCharge?: number;
-  hospitalId?: string;
-  hospital?: {
-    name: string;
-    address: string;
-  };
-}
-
-interface Slot {
-  _id: string;
-  startTime: string;
-  endTime: string;
-  isBooked: boolean;
-  date: string;
-}
+import { useSession } from "@/lib/session";
+import { getAge, useProfile } from "@/lib/profile";
+import { formatAddress, getAddressName, getDefaultAddress, useAddresses } from "@/lib/addresses";
+import { getMemberAge, useFamilyMembers } from "@/lib/familyMembers";
+import type { FamilyMember } from "@/lib/familyMembers";
+import MemberPicker from "@/components/MemberPicker";
+import { collectPayment, isMockPayments, isPaymentAccepted, useIdempotencyKey, useUnusedPayment } from "@/lib/payments";
+import { findNearestSlot, useSlotHold } from "@/lib/slotHold";
+import SlotHoldBanner from "@/components/SlotHoldBanner";
+import ReviewList, { Stars } from "@/components/ReviewList";
+import { DEFAULT_CONSULTATION_FEE, formatRating, getConsultationFee, useDoctorReviews } from "@/lib/doctors";
+import AvailabilityCalendar from "@/components/AvailabilityCalendar";
+import {
+  formatDateKey,
+  formatTime,
+  formatTimeZoneName,
+  getPatientTimeZone,
+  isSameTimeZone,
+  parseDateKey,
+  toDateKey,
+} from "@/lib/dates";
+
+// Slot times are shown in the patient's own timezone
+const formatSlotTime = (slot: Slot) => formatTime(slot.startTime);
 
 export default function DoctorBookingPage() {
   const router = useRouter();
@@ -37,7 +43,8 @@ export default function DoctorBookingPage() {
   const [doctor, setDoctor] = useState<Doctor | null>(null);
   const [slots, setSlots] = useState<Slot[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>("");
-  const [selectedSlot, setSelectedSlot] = useState<string>("");
+  // Kept as the slot itself: a held slot drops out of the available list
+  const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
   const [hasAvailableSlot, setHasAvailableSlot] = useState<boolean>(false);
   const [formData, setFormData] = useState({
     patientName: "",
@@ -49,32 +56,54 @@ export default function DoctorBookingPage() {
   });
   const [loading, setLoading] = useState(true);
   const [processingPayment, setProcessingPayment] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const [holdingSlot, setHoldingSlot] = useState(false);
+  const [recoveringSlot, setRecoveringSlot] = useState(false);
+  const slotHold = useSlotHold();
+  const unusedPayment = useUnusedPayment();
+  const { user, isAuthenticated } = useSession();
+  const { profile } = useProfile();
+  const { members } = useFamilyMembers();
+  const { addresses } = useAddresses();
+  // Family member the appointment is for; null books for the account holder
+  const [patientMemberId, setPatientMemberId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const { reviews } = useDoctorReviews(doctorId);
+  const consultationFee = doctor ? getConsultationFee(doctor) : DEFAULT_CONSULTATION_FEE;
+  // Same doctor, slot, patient and fee = same attempt, so a double-click can't book twice
+  const { idempotencyKey, rotate: rotateIdempotencyKey } = useIdempotencyKey(
+    [doctorId, selectedSlot?._id || selectedDate, patientMemberId ?? user?.id, consultationFee].join(":")
+  );
 
+  // Prefill from the saved profile without overwriting anything already typed
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      const userData = JSON.parse(storedUser);
-      setUser(userData);
-      setToken(storedToken);
-      setFormData(prev => ({ ...prev, patientName: userData.name || "" }));
-      
-      // Socket is already initialized in SocketProvider, no need to initialize again
-    }
-  }, [router]);
+    const source = profile ?? user;
+    if (!source) return;
+    const age = getAge(profile?.dateOfBirth);
+    const defaultAddress = getDefaultAddress(addresses);
+    setFormData(prev => ({
+      ...prev,
+      patientName: prev.patientName || source.name || "",
+      age: prev.age || (age !== null ? String(age) : ""),
+      gender: prev.gender || profile?.gender || "",
+      address: prev.address || (defaultAddress ? formatAddress(defaultAddress) : ""),
+    }));
+  }, [profile, user, addresses]);
+
+  const handleMemberSelect = (member: FamilyMember) => {
+    const age = getMemberAge(member);
+    setPatientMemberId(member.isSelf ? null : member.id);
+    // Picking someone explicitly replaces the previous person's details
+    setFormData(prev => ({
+      ...prev,
+      patientName: member.name,
+      age: age !== null ? String(age) : "",
+      gender: member.gender || "",
+    }));
+  };
   
   // Listen for real-time slot updates
   useEffect(() => {
-    if (!token || !doctorId) return;
+    if (!isAuthenticated || !doctorId) return;
     
     const socket = getSocket();
     if (!socket) return;
@@ -82,7 +111,8 @@ export default function DoctorBookingPage() {
     const handleSlotUpdate = (data: any) => {
       // If slot update is for this doctor and selected date, refresh slots
       if (data.doctorId === doctorId && selectedDate) {
-        const slotDate = new Date(data.date).toISOString().split("T")[0];
+        // The day key as sent; parsing it as a Date would shift it west of UTC
+        const slotDate = String(data.date).slice(0, 10);
         if (slotDate === selectedDate) {
           checkSlotAvailability();
         }
@@ -90,8 +120,8 @@ export default function DoctorBookingPage() {
     };
     
     const handleSlotBooked = (data: any) => {
-      // If slot was booked for this doctor, refresh slots
-      if (data.doctorId === doctorId && selectedDate) {
+      // If slot was booked for this doctor, refresh slots (our own hold shows up here too)
+      if (data.doctorId === doctorId && selectedDate && data.slotId !== slotHold.hold?.slotId) {
         checkSlotAvailability();
       }
     };
@@ -104,12 +134,12 @@ export default function DoctorBookingPage() {
       offSocketEvent("slot:booked", handleSlotBooked);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [token, doctorId, selectedDate]);
+  }, [isAuthenticated, doctorId, selectedDate, slotHold.hold]);
 
   useEffect(() => {
-    if (!token || !doctorId) return;
+    if (!isAuthenticated || !doctorId) return;
     fetchDoctorDetails();
-  }, [token, doctorId]);
+  }, [isAuthenticated, doctorId]);
 
   useEffect(() => {
     if (selectedDate && doctorId) {
@@ -122,37 +152,13 @@ export default function DoctorBookingPage() {
       setLoading(true);
       setError(null);
       
-      // Fetch doctor by ID using search (backend now supports ObjectId search)
-      const data = await apiGet<{ success: boolean; data: Doctor[] }>(
-        `/api/public/doctors?search=${encodeURIComponent(doctorId)}&limit=10`
-      );
-      const doctorsList = data.success && Array.isArray(data.data) ? data.data : [];
-      const doctorData = doctorsList.find((d: any) => d._id === doctorId || (d as any).id === doctorId) || null;
-      
-      if (!doctorData) {
+      // Comes with the hospital (and its timezone) already joined
+      setDoctor(await doctorsApi.get(doctorId));
+    } catch (error) {
+      if (error instanceof ApiError && error.isNotFound) {
         setError("Doctor not found. Please try selecting a doctor again.");
-        setLoading(false);
         return;
       }
-      
-      // Fetch hospital info
-      if (doctorData.hospitalId) {
-        try {
-          const hospitals = await apiGet(`/api/public/hospitals`).then((h: any) => {
-            const hospitalList = h.success && Array.isArray(h.data) 
-              ? h.data 
-              : Array.isArray(h) ? h : [];
-            return hospitalList;
-          });
-          const hospital = hospitals.find((h: any) => h._id === doctorData?.hospitalId);
-          setDoctor({ ...doctorData, hospital });
-        } catch {
-          setDoctor(doctorData);
-        }
-      } else {
-        setDoctor(doctorData);
-      }
-    } catch (error: any) {
       console.error("Error fetching doctor:", error);
       setError("Failed to load doctor details. Please try again.");
     } finally {
@@ -162,83 +168,142 @@ export default function DoctorBookingPage() {
 
   const checkSlotAvailability = async () => {
     try {
-      const queryParams = new URLSearchParams({
+      const data = await schedulesApi.availableSlots({
         doctorId,
         date: selectedDate,
+        hospitalId: doctor?.hospitalId,
       });
-      if (doctor?.hospitalId) {
-        queryParams.append("hospitalId", doctor.hospitalId);
-      }
-      
-      const data = await apiGet<Slot[]>(
-        `/api/schedules/slots/available?${queryParams.toString()}`
-      );
-      const availableSlots = Array.isArray(data) ? data.filter(s => !s.isBooked) : [];
+      const availableSlots = data.filter(s => !s.isBooked);
       setSlots(availableSlots);
       setHasAvailableSlot(availableSlots.length > 0);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error checking slots:", error);
       setSlots([]);
       setHasAvailableSlot(false);
     }
   };
 
-  const getNext7Days = () => {
-    const days = [];
-    for (let i = 0; i < 7; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() + i);
-      days.push(date.toISOString().split("T")[0]);
+  const handleDateSelect = (date: string) => {
+    setSelectedDate(date);
+    setSelectedSlot(null);
+    slotHold.release();
+  };
+
+  const handleSlotSelect = async (slot: Slot) => {
+    if (holdingSlot) return;
+    setHoldingSlot(true);
+    try {
+      await slotHold.acquire(slot._id, user?.id);
+      setSelectedSlot(slot);
+      setStep(3);
+    } catch (error) {
+      if (error instanceof ApiError && error.isConflict) {
+        toast.error("That slot was just taken. Please pick another time.");
+        setStep(2);
+        checkSlotAvailability();
+      } else {
+        toast.error("Failed to reserve slot: " + getErrorMessage(error));
+      }
+    } finally {
+      setHoldingSlot(false);
     }
-    return days;
   };
 
-  const handleDateSelect = (date: string) => {
-    setSelectedDate(date);
-    setSelectedSlot("");
+  const handleChooseAnotherSlot = () => {
+    slotHold.release();
+    setSelectedSlot(null);
+    setStep(2);
   };
 
-  const handleSlotSelect = (slotId: string) => {
-    setSelectedSlot(slotId);
-    setStep(3);
+  // Recovery after the hold ran out: re-hold the same slot if it's still free,
+  // otherwise the closest one to it
+  const handlePickNearestSlot = async () => {
+    if (!selectedSlot) return;
+    setRecoveringSlot(true);
+    try {
+      const nearest = await findNearestSlot(
+        { doctorId, hospitalId: doctor?.hospitalId },
+        selectedSlot.startTime
+      );
+      if (!nearest) {
+        toast.error("No slots are available in the coming week. Please choose another date.");
+        handleChooseAnotherSlot();
+        return;
+      }
+      await slotHold.acquire(nearest._id, user?.id);
+      setSelectedSlot(nearest);
+      setSelectedDate(toDateKey(new Date(nearest.startTime)));
+      toast.success(`Holding ${formatSlotTime(nearest)} on ${new Date(nearest.startTime).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      })} for you`);
+    } catch (error) {
+      if (error instanceof ApiError && error.isConflict) {
+        toast.error("That slot was just taken. Please try again.");
+      } else {
+        toast.error("Failed to reserve slot: " + getErrorMessage(error));
+      }
+    } finally {
+      setRecoveringSlot(false);
+    }
   };
 
   const handleAutoBook = () => {
     // Auto-book if slot available, otherwise show slot selection
     if (hasAvailableSlot && slots.length > 0) {
-      handleSlotSelect(slots[0]._id);
+      handleSlotSelect(slots[0]);
     } else {
       setStep(2);
     }
   };
 
   const handlePayment = async () => {
-    if (!token || !user || !doctor || !selectedDate) return;
-
-    setProcessingPayment(true);
-    
-    // Simulate payment processing (dummy)
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    if (!isAuthenticated || !user || !doctor || !selectedDate || processingPayment) return;
 
-    setProcessingPayment(false);
-    setLoading(true);
+    const patientId = patientMemberId ?? user.id;
+    if (!patientId) {
+      toast.error("User information is missing");
+      return;
+    }
+    if (selectedSlot && !slotHold.hold) {
+      toast.error("Your hold on this slot has expired. Please pick a slot again.");
+      return;
+    }
 
-    try {
-      const patientId = user.id || user._id;
-      if (!patientId) {
-        toast.error("User information is missing");
+    // A payment left over from a booking that failed is used instead of charging again
+    let intent: PaymentIntent | null = unusedPayment.take(consultationFee, patientId);
+    if (!intent) {
+      setProcessingPayment(true);
+      try {
+        intent = await collectPayment(
+          { purpose: "APPOINTMENT", amount: consultationFee, currency: "INR", patientId },
+          idempotencyKey,
+          {
+            onPending: () => toast("Payment is processing. Your appointment will be confirmed once it clears."),
+            onFailure: (_intent, reason) => {
+              toast.error("Payment failed: " + reason);
+              rotateIdempotencyKey();
+            },
+          }
+        );
+      } catch (error) {
+        // Keep the key: retrying resumes the same intent instead of charging again
+        toast.error("Payment failed: " + getErrorMessage(error));
         return;
+      } finally {
+        setProcessingPayment(false);
       }
+      if (!isPaymentAccepted(intent)) return;
+    }
 
-      let scheduledAt: string;
-      if (selectedSlot) {
-        const slot = slots.find(s => s._id === selectedSlot);
-        scheduledAt = slot ? new Date(slot.startTime).toISOString() : new Date(selectedDate).toISOString();
-      } else {
-        scheduledAt = new Date(selectedDate).toISOString();
-      }
+    setLoading(true);
 
-      const appointmentData: any = {
+    try {
+      const scheduledAt = selectedSlot
+        ? new Date(selectedSlot.startTime).toISOString()
+        : parseDateKey(selectedDate).toISOString();
+
+      const appointmentData: CreateAppointmentInput = {
         hospitalId: doctor.hospitalId || "",
         doctorId: doctor._id,
         patientId: patientId,
@@ -248,20 +313,29 @@ export default function DoctorBookingPage() {
         address: formData.address.trim(),
         issue: formData.issue.trim(),
         channel: formData.channel,
+        paymentIntentId: intent._id,
       };
 
       if (selectedSlot) {
-        appointmentData.slotId = selectedSlot;
+        appointmentData.slotId = selectedSlot._id;
+        appointmentData.slotHoldId = slotHold.hold?._id;
       }
 
-      await apiPost("/api/appointments", appointmentData);
+      await appointmentsApi.create(appointmentData, idempotencyKey);
+      slotHold.consume();
+      unusedPayment.consume();
 
       toast.success("Appointment booked successfully!");
       setTimeout(() => {
         router.push("/appointments");
       }, 1000);
-    } catch (error: any) {
-      toast.error("Failed to book appointment: " + (error.message || "Unknown error"));
+    } catch (error) {
+      unusedPayment.keep(intent, patientId);
+      toast.error(
+        "Failed to book appointment: " +
+          getErrorMessage(error) +
+          ". Your payment is kept for your next attempt and refunded if you leave without booking."
+      );
     } finally {
       setLoading(false);
     }
@@ -278,6 +352,11 @@ export default function DoctorBookingPage() {
     );
   }
 
+  const patientTimeZone = getPatientTimeZone();
+  const clinicTimeZone = doctor?.hospital?.timezone;
+  // Only worth a second time when the clinic's clock actually differs
+  const showClinicTime = !!clinicTimeZone && !isSameTimeZone(clinicTimeZone, patientTimeZone);
+
   if (error || !doctor) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-gray-50">
@@ -370,6 +449,14 @@ export default function DoctorBookingPage() {
                   {doctor.qualification && (
                     <p className="text-sm text-gray-600">{doctor.qualification}</p>
                   )}
+                  {doctor.rating !== undefined && formatRating(doctor) && (
+                    <p className="mt-1 flex items-center gap-1 text-sm text-gray-700">
+                      <Stars rating={doctor.rating} /> {formatRating(doctor)}
+                    </p>
+                  )}
+                  <Link href={`/doctors/${doctor._id}`} className="mt-2 inline-block text-sm font-medium text-blue-700 hover:text-blue-900">
+                    View full profile →
+                  </Link>
                 </div>
               </div>
 
@@ -389,10 +476,22 @@ export default function DoctorBookingPage() {
               {/* Consultation Fee - Responsive */}
               <div className="p-4 sm:p-6 bg-blue-50 rounded-lg border border-blue-200">
                 <p className="text-xs sm:text-sm font-semibold text-gray-700 mb-2 uppercase tracking-wide">Consultation Fee</p>
-                <p className="text-2xl sm:text-3xl md:text-4xl font-bold text-blue-700">₹{doctor.serviceCharge || 500}</p>
+                <p className="text-2xl sm:text-3xl md:text-4xl font-bold text-blue-700">₹{consultationFee}</p>
               </div>
             </div>
 
+            {reviews && reviews.length > 0 && (
+              <div className="rounded-lg border border-gray-200 bg-white p-4 sm:p-6 shadow-sm">
+                <div className="mb-3 flex items-center justify-between gap-2">
+                  <h3 className="text-lg sm:text-xl font-semibold text-gray-900">Patient Reviews</h3>
+                  <Link href={`/doctors/${doctor._id}`} className="text-sm font-medium text-blue-700 hover:text-blue-900">
+                    See all
+                  </Link>
+                </div>
+                <ReviewList reviews={reviews.slice(0, 3)} />
+              </div>
+            )}
+
             {/* Professional Date Selection - Mobile Responsive */}
             <div className="rounded-lg border border-gray-200 bg-white p-4 sm:p-6 shadow-sm">
               <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-4 sm:mb-6 flex items-center gap-2">
@@ -401,39 +500,16 @@ export default function DoctorBookingPage() {
                 </svg>
                 Select Date
               </h3>
-              <div className="flex gap-2 sm:gap-3 overflow-x-auto pb-2 -mx-1 px-1 scrollbar-hide">
-                {getNext7Days().map((date) => {
-                  const dateObj = new Date(date);
-                  const dayName = dateObj.toLocaleDateString("en-US", { weekday: "short" });
-                  const dayNum = dateObj.getDate();
-                  const isSelected = selectedDate === date;
-                  const isToday = date === new Date().toISOString().split("T")[0];
-                  
-                  return (
-                    <button
-                      key={date}
-                      onClick={() => handleDateSelect(date)}
-                      className={`flex-shrink-0 w-16 h-20 sm:w-20 sm:h-24 md:w-24 md:h-28 rounded-lg border-2 transition-all ${
-                        isSelected
-                          ? "border-blue-600 bg-blue-600 text-white shadow-md"
-                          : "border-gray-200 bg-white text-gray-700 hover:border-blue-400 hover:bg-blue-50"
-                      }`}
-                    >
-                      <div className="flex flex-col items-center justify-center h-full p-1 sm:p-2">
-                        <span className={`text-[10px] sm:text-xs font-medium mb-0.5 sm:mb-1 ${isSelected ? 'text-blue-100' : 'text-gray-500'}`}>
-                          {dayName}
-                        </span>
-                        <span className={`text-xl sm:text-2xl md:text-3xl font-bold ${isSelected ? 'text-white' : 'text-gray-900'}`}>
-                          {dayNum}
-                        </span>
-                        {isToday && !isSelected && (
-                          <span className="text-[8px] sm:text-[10px] text-blue-600 font-medium mt-0.5 sm:mt-1">Today</span>
-                        )}
-                      </div>
-                    </button>
-                  );
-                })}
-              </div>
+              <AvailabilityCalendar
+                doctorId={doctorId}
+                hospitalId={doctor.hospitalId}
+                value={selectedDate}
+                onChange={handleDateSelect}
+              />
+              <p className="mt-3 text-xs sm:text-sm text-gray-500">
+                Times are shown in your timezone ({formatTimeZoneName(patientTimeZone)})
+                {showClinicTime && clinicTimeZone && <> · Clinic time is {formatTimeZoneName(clinicTimeZone)}</>}
+              </p>
             </div>
 
             {selectedDate && (
@@ -445,7 +521,7 @@ export default function DoctorBookingPage() {
                       <div className="flex-1 min-w-0">
                         <p className="text-green-800 font-semibold text-sm sm:text-base">Slot Available</p>
                         <p className="text-xs sm:text-sm text-green-700 mt-0.5 break-words">
-                          Doctor has available slots for {new Date(selectedDate).toLocaleDateString("en-US", { 
+                          Doctor has available slots for {formatDateKey(selectedDate, { 
                             weekday: "long", 
                             year: "numeric", 
                             month: "long", 
@@ -508,7 +584,7 @@ export default function DoctorBookingPage() {
               <div>
                 <p className="text-gray-600 mb-6 text-base">
                   Available slots for <span className="font-semibold text-gray-900">
-                    {new Date(selectedDate).toLocaleDateString("en-US", { 
+                    {formatDateKey(selectedDate, { 
                       weekday: "long", 
                       year: "numeric", 
                       month: "long", 
@@ -518,22 +594,24 @@ export default function DoctorBookingPage() {
                 </p>
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
                   {slots.map((slot) => {
-                    const startTime = new Date(slot.startTime).toLocaleTimeString("en-US", {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    });
-                    const isSelected = selectedSlot === slot._id;
+                    const isSelected = selectedSlot?._id === slot._id;
                     return (
                       <button
                         key={slot._id}
-                        onClick={() => handleSlotSelect(slot._id)}
-                        className={`rounded-xl border-2 p-4 text-sm font-semibold transition-all transform hover:scale-105 ${
+                        onClick={() => handleSlotSelect(slot)}
+                        disabled={holdingSlot}
+                        className={`rounded-xl border-2 p-4 text-sm font-semibold transition-all transform hover:scale-105 disabled:opacity-60 disabled:cursor-wait ${
                           isSelected
                             ? "border-blue-600 bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-lg"
                             : "border-gray-200 bg-white text-gray-700 hover:border-blue-300 hover:bg-blue-50"
                         }`}
                       >
-                        {startTime}
+                        {formatSlotTime(slot)}
+                        {showClinicTime && clinicTimeZone && (
+                          <span className={`block text-[10px] sm:text-xs font-normal ${isSelected ? "text-blue-100" : "text-gray-500"}`}>
+                            {formatTime(slot.startTime, clinicTimeZone)} {formatTimeZoneName(clinicTimeZone)} at clinic
+                          </span>
+                        )}
                       </button>
                     );
                   })}
@@ -554,6 +632,17 @@ export default function DoctorBookingPage() {
           </div>
         )}
 
+        {(step === 3 || step === 4) && selectedSlot && (slotHold.hold || slotHold.expiredHold) && (
+          <SlotHoldBanner
+            slotTime={formatSlotTime(selectedSlot)}
+            secondsLeft={slotHold.secondsLeft}
+            expired={!slotHold.hold}
+            recovering={recoveringSlot}
+            onPickNearest={handlePickNearestSlot}
+            onChooseAnother={handleChooseAnotherSlot}
+          />
+        )}
+
         {/* Step 3: Personal Details - Professional & Responsive */}
         {step === 3 && (
           <form
@@ -584,6 +673,12 @@ export default function DoctorBookingPage() {
             </div>
 
             <div className="space-y-4 sm:space-y-5">
+              <MemberPicker
+                members={members}
+                value={patientMemberId ?? user?.id ?? null}
+                onChange={handleMemberSelect}
+              />
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1.5">Full Name <span className="text-red-500">*</span></label>
                 <input
@@ -628,6 +723,28 @@ export default function DoctorBookingPage() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1.5">Address <span className="text-red-500">*</span></label>
+                {addresses.length > 0 && (
+                  <div className="mb-2 flex flex-wrap gap-2">
+                    {addresses.map((address) => {
+                      const formatted = formatAddress(address);
+                      return (
+                        <button
+                          key={address._id}
+                          type="button"
+                          onClick={() => setFormData({ ...formData, address: formatted })}
+                          title={formatted}
+                          className={`rounded-full border px-3 py-1 text-xs sm:text-sm transition-colors ${
+                            formData.address === formatted
+                              ? "border-blue-600 bg-blue-50 text-blue-700 font-semibold"
+                              : "border-gray-300 bg-white text-gray-700 hover:border-blue-300"
+                          }`}
+                        >
+                          {getAddressName(address)}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
                 <textarea
                   required
                   value={formData.address}
@@ -715,7 +832,7 @@ export default function DoctorBookingPage() {
             <div className="mb-4 sm:mb-6 p-4 sm:p-6 bg-gray-50 rounded-lg border border-gray-200">
               <div className="flex justify-between items-center mb-3 sm:mb-4">
                 <span className="text-sm sm:text-base text-gray-700">Consultation Fee</span>
-                <span className="text-xl sm:text-2xl font-bold text-gray-900">₹{doctor.serviceCharge || 500}</span>
+                <span className="text-xl sm:text-2xl font-bold text-gray-900">₹{consultationFee}</span>
               </div>
               <div className="flex justify-between items-center text-xs sm:text-sm text-gray-600 mb-3 sm:mb-4">
                 <span>GST (if applicable)</span>
@@ -723,17 +840,19 @@ export default function DoctorBookingPage() {
               </div>
               <div className="border-t border-gray-300 pt-3 sm:pt-4 flex justify-between items-center">
                 <span className="text-sm sm:text-base font-semibold text-gray-900">Total</span>
-                <span className="text-xl sm:text-2xl font-bold text-gray-900">₹{doctor.serviceCharge || 500}</span>
+                <span className="text-xl sm:text-2xl font-bold text-gray-900">₹{consultationFee}</span>
               </div>
             </div>
 
             <div className="mb-4 sm:mb-6">
-              <p className="text-xs sm:text-sm text-gray-600 mb-3 sm:mb-4">
-                This is a dummy payment. No actual payment will be processed.
-              </p>
+              {isMockPayments && (
+                <p className="text-xs sm:text-sm text-gray-600 mb-3 sm:mb-4">
+                  Test mode: payments go through the mock gateway and no money is charged.
+                </p>
+              )}
               <button
                 onClick={handlePayment}
-                disabled={loading || processingPayment}
+                disabled={loading || processingPayment || (!!selectedSlot && !slotHold.hold)}
                 className="w-full rounded-md bg-green-600 px-4 py-3 text-sm sm:text-base font-medium text-white shadow-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-green-600 focus:ring-offset-2"
               >
                 {processingPayment ? (
@@ -743,8 +862,10 @@ export default function DoctorBookingPage() {
                   </span>
                 ) : loading ? (
                   "Booking Appointment..."
+                ) : unusedPayment.covers(consultationFee, patientMemberId ?? user?.id) ? (
+                  "Book Appointment (Already Paid)"
                 ) : (
-                  `Pay ₹${doctor.serviceCharge || 500} & Book Appointment`
+                  `Pay ₹${consultationFee} & Book Appointment`
                 )}
               </button>
             </div>
@@ -1,109 +1,72 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { useState } from "react";
 import Link from "next/link";
-import { apiGet } from "@/lib/api";
+import { DOCTOR_SORTS } from "@/lib/client";
+import type { DoctorQuery, DoctorSort } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import { DOCTOR_SORT_LABELS, SPECIALIZATIONS, useDoctorDirectory, useHospitals, withHospital } from "@/lib/doctors";
+import type { AppointmentChannel } from "@/lib/types";
+import DoctorCard from "@/components/DoctorCard";
 
-// Common specializations
-const SPECIALIZATIONS = [
-  "Cardiologist",
-  "Dermatologist",
-  "Neurologist",
-  "Orthopedic",
-  "Pediatrician",
-  "Gynecologist",
-  "Psychiatrist",
-  "General Physician",
-  "Dentist",
-  "Ophthalmologist",
-  "ENT Specialist",
-  "Gastroenterologist",
-  "Urologist",
-  "Oncologist",
-  "Endocrinologist",
+const PAGE_SIZE = 12;
+
+const FEE_RANGES = [
+  { label: "Any fee", min: undefined, max: undefined },
+  { label: "Under ₹300", min: undefined, max: 300 },
+  { label: "₹300 – ₹700", min: 300, max: 700 },
+  { label: "₹700 – ₹1500", min: 700, max: 1500 },
+  { label: "Above ₹1500", min: 1500, max: undefined },
 ];
 
-interface Doctor {
-  _id: string;
-  id: string;
-  name: string;
-  specialization?: string;
-  qualification?: string;
-  serviceCharge?: number;
-  hospitalId?: string;
-  hospital?: {
-    name: string;
-    address: string;
-  };
+interface Filters {
+  specialization: string;
+  hospitalId: string;
+  feeRange: number;
+  channel: AppointmentChannel | "";
+  availableToday: boolean;
+  sort: DoctorSort;
 }
 
-export default function BookAppointmentPage() {
-  const router = useRouter();
-  const [selectedSpecialization, setSelectedSpecialization] = useState<string>("");
-  const [doctors, setDoctors] = useState<Doctor[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+const DEFAULT_FILTERS: Filters = {
+  specialization: "",
+  hospitalId: "",
+  feeRange: 0,
+  channel: "",
+  availableToday: false,
+  sort: "relevance",
+};
 
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-    }
-  }, [router]);
+export default function BookAppointmentPage() {
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [page, setPage] = useState(1);
+  const { hospitals } = useHospitals();
 
-  const fetchDoctorsBySpecialization = async (specialization: string) => {
-    setLoading(true);
-    try {
-      const data = await apiGet<{ success: boolean; data: Doctor[] }>(
-        `/api/public/doctors?search=${encodeURIComponent(specialization)}&limit=50`
-      );
-      const doctorsList = data.success && Array.isArray(data.data) ? data.data : [];
-      
-      // Fetch hospital info for each doctor
-      const doctorsWithHospitals = await Promise.all(
-        doctorsList.map(async (doctor) => {
-          if (doctor.hospitalId) {
-            try {
-              const hospital = await apiGet(`/api/public/hospitals`).then((hospitals: any) => {
-                const hospitalList = hospitals.success && Array.isArray(hospitals.data) 
-                  ? hospitals.data 
-                  : Array.isArray(hospitals) ? hospitals : [];
-                return hospitalList.find((h: any) => h._id === doctor.hospitalId);
-              }).catch(() => null);
-              
-              return { ...doctor, hospital };
-            } catch {
-              return doctor;
-            }
-          }
-          return doctor;
-        })
-      );
-      
-      setDoctors(doctorsWithHospitals);
-    } catch (error: any) {
-      console.error("Error fetching doctors:", error);
-      setDoctors([]);
-    } finally {
-      setLoading(false);
-    }
+  const feeRange = FEE_RANGES[filters.feeRange];
+  const query: DoctorQuery = {
+    specialization: filters.specialization || undefined,
+    hospitalId: filters.hospitalId || undefined,
+    minFee: feeRange.min,
+    maxFee: feeRange.max,
+    channel: filters.channel || undefined,
+    availableToday: filters.availableToday || undefined,
+    sort: filters.sort,
+    limit: PAGE_SIZE,
+    skip: (page - 1) * PAGE_SIZE,
   };
+  const { doctors, total, error, isLoading } = useDoctorDirectory(query);
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = JSON.stringify({ ...filters, sort: DEFAULT_FILTERS.sort }) !== JSON.stringify(DEFAULT_FILTERS);
 
-  const handleSpecializationSelect = (specialization: string) => {
-    setSelectedSpecialization(specialization);
-    fetchDoctorsBySpecialization(specialization);
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<Filters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setPage(1);
   };
 
+  const selectClass =
+    "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs sm:text-sm text-gray-900 focus:border-blue-600 focus:ring-1 focus:ring-blue-600";
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
       {/* Header */}
@@ -125,127 +88,158 @@ export default function BookAppointmentPage() {
       </div>
 
       {/* Content */}
-      <div className="mx-auto max-w-7xl px-3 sm:px-4 lg:px-8 py-4 sm:py-8">
-        {!selectedSpecialization ? (
-          /* Step 1: Select Specialization */
-          <div className="rounded-lg border border-gray-200 bg-white/80 backdrop-blur-sm p-4 sm:p-6 lg:p-8 shadow-lg">
-            <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 mb-4 sm:mb-6 text-center">
-              Select Specialization
-            </h2>
-            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
-              {SPECIALIZATIONS.map((spec) => (
-                <button
-                  key={spec}
-                  onClick={() => handleSpecializationSelect(spec)}
-                  className="rounded-xl border-2 border-gray-200 bg-white p-3 sm:p-4 lg:p-6 text-center hover:border-blue-500 hover:bg-blue-50 transition-all duration-200 shadow-sm hover:shadow-md"
-                >
-                  <div className="text-2xl sm:text-3xl mb-1 sm:mb-2">👨‍⚕️</div>
-                  <h3 className="text-xs sm:text-sm lg:text-base font-semibold text-gray-900 break-words">{spec}</h3>
-                </button>
+      <div className="mx-auto max-w-7xl px-3 sm:px-4 lg:px-8 py-4 sm:py-8 space-y-4 sm:space-y-6">
+        {/* Specialization quick filters */}
+        <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1 scrollbar-hide">
+          {["", ...SPECIALIZATIONS].map((spec) => (
+            <button
+              key={spec || "all"}
+              type="button"
+              onClick={() => updateFilters({ specialization: spec })}
+              className={`flex-shrink-0 rounded-full border px-3 py-1.5 text-xs sm:text-sm font-medium transition-colors ${
+                filters.specialization === spec
+                  ? "border-blue-600 bg-blue-600 text-white"
+                  : "border-gray-300 bg-white text-gray-700 hover:border-blue-400 hover:bg-blue-50"
+              }`}
+            >
+              {spec || "All specializations"}
+            </button>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <div className="rounded-lg border border-gray-200 bg-white p-3 sm:p-4 shadow-sm">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <select
+              value={filters.hospitalId}
+              onChange={(e) => updateFilters({ hospitalId: e.target.value })}
+              className={selectClass}
+              aria-label="Hospital"
+            >
+              <option value="">All hospitals</option>
+              {hospitals.map((hospital) => (
+                <option key={hospital._id} value={hospital._id}>
+                  {hospital.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.feeRange}
+              onChange={(e) => updateFilters({ feeRange: Number(e.target.value) })}
+              className={selectClass}
+              aria-label="Consultation fee"
+            >
+              {FEE_RANGES.map((range, index) => (
+                <option key={range.label} value={index}>
+                  {range.label}
+                </option>
               ))}
+            </select>
+            <select
+              value={filters.channel}
+              onChange={(e) => updateFilters({ channel: e.target.value as Filters["channel"] })}
+              className={selectClass}
+              aria-label="Consultation type"
+            >
+              <option value="">Video or in-clinic</option>
+              <option value="VIDEO">Video consultation</option>
+              <option value="PHYSICAL">In-clinic visit</option>
+            </select>
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as DoctorSort })}
+              className={selectClass}
+              aria-label="Sort by"
+            >
+              {DOCTOR_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  Sort: {DOCTOR_SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+            <label className="col-span-2 md:col-span-1 flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-xs sm:text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.availableToday}
+                onChange={(e) => updateFilters({ availableToday: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-600"
+              />
+              Available today
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs sm:text-sm text-gray-600">
+            {isLoading && !doctors ? "Searching..." : `${total} ${total === 1 ? "doctor" : "doctors"} found`}
+          </p>
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => updateFilters({ ...DEFAULT_FILTERS, sort: filters.sort })}
+              className="text-xs sm:text-sm font-semibold text-blue-700 hover:text-blue-900"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-center text-sm text-red-700">
+            Failed to load doctors: {getErrorMessage(error)}
+          </div>
+        ) : !doctors ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+              <p className="mt-4 text-gray-600">Loading doctors...</p>
             </div>
           </div>
+        ) : doctors.length === 0 ? (
+          <div className="rounded-lg border border-gray-200 bg-white p-12 text-center shadow-sm">
+            <div className="text-6xl mb-4">👨‍⚕️</div>
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No Doctors Found</h3>
+            <p className="text-gray-600 mb-6">No doctors match these filters at the moment.</p>
+            <button
+              type="button"
+              onClick={() => updateFilters(DEFAULT_FILTERS)}
+              className="rounded-lg bg-blue-900 px-6 py-3 font-semibold text-white shadow-sm hover:bg-blue-800"
+            >
+              Clear Filters
+            </button>
+          </div>
         ) : (
-          /* Step 2: Doctor List */
-          <div>
-            <div className="mb-4 sm:mb-6 flex items-center gap-2 sm:gap-4 flex-wrap">
-              <button
-                onClick={() => {
-                  setSelectedSpecialization("");
-                  setDoctors([]);
-                }}
-                className="rounded-lg border border-gray-300 bg-white px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-gray-700 hover:bg-gray-50 shadow-sm whitespace-nowrap"
-              >
-                ← Back
-              </button>
-              <div className="min-w-0 flex-1">
-                <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 truncate">
-                  {selectedSpecialization} Doctors
-                </h2>
-                <p className="text-xs sm:text-sm text-gray-600 mt-1">
-                  {doctors.length} {doctors.length === 1 ? "doctor" : "doctors"} available
-                </p>
-              </div>
+          <>
+            <div className={`grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 ${isLoading ? "opacity-60" : ""}`}>
+              {doctors.map((doctor) => (
+                <DoctorCard key={doctor._id} doctor={withHospital(doctor, hospitals)} />
+              ))}
             </div>
 
-            {loading ? (
-              <div className="flex items-center justify-center py-12">
-                <div className="text-center">
-                  <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
-                  <p className="mt-4 text-gray-600">Loading doctors...</p>
-                </div>
-              </div>
-            ) : doctors.length === 0 ? (
-              <div className="rounded-lg border border-gray-200 bg-white p-12 text-center shadow-sm">
-                <div className="text-6xl mb-4">👨‍⚕️</div>
-                <h3 className="text-xl font-bold text-gray-900 mb-2">No Doctors Found</h3>
-                <p className="text-gray-600 mb-6">
-                  No {selectedSpecialization} doctors available at the moment.
-                </p>
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-3 pt-2">
                 <button
-                  onClick={() => {
-                    setSelectedSpecialization("");
-                    setDoctors([]);
-                  }}
-                  className="rounded-lg bg-blue-900 px-6 py-3 font-semibold text-white shadow-sm hover:bg-blue-800"
+                  type="button"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-xs sm:text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
                 >
-                  Choose Different Specialization
+                  ← Previous
+                </button>
+                <span className="text-xs sm:text-sm text-gray-600">
+                  Page {page} of {totalPages}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                  className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-xs sm:text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Next →
                 </button>
-              </div>
-            ) : (
-              <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-                {doctors.map((doctor) => (
-                  <div
-                    key={doctor._id}
-                    className="rounded-xl border border-gray-200 bg-white p-4 sm:p-6 shadow-sm hover:shadow-lg transition-shadow cursor-pointer"
-                    onClick={() => router.push(`/appointments/book/${doctor._id}`)}
-                  >
-                    <div className="flex items-start justify-between mb-3 sm:mb-4">
-                      <div className="flex-1 min-w-0">
-                        <h3 className="text-base sm:text-lg font-bold text-gray-900 truncate">Dr. {doctor.name}</h3>
-                        {doctor.specialization && (
-                          <p className="text-xs sm:text-sm text-blue-600 font-medium mt-1 truncate">
-                            {doctor.specialization}
-                          </p>
-                        )}
-                        {doctor.qualification && (
-                          <p className="text-[10px] sm:text-xs text-gray-500 mt-1 truncate">{doctor.qualification}</p>
-                        )}
-                      </div>
-                      <div className="text-2xl sm:text-3xl flex-shrink-0">👨‍⚕️</div>
-                    </div>
-
-                    {doctor.hospital && (
-                      <div className="mb-3 sm:mb-4">
-                        <p className="text-xs sm:text-sm font-semibold text-gray-700 truncate">
-                          🏥 {doctor.hospital.name}
-                        </p>
-                        <p className="text-[10px] sm:text-xs text-gray-500 mt-1 line-clamp-2">{doctor.hospital.address}</p>
-                      </div>
-                    )}
-
-                    <div className="flex items-center justify-between pt-3 sm:pt-4 border-t border-gray-100 gap-2 sm:gap-0">
-                      <div className="min-w-0">
-                        <p className="text-[10px] sm:text-xs text-gray-500">Consultation Fee</p>
-                        <p className="text-base sm:text-lg font-bold text-gray-900">
-                          ₹{doctor.serviceCharge || 500}
-                        </p>
-                      </div>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          router.push(`/appointments/book/${doctor._id}`);
-                        }}
-                        className="rounded-lg bg-blue-900 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-blue-800 shadow-sm whitespace-nowrap flex-shrink-0"
-                      >
-                        Book Now
-                      </button>
-                    </div>
-                  </div>
-                ))}
               </div>
             )}
-          </div>
+          </>
         )}
       </div>
     </div>
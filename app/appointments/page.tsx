@@ -1,206 +1,81 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet, apiPatch, apiPost, apiDelete } from "@/lib/api";
+import { appointmentsApi, prescriptionsApi, queryKeys } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import { invalidateQueries, useQuery } from "@/lib/queryCache";
+import type { Appointment, Prescription } from "@/lib/types";
 import { getSocket, onSocketEvent, offSocketEvent } from "@/lib/socket";
+import { useSession } from "@/lib/session";
+import { useActiveMember } from "@/lib/familyMembers";
+import { orderPrescription } from "@/lib/refills";
 import DashboardLayout from "@/components/DashboardLayout";
+import RefundStatus from "@/components/RefundStatus";
+import ReviewModal from "@/components/ReviewModal";
+import { Stars } from "@/components/ReviewList";
+import { useMyReviews } from "@/lib/reviews";
 import { DownloadIcon, EyeIcon, RecordsIcon } from "@/components/icons";
 
-interface Appointment {
-  _id: string;
-  hospitalId: string;
-  doctorId: string;
-  patientId: string;
-  status: string;
-  patientName: string;
-  age: number;
-  address: string;
-  issue: string;
-  scheduledAt: string;
-  channel: string;
-  doctor?: { name: string; specialization?: string };
-  hospital?: { name: string; address?: string };
-  prescription?: {
-    _id: string;
-    items: Array<{
-      medicineName: string;
-      dosage: string;
-      frequency: string;
-      duration: string;
-      notes?: string;
-    }>;
-    suggestions?: string;
-    notes?: string;
-  };
+// Appointment card with its prescription (if any) attached
+interface AppointmentWithPrescription extends Appointment {
+  prescription?: Prescription;
 }
 
-export default function AppointmentsPage() {
+function AppointmentsContent() {
   const router = useRouter();
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
-  const [viewingPrescription, setViewingPrescription] = useState<{ prescription: Appointment["prescription"]; appointment: Appointment } | null>(null);
+  const searchParams = useSearchParams();
+  const { user, isAuthenticated } = useSession();
+  const [viewingPrescription, setViewingPrescription] = useState<{ prescription: Prescription; appointment: AppointmentWithPrescription } | null>(null);
   const [prescriptionDocument, setPrescriptionDocument] = useState<string | null>(null);
   const [loadingPrescription, setLoadingPrescription] = useState(false);
+  const [orderingPrescriptionId, setOrderingPrescriptionId] = useState<string | null>(null);
+  // Appointment being reviewed; review reminders link here with ?review=<appointmentId>
+  const [reviewingId, setReviewingId] = useState<string | null>(() => searchParams.get("review"));
+  const { reviews } = useMyReviews();
+
+  const { activeMember } = useActiveMember();
+  const patientId: string | undefined = isAuthenticated ? activeMember?.id : undefined;
+  const appointmentsQuery = useQuery(patientId ? queryKeys.appointments(patientId) : null, () =>
+    appointmentsApi.list({ patientId: patientId! })
+  );
+  // One request for all of the patient's prescriptions (shared with the dashboard), matched to cards below
+  const prescriptionsQuery = useQuery(patientId ? queryKeys.prescriptions({ patientId }) : null, () =>
+    prescriptionsApi.list({ patientId })
+  );
+  const loading = !patientId || appointmentsQuery.isLoading;
 
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-      // Socket is already initialized in SocketProvider, no need to initialize again
-    }
-  }, [router]);
-
-  // Listen for real-time notifications and appointment updates
-  useEffect(() => {
-    if (!token || !user) return;
-
-    const socket = getSocket();
-    if (!socket) return;
-
-    const handleNotification = (data: any) => {
-      console.log("Received notification:", data);
-      // Refresh appointments when notification is received
-      fetchAppointments();
-      
-      // Show toast notification if available
-      if (data.title && data.message) {
-        toast.success(`${data.title}: ${data.message}`, {
-          duration: 5000,
-        });
-      }
-    };
-
-    const handleAppointmentUpdate = () => {
-      console.log("Appointment status updated, refreshing...");
-      fetchAppointments();
-    };
+  const appointments: AppointmentWithPrescription[] = (appointmentsQuery.data ?? []).map((apt) => ({
+    ...apt,
+    prescription: prescriptionsQuery.data?.find((p) => p.appointmentId === apt._id),
+  }));
 
-    const handlePrescriptionCreated = () => {
-      console.log("Prescription created, refreshing...");
-      fetchAppointments();
-    };
+  const reviewByAppointment = new Map(reviews.map((review) => [review.appointmentId, review]));
+  const reviewingAppointment = reviewingId ? appointments.find((apt) => apt._id === reviewingId) : undefined;
 
-    onSocketEvent("notification:new", handleNotification);
-    onSocketEvent("appointment:statusUpdated", handleAppointmentUpdate);
-    onSocketEvent("prescription:created", handlePrescriptionCreated);
-    
-    return () => {
-      offSocketEvent("notification:new", handleNotification);
-      offSocketEvent("appointment:statusUpdated", handleAppointmentUpdate);
-      offSocketEvent("prescription:created", handlePrescriptionCreated);
-    };
-  }, [token, user]);
-
-  const fetchAppointments = async () => {
-    if (!token || !user) return;
-    
-    // Get patientId - try both id and _id
-    const patientId = user.id || user._id;
-    if (!patientId) {
-      console.error("No patient ID found in user object:", user);
-      setLoading(false);
-      return;
-    }
-    
-    try {
-      console.log("Fetching appointments for patientId:", patientId);
-      const data = await apiGet<any[]>(`/api/appointments?patientId=${patientId}`);
-      console.log("Received appointments:", data);
-      const appointmentsList = Array.isArray(data) ? data : [];
-      
-      // Fetch prescriptions for each appointment
-      const enrichedAppointments: Appointment[] = await Promise.all(
-        appointmentsList.map(async (apt: any): Promise<Appointment> => {
-          // Ensure doctor and hospital are properly formatted
-          const doctor = apt.doctor ? {
-            name: String(apt.doctor.name || "Unknown Doctor"),
-            specialization: apt.doctor.specialization ? String(apt.doctor.specialization) : undefined,
-          } : undefined;
-          
-          const hospital = apt.hospital ? {
-            name: String(apt.hospital.name || "Unknown Hospital"),
-            address: apt.hospital.address ? String(apt.hospital.address) : undefined,
-          } : undefined;
-          
-          // Fetch prescription for this appointment
-          let prescription: Appointment["prescription"] = undefined;
-          try {
-            const prescriptions = await apiGet<any[]>(`/api/prescriptions?appointmentId=${apt._id}`);
-            const prescriptionList = Array.isArray(prescriptions) ? prescriptions : [];
-            if (prescriptionList.length > 0) {
-              prescription = prescriptionList[0];
-            }
-          } catch (error) {
-            // Prescription not found or error - continue without it
-            console.log("No prescription found for appointment:", apt._id);
-          }
-          
-          // Map to Appointment type, ensuring all required fields are present
-          return {
-            _id: String(apt._id ?? ""),
-            hospitalId: String(apt.hospitalId ?? ""),
-            doctorId: String(apt.doctorId ?? ""),
-            patientId: String(apt.patientId ?? ""),
-            status: String(apt.status ?? ""),
-            patientName: String(apt.patientName ?? ""),
-            age: Number(apt.age ?? 0),
-            address: String(apt.address ?? ""),
-            issue: String(apt.issue ?? ""),
-            scheduledAt: String(apt.scheduledAt ?? ""),
-            channel: String(apt.channel ?? ""),
-            doctor,
-            hospital,
-            prescription,
-          };
-        })
-      );
-      
-      setAppointments(enrichedAppointments);
-    } catch (error: any) {
-      console.error("Error fetching appointments:", error);
-      setAppointments([]);
-    } finally {
-      setLoading(false);
-    }
+  const closeReview = () => {
+    setReviewingId(null);
+    if (searchParams.get("review")) router.replace("/appointments");
   };
 
-  useEffect(() => {
-    if (!token || !user) return;
-    const patientId = user.id || user._id;
-    if (!patientId) return;
-    fetchAppointments();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [token, user?.id, user?._id]);
+  const refreshAppointments = () => {
+    invalidateQueries("/api/appointments");
+    invalidateQueries("/api/prescriptions");
+  };
 
-  // Listen for real-time updates
+  // Lists refresh through socket-driven cache invalidation (lib/socket.ts); this only surfaces toasts
   useEffect(() => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user) return;
 
     const socket = getSocket();
     if (!socket) return;
 
-    const handleAppointmentUpdate = () => {
-      fetchAppointments();
-    };
-
     const handleNotification = (data: any) => {
       console.log("Received notification:", data);
-      fetchAppointments();
       
-      // Show toast for important notifications
+      // Show toast notification if available
       if (data.title && data.message) {
         toast.success(`${data.title}: ${data.message}`, {
           duration: 5000,
@@ -208,36 +83,28 @@ export default function AppointmentsPage() {
       }
     };
 
-    onSocketEvent("appointment:statusUpdated", handleAppointmentUpdate);
-    onSocketEvent("appointment:created", handleAppointmentUpdate);
-    onSocketEvent("prescription:created", handleAppointmentUpdate);
-    onSocketEvent("prescription:finalized", handleAppointmentUpdate);
     onSocketEvent("notification:new", handleNotification);
-    onSocketEvent("message:created", handleAppointmentUpdate);
     onSocketEvent("consultation:started", handleNotification);
     
     return () => {
-      offSocketEvent("appointment:statusUpdated", handleAppointmentUpdate);
-      offSocketEvent("appointment:created", handleAppointmentUpdate);
-      offSocketEvent("prescription:created", handleAppointmentUpdate);
-      offSocketEvent("prescription:finalized", handleAppointmentUpdate);
       offSocketEvent("notification:new", handleNotification);
-      offSocketEvent("message:created", handleAppointmentUpdate);
       offSocketEvent("consultation:started", handleNotification);
     };
-  }, [token, user?.id]);
-
-  const handleCancel = async (appointmentId: string) => {
-    if (!window.confirm("Are you sure you want to cancel this appointment?")) return;
+  }, [isAuthenticated, user]);
+
+  const handleCancel = async (appointment: Appointment) => {
+    const isPaid = appointment.paymentStatus === "SUCCEEDED" || appointment.paymentStatus === "PENDING";
+    const message = isPaid
+      ? "Are you sure you want to cancel this appointment? The consultation fee will be refunded to your original payment method."
+      : "Are you sure you want to cancel this appointment?";
+    if (!window.confirm(message)) return;
     
     try {
-      await apiPatch(`/api/appointments/${appointmentId}/cancel`, {
-        cancellationReason: "Cancelled by patient",
-      });
-      fetchAppointments();
-      toast.success("Appointment cancelled successfully");
-    } catch (error: any) {
-      toast.error("Failed to cancel appointment: " + (error.message || "Unknown error"));
+      await appointmentsApi.cancel(appointment._id, "Cancelled by patient");
+      refreshAppointments();
+      toast.success(isPaid ? "Appointment cancelled. Your refund has been initiated." : "Appointment cancelled successfully");
+    } catch (error) {
+      toast.error("Failed to cancel appointment: " + getErrorMessage(error));
     }
   };
 
@@ -245,50 +112,42 @@ export default function AppointmentsPage() {
     if (!window.confirm("Mark this appointment as completed?")) return;
     
     try {
-      await apiPatch(`/api/appointments/${appointmentId}/status`, {
-        status: "COMPLETED",
-      });
-      fetchAppointments();
+      await appointmentsApi.updateStatus(appointmentId, "COMPLETED");
+      refreshAppointments();
       toast.success("Appointment marked as completed");
-    } catch (error: any) {
-      toast.error("Failed to mark appointment as completed: " + (error.message || "Unknown error"));
+      // Ask for feedback while the consultation is fresh
+      setReviewingId(appointmentId);
+    } catch (error) {
+      toast.error("Failed to mark appointment as completed: " + getErrorMessage(error));
     }
   };
 
-  const handleOrderMedicines = (prescription: Appointment["prescription"]) => {
+  const handleOrderMedicines = async (prescription: Prescription | undefined) => {
     if (!prescription || !prescription.items || prescription.items.length === 0) {
       toast.error("No medicines in prescription to order");
       return;
     }
 
-    // Convert prescription items to order items
-    const orderItems = prescription.items.map(item => ({
-      medicineName: item.medicineName,
-      quantity: 1, // Default quantity, can be adjusted
-    }));
-
-    // Store in sessionStorage and redirect to new order page
-    sessionStorage.setItem("prescriptionOrder", JSON.stringify({
-      items: orderItems,
-      prescriptionId: prescription._id,
-    }));
-    
-    router.push("/orders/new");
+    // Course quantities of the matching store products go in the cart
+    setOrderingPrescriptionId(prescription._id);
+    try {
+      router.push(await orderPrescription(prescription));
+    } catch (error) {
+      toast.error("Failed to order medicines: " + getErrorMessage(error));
+    } finally {
+      setOrderingPrescriptionId(null);
+    }
   };
 
-  const handleViewPrescription = async (prescription: Appointment["prescription"], appointment: Appointment) => {
-    if (!prescription || !token) return;
+  const handleViewPrescription = async (prescription: Prescription | undefined, appointment: AppointmentWithPrescription) => {
+    if (!prescription || !isAuthenticated) return;
     
     setViewingPrescription({ prescription, appointment });
     setLoadingPrescription(true);
     setPrescriptionDocument(null);
     
     try {
-      const hospitalId = appointment.hospitalId;
-      const url = hospitalId 
-        ? `/api/prescriptions/${prescription._id}/document?hospitalId=${hospitalId}`
-        : `/api/prescriptions/${prescription._id}/document`;
-      const data = await apiGet<{ rendered: string; template: string }>(url);
+      const data = await prescriptionsApi.document(prescription._id, appointment.hospitalId);
       setPrescriptionDocument(data.rendered);
     } catch (error: any) {
       console.error("Error fetching prescription document:", error);
@@ -299,15 +158,11 @@ export default function AppointmentsPage() {
     }
   };
 
-  const handleDownloadPrescription = async (prescription: Appointment["prescription"], appointment: Appointment) => {
-    if (!prescription || !token) return;
+  const handleDownloadPrescription = async (prescription: Prescription | undefined, appointment: AppointmentWithPrescription) => {
+    if (!prescription || !isAuthenticated) return;
     
     try {
-      const hospitalId = appointment.hospitalId;
-      const url = hospitalId 
-        ? `/api/prescriptions/${prescription._id}/document?hospitalId=${hospitalId}`
-        : `/api/prescriptions/${prescription._id}/document`;
-      const data = await apiGet<{ rendered: string; template: string }>(url);
+      const data = await prescriptionsApi.document(prescription._id, appointment.hospitalId);
       
       // Create a blob from HTML
       const blob = new Blob([data.rendered], { type: "text/html" });
@@ -332,9 +187,9 @@ export default function AppointmentsPage() {
           printWindow.print();
         }, 250);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error downloading prescription:", error);
-      toast.error("Failed to download prescription: " + (error.message || "Unknown error"));
+      toast.error("Failed to download prescription: " + getErrorMessage(error));
     }
   };
 
@@ -342,11 +197,11 @@ export default function AppointmentsPage() {
     if (!window.confirm("Are you sure you want to delete this appointment? This action cannot be undone.")) return;
     
     try {
-      await apiDelete(`/api/appointments/${appointmentId}`);
-      fetchAppointments();
+      await appointmentsApi.remove(appointmentId);
+      refreshAppointments();
       toast.success("Appointment deleted successfully");
-    } catch (error: any) {
-      toast.error("Failed to delete appointment: " + (error.message || "Unknown error"));
+    } catch (error) {
+      toast.error("Failed to delete appointment: " + getErrorMessage(error));
     }
   };
 
@@ -378,7 +233,7 @@ export default function AppointmentsPage() {
 
   if (loading) {
     return (
-      <DashboardLayout title="My Appointments" description="Loading your appointments...">
+      <DashboardLayout title="My Appointments" description="Loading your appointments..." showMemberSwitcher>
         <div className="flex items-center justify-center py-12">
           <div className="text-center">
             <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
@@ -393,6 +248,7 @@ export default function AppointmentsPage() {
     <DashboardLayout
       title="My Appointments"
       description="View and manage your appointments"
+      showMemberSwitcher
       actionButton={
         <Link
           href="/appointments/book"
@@ -482,6 +338,8 @@ export default function AppointmentsPage() {
                       </div>
                     </div>
 
+                    {appointment.refund && <RefundStatus refund={appointment.refund} className="mt-4" />}
+
                     {appointment.prescription && (
                       <div className="mt-4 p-3 sm:p-4 bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-lg">
                         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -529,7 +387,7 @@ export default function AppointmentsPage() {
                           Reschedule
                         </button>
                         <button
-                          onClick={() => handleCancel(appointment._id)}
+                          onClick={() => handleCancel(appointment)}
                           className="rounded-lg border border-red-300 bg-red-50 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-red-700 hover:bg-red-100 shadow-sm transition-colors whitespace-nowrap"
                         >
                           Cancel
@@ -561,7 +419,8 @@ export default function AppointmentsPage() {
                         {appointment.prescription && (
                           <button
                             onClick={() => handleOrderMedicines(appointment.prescription)}
-                            className="rounded-lg bg-green-600 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-green-700 shadow-sm transition-colors whitespace-nowrap"
+                            disabled={orderingPrescriptionId === appointment.prescription._id}
+                            className="rounded-lg bg-green-600 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-green-700 shadow-sm transition-colors whitespace-nowrap disabled:opacity-50"
                           >
                             Order
                           </button>
@@ -573,7 +432,7 @@ export default function AppointmentsPage() {
                           Complete
                         </button>
                         <button
-                          onClick={() => handleCancel(appointment._id)}
+                          onClick={() => handleCancel(appointment)}
                           className="rounded-lg border border-red-300 bg-red-50 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-red-700 hover:bg-red-100 shadow-sm transition-colors whitespace-nowrap"
                         >
                           Cancel
@@ -583,6 +442,22 @@ export default function AppointmentsPage() {
                     {appointment.status === "COMPLETED" && (
                       <div className="text-center space-y-2 w-full sm:w-auto">
                         <span className="text-xs sm:text-sm font-semibold text-blue-900 block">✓ Completed</span>
+                        {reviewByAppointment.has(appointment._id) ? (
+                          <button
+                            onClick={() => setReviewingId(appointment._id)}
+                            className="block w-full rounded-lg border border-amber-300 bg-amber-50 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-amber-800 hover:bg-amber-100 shadow-sm transition-colors"
+                            title="Edit your review"
+                          >
+                            <Stars rating={reviewByAppointment.get(appointment._id)!.rating} /> Edit
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => setReviewingId(appointment._id)}
+                            className="block w-full rounded-lg bg-amber-500 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-amber-600 shadow-sm transition-colors"
+                          >
+                            ⭐ Rate Consultation
+                          </button>
+                        )}
                         <Link
                           href={`/consultation/${appointment._id}`}
                           className="block w-full rounded-lg bg-purple-600 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-purple-700 shadow-sm transition-colors"
@@ -592,7 +467,8 @@ export default function AppointmentsPage() {
                         {appointment.prescription && (
                           <button
                             onClick={() => handleOrderMedicines(appointment.prescription)}
-                            className="w-full rounded-lg bg-green-600 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-green-700 shadow-sm transition-colors"
+                            disabled={orderingPrescriptionId === appointment.prescription._id}
+                            className="w-full rounded-lg bg-green-600 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-green-700 shadow-sm transition-colors disabled:opacity-50"
                           >
                             Order Medicines
                           </button>
@@ -606,6 +482,15 @@ export default function AppointmentsPage() {
           </div>
         )}
 
+        {reviewingAppointment && (
+          <ReviewModal
+            key={`${reviewingAppointment._id}:${reviewByAppointment.get(reviewingAppointment._id)?._id}`}
+            appointment={reviewingAppointment}
+            review={reviewByAppointment.get(reviewingAppointment._id)}
+            onClose={closeReview}
+          />
+        )}
+
         {/* Prescription View Modal */}
         {viewingPrescription && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-3 sm:p-4 bg-black/50">
@@ -712,7 +597,8 @@ export default function AppointmentsPage() {
                 {viewingPrescription.prescription && (
                   <button
                     onClick={() => handleOrderMedicines(viewingPrescription.prescription)}
-                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 shadow-sm transition-colors"
+                    disabled={orderingPrescriptionId === viewingPrescription.prescription._id}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 shadow-sm transition-colors disabled:opacity-50"
                   >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
@@ -738,3 +624,18 @@ export default function AppointmentsPage() {
   );
 }
 
+export default function AppointmentsPage() {
+  return (
+    <Suspense
+      fallback={
+        <DashboardLayout title="My Appointments" description="Loading your appointments...">
+          <div className="flex items-center justify-center py-12">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+          </div>
+        </DashboardLayout>
+      }
+    >
+      <AppointmentsContent />
+    </Suspense>
+  );
+}
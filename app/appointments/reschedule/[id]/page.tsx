@@ -4,23 +4,12 @@ import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet, apiPatch } from "@/lib/api";
-
-interface Appointment {
-  _id: string;
-  doctorId: string;
-  hospitalId: string;
-  scheduledAt: string;
-  doctor?: { name: string };
-}
-
-interface Slot {
-  _id: string;
-  startTime: string;
-  endTime: string;
-  isBooked: boolean;
-  date: string;
-}
+import { appointmentsApi, doctorsApi, schedulesApi } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { Appointment, Slot } from "@/lib/types";
+import { useSession } from "@/lib/session";
+import { formatTime, parseDateKey } from "@/lib/dates";
+import AvailabilityCalendar from "@/components/AvailabilityCalendar";
 
 export default function ReschedulePage() {
   const router = useRouter();
@@ -33,37 +22,21 @@ export default function ReschedulePage() {
   const [reason, setReason] = useState("");
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-    }
-  }, [router]);
+  const { isAuthenticated } = useSession();
 
   const fetchAppointment = async () => {
-    if (!token || !appointmentId) return;
+    if (!isAuthenticated || !appointmentId) return;
     
     try {
-      const data = await apiGet<Appointment>(`/api/appointments/${appointmentId}`);
+      const data = await appointmentsApi.get(appointmentId);
       setAppointment(data);
       
       // Fetch doctor details
       if (data.doctorId) {
-        const doctorData = await apiGet<{ name: string }>(`/api/users/${data.doctorId}`).catch(() => null);
+        const doctorData = await doctorsApi.summary(data.doctorId).catch(() => null);
         setAppointment({ ...data, doctor: doctorData || undefined });
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching appointment:", error);
       toast.error("Failed to load appointment details");
       router.push("/appointments");
@@ -72,12 +45,10 @@ export default function ReschedulePage() {
     }
   };
 
-  const fetchSlots = async (doctorId: string, date: string, hospitalId: string) => {
+  const fetchSlots = async (doctorId: string, date: string, hospitalId?: string) => {
     try {
-      const data = await apiGet<Slot[]>(
-        `/api/schedules/slots/available?doctorId=${doctorId}&date=${date}&hospitalId=${hospitalId}`
-      );
-      setSlots(Array.isArray(data) ? data : []);
+      const data = await schedulesApi.availableSlots({ doctorId, date, hospitalId });
+      setSlots(data);
     } catch (error) {
       console.error("Error fetching slots:", error);
       setSlots([]);
@@ -85,9 +56,9 @@ export default function ReschedulePage() {
   };
 
   useEffect(() => {
-    if (!token || !appointmentId) return;
+    if (!isAuthenticated || !appointmentId) return;
     fetchAppointment();
-  }, [token, appointmentId]);
+  }, [isAuthenticated, appointmentId]);
 
   const handleDateSelect = (date: string) => {
     setSelectedDate(date);
@@ -98,14 +69,14 @@ export default function ReschedulePage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!token || !appointment || !selectedSlot) return;
+    if (!isAuthenticated || !appointment || !selectedSlot) return;
 
     setSubmitting(true);
     try {
       const slot = slots.find(s => s._id === selectedSlot);
-      const newScheduledAt = slot ? new Date(slot.startTime).toISOString() : new Date(selectedDate).toISOString();
+      const newScheduledAt = slot ? new Date(slot.startTime).toISOString() : parseDateKey(selectedDate).toISOString();
 
-      await apiPatch(`/api/appointments/${appointmentId}/reschedule`, {
+      await appointmentsApi.reschedule(appointmentId, {
         scheduledAt: newScheduledAt,
         reason: reason || "Rescheduled by patient",
       });
@@ -114,23 +85,13 @@ export default function ReschedulePage() {
       setTimeout(() => {
         router.push("/appointments");
       }, 1000);
-    } catch (error: any) {
-      toast.error("Failed to reschedule appointment: " + (error.message || "Unknown error"));
+    } catch (error) {
+      toast.error("Failed to reschedule appointment: " + getErrorMessage(error));
     } finally {
       setSubmitting(false);
     }
   };
 
-  const getNext7Days = () => {
-    const days = [];
-    for (let i = 0; i < 7; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() + i);
-      days.push(date.toISOString().split("T")[0]);
-    }
-    return days;
-  };
-
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-gray-50">
@@ -188,22 +149,12 @@ export default function ReschedulePage() {
 
           <div className="mb-6">
             <label className="block text-sm font-semibold text-gray-900 mb-2">Select New Date</label>
-            <div className="grid grid-cols-7 gap-2">
-              {getNext7Days().map((date) => (
-                <button
-                  key={date}
-                  type="button"
-                  onClick={() => handleDateSelect(date)}
-                  className={`rounded-lg border p-3 text-sm font-semibold ${
-                    selectedDate === date
-                      ? "border-blue-900 bg-blue-50 text-blue-900"
-                      : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
-                  }`}
-                >
-                  {new Date(date).toLocaleDateString("en-US", { weekday: "short", day: "numeric" })}
-                </button>
-              ))}
-            </div>
+            <AvailabilityCalendar
+              doctorId={appointment.doctorId}
+              hospitalId={appointment.hospitalId}
+              value={selectedDate}
+              onChange={handleDateSelect}
+            />
           </div>
 
           {selectedDate && (
@@ -216,10 +167,6 @@ export default function ReschedulePage() {
                   {slots
                     .filter(slot => !slot.isBooked)
                     .map((slot) => {
-                      const startTime = new Date(slot.startTime).toLocaleTimeString("en-US", {
-                        hour: "2-digit",
-                        minute: "2-digit",
-                      });
                       return (
                         <button
                           key={slot._id}
@@ -231,7 +178,7 @@ export default function ReschedulePage() {
                               : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
                           }`}
                         >
-                          {startTime}
+                          {formatTime(slot.startTime)}
                         </button>
                       );
                     })}
@@ -5,24 +5,21 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import toast from "react-hot-toast";
 import DashboardLayout from "@/components/DashboardLayout";
+import InteractionWarnings from "@/components/InteractionWarnings";
 import { cartUtils, CartItem } from "@/lib/cart";
+import { useInteractionCheck } from "@/lib/interactions";
+import { useSession } from "@/lib/session";
 
 export default function CartPage() {
   const router = useRouter();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [cartByPharmacy, setCartByPharmacy] = useState<Record<string, CartItem[]>>({});
-  const [user, setUser] = useState<any>(null);
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      if (!storedUser) {
-        router.replace("/");
-        return;
-      }
-      setUser(JSON.parse(storedUser));
-    }
-  }, [router]);
+  const { user } = useSession();
+  const { warnings, isLoading: checkingInteractions, error: interactionsError, retry } = useInteractionCheck(
+    cart,
+    user?.id
+  );
+  const flaggedProductIds = new Set(warnings.flatMap((warning) => warning.productIds));
 
   useEffect(() => {
     loadCart();
@@ -114,6 +111,13 @@ export default function CartPage() {
         </div>
       ) : (
         <div className="space-y-6">
+          <InteractionWarnings
+            warnings={warnings}
+            isLoading={checkingInteractions}
+            error={interactionsError}
+            onRetry={retry}
+          />
+
           {Object.entries(cartByPharmacy).map(([pharmacyId, items]) => {
             const pharmacyName = items[0]?.pharmacyName || "Pharmacy";
             const total = calculateTotal(items);
@@ -167,6 +171,11 @@ export default function CartPage() {
                             📋 Prescription Required
                           </span>
                         )}
+                        {flaggedProductIds.has(item.productId) && (
+                          <span className="inline-block bg-red-100 text-red-800 text-xs font-semibold px-2 py-1 rounded mb-2 ml-1">
+                            ⚠️ Safety warning
+                          </span>
+                        )}
                         <div className="flex items-center gap-2">
                           <span className="font-bold text-gray-900">₹{item.price.toFixed(2)}</span>
                           {item.mrp && item.mrp > item.price && (
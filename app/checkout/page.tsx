@@ -3,27 +3,33 @@
 import { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import toast from "react-hot-toast";
-import { apiPost, apiFetch } from "@/lib/api";
+import { ordersApi, pharmaciesApi, uploadsApi } from "@/lib/client";
+import type { CreateMedicineOrderInput } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import { PAYMENT_METHODS } from "@/lib/types";
+import type { DeliveryType, OrderItem, PaymentIntent, PaymentMethod, Pharmacy } from "@/lib/types";
 import DashboardLayout from "@/components/DashboardLayout";
 import { cartUtils, CartItem } from "@/lib/cart";
-
-interface Pharmacy {
-  _id: string;
-  name: string;
-  address: string;
-  phone?: string;
-}
+import { useSession } from "@/lib/session";
+import { useProfile } from "@/lib/profile";
+import { formatAddress, getDefaultAddress, toOrderAddress, useAddresses } from "@/lib/addresses";
+import { useFamilyMembers } from "@/lib/familyMembers";
+import MemberPicker from "@/components/MemberPicker";
+import AddressSelector from "@/components/AddressSelector";
+import InteractionWarnings from "@/components/InteractionWarnings";
+import { useInteractionCheck } from "@/lib/interactions";
+import { collectPayment, isMockPayments, isPaymentAccepted, useIdempotencyKey, useUnusedPayment } from "@/lib/payments";
+import { MAX_UPLOAD_LABEL, uploadAccept, validateUpload } from "@/lib/uploads";
 
 interface CheckoutData {
   pharmacyId: string;
-  items: Array<{ medicineName: string; quantity: number }>;
+  items: OrderItem[];
   totalAmount: number;
   deliveryCharge: number;
   itemsDetails: CartItem[];
 }
 
-type PaymentMethod = "CASH" | "CARD" | "UPI" | "WALLET" | "NET_BANKING";
-type DeliveryType = "DELIVERY" | "PICKUP";
+const NO_ITEMS: CartItem[] = [];
 
 function CheckoutContent() {
   const router = useRouter();
@@ -33,31 +39,55 @@ function CheckoutContent() {
   const [checkoutData, setCheckoutData] = useState<CheckoutData | null>(null);
   const [pharmacy, setPharmacy] = useState<Pharmacy | null>(null);
   const [deliveryType, setDeliveryType] = useState<DeliveryType>("DELIVERY");
-  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
   const [phoneNumber, setPhoneNumber] = useState("");
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("UPI");
   const [prescriptionFile, setPrescriptionFile] = useState<File | null>(null);
   const [prescriptionPreview, setPrescriptionPreview] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
-  const [user, setUser] = useState<any>(null);
+  const { user } = useSession();
+  const { profile } = useProfile();
+  const { members } = useFamilyMembers();
+  const { addresses, isLoading: addressesLoading } = useAddresses();
+  // Deliver to the default address until the patient picks another one
+  const deliveryAddress = addresses.find((address) => address._id === selectedAddressId) ?? getDefaultAddress(addresses);
+  // Family member the order is for; null orders for the account holder
+  const [patientMemberId, setPatientMemberId] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
 
+  const orderTotal = checkoutData
+    ? deliveryType === "DELIVERY"
+      ? checkoutData.totalAmount
+      : checkoutData.totalAmount - checkoutData.deliveryCharge
+    : 0;
+  const unusedPayment = useUnusedPayment();
+  const { idempotencyKey, rotate: rotateIdempotencyKey } = useIdempotencyKey(
+    [checkoutData?.pharmacyId, patientMemberId ?? user?.id, deliveryType, paymentMethod, orderTotal].join(":")
+  );
+
   const hasPrescriptionRequired = checkoutData?.itemsDetails.some(
     (item) => item.prescriptionRequired
   );
 
+  // Checked for whoever the order is for; serious findings must be acknowledged
+  // again whenever they change
+  const {
+    warnings,
+    blocking,
+    toAcknowledge,
+    warningsKey,
+    isLoading: checkingInteractions,
+    error: interactionsError,
+    retry: retryInteractionCheck,
+  } = useInteractionCheck(checkoutData?.itemsDetails ?? NO_ITEMS, patientMemberId ?? user?.id);
+  // Orders wait until the check has run on loaded prescriptions and allergies
+  const interactionsUnchecked = checkingInteractions || !!interactionsError;
+  const [acknowledgedKey, setAcknowledgedKey] = useState<string | null>(null);
+  const needsAcknowledgement = toAcknowledge.length > 0 && acknowledgedKey !== warningsKey;
+
   useEffect(() => {
     if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      if (!storedUser) {
-        router.replace("/");
-        return;
-      }
-      const userData = JSON.parse(storedUser);
-      setUser(userData);
-      setPhoneNumber(userData.phone || "");
-
       // Get user location
       if (navigator.geolocation) {
         navigator.geolocation.getCurrentPosition(
@@ -93,13 +123,16 @@ function CheckoutContent() {
     }
   }, [router, pharmacyIdParam]);
 
+  // Phone defaults to the saved profile; typed values win
+  useEffect(() => {
+    const phone = profile?.phone || user?.phone;
+    if (phone) setPhoneNumber((current) => current || phone);
+  }, [profile, user?.phone]);
+
   const loadPharmacy = async (pharmacyId: string) => {
     try {
-      const data = await apiFetch(`/api/public/pharmacies`);
-      const pharmacies = await data.json();
-      const pharmacyData = pharmacies.data?.find(
-        (p: Pharmacy) => p._id === pharmacyId
-      ) || pharmacies.find((p: Pharmacy) => p._id === pharmacyId);
+      const pharmacies = await pharmaciesApi.list();
+      const pharmacyData = pharmacies.find((p) => p._id === pharmacyId);
       if (pharmacyData) {
         setPharmacy(pharmacyData);
       }
@@ -112,13 +145,9 @@ function CheckoutContent() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error("File size must be less than 5MB");
-      return;
-    }
-
-    if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
-      toast.error("Please upload an image or PDF file");
+    const invalid = validateUpload(file);
+    if (invalid) {
+      toast.error(invalid);
       return;
     }
 
@@ -141,28 +170,9 @@ function CheckoutContent() {
 
     setUploading(true);
     try {
-      const formData = new FormData();
-      formData.append("file", prescriptionFile);
-
-      const token = localStorage.getItem("token");
-      const API_BASE = process.env.NEXT_PUBLIC_API_BASE;
-
-      const response = await fetch(`${API_BASE}/api/public/upload/prescription`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to upload prescription");
-      }
-
-      const data = await response.json();
-      return data.url || data.fileUrl || null;
-    } catch (error: any) {
-      toast.error(error.message || "Failed to upload prescription");
+      return await uploadsApi.prescription(prescriptionFile);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to upload prescription"));
       return null;
     } finally {
       setUploading(false);
@@ -170,11 +180,11 @@ function CheckoutContent() {
   };
 
   const handlePlaceOrder = async () => {
-    if (!checkoutData || !user) return;
+    if (!checkoutData || !user || loading) return;
 
     // Validation
-    if (deliveryType === "DELIVERY" && !deliveryAddress.trim()) {
-      toast.error("Please enter delivery address");
+    if (deliveryType === "DELIVERY" && !deliveryAddress) {
+      toast.error("Please select a delivery address");
       return;
     }
 
@@ -188,7 +198,24 @@ function CheckoutContent() {
       return;
     }
 
+    if (interactionsUnchecked) {
+      toast.error("Please wait until your medicines have been checked for interactions");
+      return;
+    }
+
+    if (blocking.length > 0) {
+      toast.error("Remove the medicines that can't be taken together before ordering");
+      return;
+    }
+
+    if (needsAcknowledgement) {
+      toast.error("Please review and acknowledge the medicine warnings");
+      return;
+    }
+
     setLoading(true);
+    const patientId = patientMemberId ?? user.id;
+    let intent: PaymentIntent | null = null;
 
     try {
       // Upload prescription if required
@@ -201,28 +228,52 @@ function CheckoutContent() {
         }
       }
 
+      // Card/UPI/wallet orders are paid before the order is created; cash is collected on delivery.
+      // A payment left over from an order that failed is used instead of charging again.
+      if (paymentMethod !== "CASH") intent = unusedPayment.take(orderTotal, patientId);
+      if (paymentMethod !== "CASH" && !intent) {
+        intent = await collectPayment(
+          { purpose: "ORDER", amount: orderTotal, currency: "INR", method: paymentMethod, patientId },
+          idempotencyKey,
+          {
+            onPending: () => toast("Payment is processing. Your order will be confirmed once it clears."),
+            onFailure: (_intent, reason) => {
+              toast.error("Payment failed: " + reason);
+              rotateIdempotencyKey();
+            },
+          }
+        );
+        if (!isPaymentAccepted(intent)) return;
+      }
+
       // Create order
-      const orderPayload = {
-        patientId: user.id || user._id,
+      const deliveryLocation =
+        deliveryType === "DELIVERY" && deliveryAddress?.location
+          ? deliveryAddress.location
+          : userLocation
+          ? { latitude: userLocation.lat, longitude: userLocation.lng }
+          : undefined;
+      const orderPayload: CreateMedicineOrderInput = {
+        patientId,
         pharmacyId: checkoutData.pharmacyId,
         items: checkoutData.items,
         status: "PENDING",
         deliveryType,
-        deliveryAddress: deliveryType === "DELIVERY" ? deliveryAddress : undefined,
-        address: deliveryType === "DELIVERY" ? deliveryAddress : pharmacy?.address,
+        deliveryAddress: deliveryType === "DELIVERY" && deliveryAddress ? formatAddress(deliveryAddress) : undefined,
+        deliveryAddressDetails:
+          deliveryType === "DELIVERY" && deliveryAddress ? toOrderAddress(deliveryAddress) : undefined,
+        address: deliveryType === "DELIVERY" && deliveryAddress ? formatAddress(deliveryAddress) : pharmacy?.address,
         phoneNumber,
-        totalAmount: checkoutData.totalAmount,
+        totalAmount: orderTotal,
         deliveryCharge: deliveryType === "DELIVERY" ? checkoutData.deliveryCharge : 0,
         prescriptionImageUrl,
-        patientLocation: userLocation
-          ? {
-              latitude: userLocation.lat,
-              longitude: userLocation.lng,
-            }
-          : undefined,
+        patientLocation: deliveryLocation,
+        paymentMethod,
+        paymentIntentId: intent?._id,
       };
 
-      const order = await apiPost("/api/orders/medicine-order", orderPayload);
+      const orderId = await ordersApi.createMedicineOrder(orderPayload, idempotencyKey);
+      unusedPayment.consume();
 
       toast.success("Order placed successfully!");
 
@@ -235,10 +286,17 @@ function CheckoutContent() {
       sessionStorage.removeItem("checkoutData");
 
       // Redirect to order tracking
-      const orderId = (order as any)._id || (order as any).id;
       router.push(`/orders/track/${orderId}`);
-    } catch (error: any) {
-      toast.error(error.message || "Failed to place order");
+    } catch (error) {
+      if (intent && isPaymentAccepted(intent)) {
+        unusedPayment.keep(intent, patientId);
+        toast.error(
+          getErrorMessage(error, "Failed to place order") +
+            ". Your payment is kept for your next attempt and refunded if you leave without ordering."
+        );
+      } else {
+        toast.error(getErrorMessage(error, "Failed to place order"));
+      }
     } finally {
       setLoading(false);
     }
@@ -255,10 +313,6 @@ function CheckoutContent() {
   }
 
   const subtotal = checkoutData.totalAmount - checkoutData.deliveryCharge;
-  const finalTotal =
-    deliveryType === "DELIVERY"
-      ? subtotal + checkoutData.deliveryCharge
-      : subtotal;
 
   return (
     <DashboardLayout title="Checkout" description="Review and place your order">
@@ -314,11 +368,20 @@ function CheckoutContent() {
             </div>
             <div className="flex justify-between text-lg font-bold text-gray-900 pt-2 border-t border-gray-300">
               <span>Total:</span>
-              <span>₹{finalTotal.toFixed(2)}</span>
+              <span>₹{orderTotal.toFixed(2)}</span>
             </div>
           </div>
         </div>
 
+        <InteractionWarnings
+          warnings={warnings}
+          isLoading={checkingInteractions}
+          error={interactionsError}
+          onRetry={retryInteractionCheck}
+          acknowledged={acknowledgedKey === warningsKey}
+          onAcknowledgedChange={(acknowledged) => setAcknowledgedKey(acknowledged ? warningsKey : null)}
+        />
+
         {/* Delivery Options */}
         <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Delivery Options</h2>
@@ -362,13 +425,11 @@ function CheckoutContent() {
               <label className="block text-sm font-semibold text-gray-700 mb-2">
                 Delivery Address <span className="text-red-500">*</span>
               </label>
-              <textarea
+              <AddressSelector
+                addresses={addresses}
                 value={deliveryAddress}
-                onChange={(e) => setDeliveryAddress(e.target.value)}
-                rows={3}
-                placeholder="Enter complete delivery address..."
-                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 outline-none"
-                required
+                onChange={(address) => setSelectedAddressId(address._id)}
+                isLoading={addressesLoading}
               />
             </div>
           )}
@@ -377,7 +438,18 @@ function CheckoutContent() {
         {/* Contact Information */}
         <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Contact Information</h2>
-          
+
+          {members.length > 1 && (
+            <div className="mb-4">
+              <MemberPicker
+                members={members}
+                value={patientMemberId ?? user?.id ?? null}
+                onChange={(member) => setPatientMemberId(member.isSelf ? null : member.id)}
+                label="Who are these medicines for?"
+              />
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
               Phone Number <span className="text-red-500">*</span>
@@ -407,11 +479,11 @@ function CheckoutContent() {
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Upload Prescription (Image or PDF, Max 5MB)
+                  Upload Prescription (Image or PDF, Max {MAX_UPLOAD_LABEL})
                 </label>
                 <input
                   type="file"
-                  accept="image/*,.pdf"
+                  accept={uploadAccept(["image", "pdf"])}
                   onChange={handlePrescriptionUpload}
                   className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 outline-none file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                 />
@@ -442,9 +514,14 @@ function CheckoutContent() {
         {/* Payment Method */}
         <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Payment Method</h2>
-          
+          {isMockPayments && (
+            <p className="-mt-2 mb-4 text-sm text-gray-600">
+              Test mode: payments go through the mock gateway and no money is charged.
+            </p>
+          )}
+
           <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-            {(["CARD", "UPI", "WALLET", "NET_BANKING", "CASH"] as PaymentMethod[]).map((method) => (
+            {PAYMENT_METHODS.map((method) => (
               <label
                 key={method}
                 className={`flex items-center gap-2 p-3 border-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-all ${
@@ -472,12 +549,19 @@ function CheckoutContent() {
           <div className="flex items-center justify-between mb-4">
             <div>
               <p className="text-white text-lg font-semibold">Total Amount</p>
-              <p className="text-white text-3xl font-bold">₹{finalTotal.toFixed(2)}</p>
+              <p className="text-white text-3xl font-bold">₹{orderTotal.toFixed(2)}</p>
             </div>
           </div>
           <button
             onClick={handlePlaceOrder}
-            disabled={loading || uploading || (hasPrescriptionRequired && !prescriptionFile)}
+            disabled={
+              loading ||
+              uploading ||
+              (hasPrescriptionRequired && !prescriptionFile) ||
+              interactionsUnchecked ||
+              blocking.length > 0 ||
+              needsAcknowledgement
+            }
             className="w-full px-6 py-4 bg-white text-blue-600 rounded-lg font-bold text-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
           >
             {uploading
@@ -486,6 +570,16 @@ function CheckoutContent() {
               ? "Placing Order..."
               : hasPrescriptionRequired && !prescriptionFile
               ? "Please Upload Prescription"
+              : checkingInteractions
+              ? "Checking Medicines..."
+              : interactionsError
+              ? "Medicine Check Unavailable"
+              : blocking.length > 0
+              ? "Remove Unsafe Combinations"
+              : needsAcknowledgement
+              ? "Acknowledge Medicine Warnings"
+              : paymentMethod !== "CASH" && unusedPayment.covers(orderTotal, patientMemberId ?? user.id)
+              ? "Place Order (Already Paid)"
               : "Place Order"}
           </button>
         </div>
@@ -1,74 +1,54 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
-import { useRouter, useParams } from "next/navigation";
+import { Suspense, useEffect, useState, useRef } from "react";
+import { useParams, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet, apiPost, apiPatch } from "@/lib/api";
+import { appointmentsApi, conversationsApi, prescriptionsApi, reportRequestsApi } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { Appointment, Conversation, Prescription, ReportRequest } from "@/lib/types";
 import { getSocket, onSocketEvent, offSocketEvent } from "@/lib/socket";
+import { useSession } from "@/lib/session";
+import { useConsultationChat } from "@/lib/chat";
+import type { ChatMessage } from "@/lib/chat";
+import { addToOutbox, getOutbox, isOffline, useOutboxFlush } from "@/lib/outbox";
+import type { OutboxReport } from "@/lib/outbox";
+import { MAX_UPLOAD_LABEL, uploadAccept, validateUpload } from "@/lib/uploads";
+import {
+  formatDuration,
+  isVoiceRecordingSupported,
+  MAX_VOICE_NOTE_SECONDS,
+  useVoiceRecorder,
+  voiceNoteFileName,
+} from "@/lib/voiceNotes";
 import DashboardLayout from "@/components/DashboardLayout";
 import PrescriptionModal from "@/components/PrescriptionModal";
+import VideoRoom from "@/components/VideoRoom";
+import ChatAttachment from "@/components/ChatAttachment";
 
-interface Appointment {
-  _id: string;
-  patientId: string;
-  patientName: string;
-  doctorId: string;
-  scheduledAt: string;
-  status: string;
-  channel: string;
-  issue: string;
-  doctor?: { name: string; specialization?: string };
-  hospital?: { name: string };
-}
-
-interface Conversation {
-  _id: string;
-  messages: Array<{
-    senderId: string;
-    senderRole: string;
-    content: string;
-    messageType: string;
-    timestamp: string;
-  }>;
-  summary?: string;
-  isActive?: boolean;
-}
-
-export default function ConsultationPage() {
-  const router = useRouter();
+function ConsultationContent() {
   const params = useParams();
+  const searchParams = useSearchParams();
   const appointmentId = params.id as string;
+  // Message index linked from search, highlighted and scrolled to once
+  const highlightedMessage = searchParams.get("message") !== null ? Number(searchParams.get("message")) : null;
   const [appointment, setAppointment] = useState<Appointment | null>(null);
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [message, setMessage] = useState("");
   const [loading, setLoading] = useState(true);
-  const [sending, setSending] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
-  const [reportRequests, setReportRequests] = useState<any[]>([]);
+  const { user, isAuthenticated } = useSession();
+  const [reportRequests, setReportRequests] = useState<ReportRequest[]>([]);
   const [uploadingReport, setUploadingReport] = useState<string | null>(null);
-  const [prescription, setPrescription] = useState<any | null>(null);
+  // Report requests whose upload is waiting in the outbox
+  const [queuedReports, setQueuedReports] = useState<string[]>([]);
+  const [prescription, setPrescription] = useState<Prescription | null>(null);
   const [loadingPrescription, setLoadingPrescription] = useState(false);
   const [showPrescriptionModal, setShowPrescriptionModal] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const highlightedMessageRef = useRef<HTMLDivElement>(null);
+  const scrolledToHighlightRef = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-      // Socket is already initialized in SocketProvider, no need to initialize again
-    }
-  }, [router]);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
 
   const playNotificationSound = () => {
     try {
@@ -84,17 +64,14 @@ export default function ConsultationPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [conversation?.messages]);
 
   const fetchData = async () => {
-    if (!token || !appointmentId) return;
+    if (!isAuthenticated || !appointmentId) return;
     
     try {
       const [appointmentData, conversationData] = await Promise.all([
-        apiGet<Appointment>(`/api/appointments/${appointmentId}`).catch(() => null),
-        apiGet<Conversation>(`/api/conversations/by-appointment/${appointmentId}`).catch(() => null),
+        appointmentsApi.get(appointmentId).catch(() => null),
+        conversationsApi.byAppointment(appointmentId).catch(() => null),
       ]);
 
       setAppointment(appointmentData);
@@ -102,7 +79,7 @@ export default function ConsultationPage() {
       // If conversation doesn't exist and appointment is confirmed, create one
       if (!conversationData && appointmentData && appointmentData.status === "CONFIRMED") {
         try {
-          const newConversation = await apiPost<Conversation>("/api/conversations", {
+          const newConversation = await conversationsApi.create({
             appointmentId: appointmentId,
             conversationType: appointmentData.channel === "VIDEO" ? "ONLINE" : "OFFLINE",
           });
@@ -113,7 +90,7 @@ export default function ConsultationPage() {
       } else {
         setConversation(conversationData);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching data:", error);
     } finally {
       setLoading(false);
@@ -121,28 +98,38 @@ export default function ConsultationPage() {
   };
 
   useEffect(() => {
-    if (!token || !appointmentId) return;
+    if (!isAuthenticated || !appointmentId) return;
     fetchData();
     fetchReportRequests();
     fetchPrescription();
-  }, [token, appointmentId]);
+  }, [isAuthenticated, appointmentId]);
+
+  const chat = useConsultationChat({
+    appointmentId,
+    conversation,
+    userId: user?.id,
+    onResync: fetchData,
+    onIncoming: playNotificationSound,
+  });
+
+  useEffect(() => {
+    if (!scrolledToHighlightRef.current && highlightedMessageRef.current) {
+      scrolledToHighlightRef.current = true;
+      highlightedMessageRef.current.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
+    // Wait for the linked message to load before falling back to the latest
+    if (!scrolledToHighlightRef.current && highlightedMessage !== null && chat.messages.length <= highlightedMessage) return;
+    scrollToBottom();
+  }, [chat.messages, chat.peerTyping, highlightedMessage]);
 
-  // Listen for new messages
+  // Chat messages arrive through useConsultationChat
   useEffect(() => {
-    if (!token || !appointmentId) return;
+    if (!isAuthenticated || !appointmentId) return;
 
     const socket = getSocket();
     if (!socket) return;
 
-    const handleNewMessage = (data: any) => {
-      // Only update if message is for this appointment and not from current user
-      if (data.appointmentId === appointmentId && user && data.message?.senderId !== user.id && data.message?.senderId !== user._id) {
-        fetchData(); // Refresh conversation
-        // Play notification sound
-        playNotificationSound();
-      }
-    };
-
     const handleReportRequested = () => {
       fetchReportRequests();
     };
@@ -151,35 +138,64 @@ export default function ConsultationPage() {
       fetchPrescription();
     };
 
-    onSocketEvent("message:created", handleNewMessage);
-    onSocketEvent("notification:new", handleNewMessage);
     onSocketEvent("report:requested", handleReportRequested);
     onSocketEvent("prescription:created", handlePrescriptionCreated);
     
     return () => {
-      offSocketEvent("message:created", handleNewMessage);
-      offSocketEvent("notification:new", handleNewMessage);
       offSocketEvent("report:requested", handleReportRequested);
       offSocketEvent("prescription:created", handlePrescriptionCreated);
     };
-  }, [token, appointmentId]);
+  }, [isAuthenticated, appointmentId]);
 
-  const handleSendMessage = async () => {
-    if (!message.trim() || !conversation || sending) return;
+  const handleSendMessage = () => {
+    if (!message.trim() || !conversation) return;
+    chat.sendMessage(message.trim());
+    setMessage("");
+  };
 
-    setSending(true);
-    try {
-      await apiPost(`/api/conversations/${conversation._id}/messages`, {
-        content: message.trim(),
-        messageType: "TEXT",
-      });
-      setMessage("");
-      await fetchData(); // Refresh to get new message
-    } catch (error: any) {
-      toast.error("Failed to send message: " + (error.message || "Unknown error"));
-    } finally {
-      setSending(false);
+  const handleAttachmentSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const invalid = validateUpload(file);
+    if (invalid) {
+      toast.error(invalid);
+      return;
     }
+    chat.sendAttachment(file, file.name);
+  };
+
+  const voiceRecorder = useVoiceRecorder(({ blob, duration }) => {
+    const invalid = validateUpload(blob, ["audio"]);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+    chat.sendAttachment(blob, voiceNoteFileName(blob), duration);
+  });
+
+  useEffect(() => {
+    if (voiceRecorder.error) toast.error(voiceRecorder.error);
+  }, [voiceRecorder.error]);
+
+  const renderDeliveryStatus = (msg: ChatMessage) => {
+    if (msg.status === "pending") return <span className="text-xs text-gray-400">Sending...</span>;
+    if (msg.status === "queued") return <span className="text-xs text-amber-700">🕓 Queued · sends when you&apos;re back online</span>;
+    if (msg.status === "failed") {
+      return (
+        <span className="text-xs text-red-600">
+          Not sent ·{" "}
+          <button
+            type="button"
+            onClick={() => msg.clientId && chat.retryMessage(msg.clientId)}
+            className="font-semibold underline hover:text-red-800"
+          >
+            Retry
+          </button>
+        </span>
+      );
+    }
+    return <span className="text-xs text-gray-400">{msg.readAt ? "✓✓ Read" : "✓ Sent"}</span>;
   };
 
   const formatDate = (dateString: string) => {
@@ -199,53 +215,77 @@ export default function ConsultationPage() {
   };
 
   const fetchReportRequests = async () => {
-    if (!token || !user) return;
+    if (!isAuthenticated || !user) return;
     try {
-      const patientId = user.id || user._id;
-      const requests = await apiGet<any[]>(`/api/report-requests?patientId=${patientId}`);
-      setReportRequests((requests || []).filter((req: any) => req.status === "PENDING"));
+      const patientId = user.id;
+      const requests = await reportRequestsApi.list({ patientId });
+      setReportRequests(requests.filter((req) => req.status === "PENDING"));
     } catch (error) {
       console.error("Error fetching report requests:", error);
       setReportRequests([]);
     }
   };
 
-  const handleFileUpload = async (requestId: string, file: File) => {
-    if (!token) return;
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    getOutbox(appointmentId, user.id)
+      .then((entries) => {
+        if (cancelled) return;
+        setQueuedReports(entries.flatMap((entry) => (entry.kind === "report" ? [entry.requestId] : [])));
+      })
+      .catch((error) => console.error("Failed to read the outbox:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, user?.id]);
 
-    setUploadingReport(requestId);
+  const reportUploaded = (reportType?: string) => {
+    // Send a message in the conversation about the upload
+    if (conversation) {
+      chat.sendMessage(`📄 I've uploaded the ${reportType || "requested"} report.`);
+    }
+    toast.success("Report uploaded successfully! The doctor will be notified.");
+    fetchReportRequests();
+  };
+
+  const queueReport = async (requestId: string, file: File) => {
+    const request = reportRequests.find((r) => r._id === requestId);
+    if (!user?.id) return;
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const API_BASE = process.env.NEXT_PUBLIC_API_BASE;
-      const response = await fetch(`${API_BASE}/api/report-requests/${requestId}/upload`, {
-        method: "PATCH",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-        body: formData,
+      await addToOutbox({
+        kind: "report",
+        userId: user.id,
+        appointmentId,
+        requestId,
+        reportType: request?.reportType,
+        file,
+        createdAt: new Date().toISOString(),
       });
+      setQueuedReports((prev) => [...prev, requestId]);
+      toast("You're offline. The report will upload automatically when you're back online.", { icon: "🕓" });
+    } catch (error) {
+      toast.error("Failed to upload report: " + getErrorMessage(error));
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || "Failed to upload report");
-      }
+  const handleFileUpload = async (requestId: string, file: File) => {
+    if (!isAuthenticated) return;
 
-      // Send a message in the conversation about the upload
-      if (conversation) {
-        const request = reportRequests.find((r: any) => r._id === requestId);
-        await apiPost(`/api/conversations/${conversation._id}/messages`, {
-          content: `📄 I've uploaded the ${request?.reportType || "requested"} report.`,
-          messageType: "TEXT",
-        });
+    setUploadingReport(requestId);
+    try {
+      if (isOffline()) {
+        await queueReport(requestId, file);
+        return;
+      }
+      await reportRequestsApi.upload(requestId, file);
+      reportUploaded(reportRequests.find((r) => r._id === requestId)?.reportType);
+    } catch (error) {
+      if (isOffline(error)) {
+        await queueReport(requestId, file);
+      } else {
+        toast.error("Failed to upload report: " + getErrorMessage(error));
       }
-
-      toast.success("Report uploaded successfully! The doctor will be notified.");
-      fetchReportRequests();
-      fetchData();
-    } catch (error: any) {
-      toast.error("Failed to upload report: " + (error.message || "Unknown error"));
     } finally {
       setUploadingReport(null);
       if (fileInputRef.current) {
@@ -254,6 +294,29 @@ export default function ConsultationPage() {
     }
   };
 
+  // Outbox sender for reports queued while offline
+  const uploadQueuedReport = async (entry: OutboxReport) => {
+    setUploadingReport(entry.requestId);
+    try {
+      await reportRequestsApi.upload(entry.requestId, entry.file);
+      setQueuedReports((prev) => prev.filter((id) => id !== entry.requestId));
+      reportUploaded(entry.reportType);
+    } catch (error) {
+      if (!isOffline(error)) {
+        setQueuedReports((prev) => prev.filter((id) => id !== entry.requestId));
+        toast.error("Failed to upload report: " + getErrorMessage(error));
+      }
+      throw error;
+    } finally {
+      setUploadingReport(null);
+    }
+  };
+
+  useOutboxFlush(appointmentId, isAuthenticated ? user?.id : undefined, {
+    message: chat.deliverQueued,
+    report: uploadQueuedReport,
+  });
+
   const handleReportFileSelect = (requestId: string, event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -276,12 +339,12 @@ export default function ConsultationPage() {
   };
 
   const fetchPrescription = async () => {
-    if (!token || !appointmentId) return;
+    if (!isAuthenticated || !appointmentId) return;
     setLoadingPrescription(true);
     try {
       // Fetch prescription by appointmentId
-      const prescriptions = await apiGet<any[]>(`/api/prescriptions?appointmentId=${appointmentId}`);
-      if (prescriptions && prescriptions.length > 0) {
+      const prescriptions = await prescriptionsApi.list({ appointmentId });
+      if (prescriptions.length > 0) {
         // Get the most recent prescription for this appointment
         setPrescription(prescriptions[0]);
       } else {
@@ -331,8 +394,6 @@ export default function ConsultationPage() {
     );
   }
 
-  const patientId = user?.id || user?._id;
-  const isPatient = (senderId: string) => String(senderId) === String(patientId);
 
   return (
     <DashboardLayout
@@ -356,6 +417,10 @@ export default function ConsultationPage() {
           </Link>
         </div>
 
+        {appointment.channel === "VIDEO" && appointment.status === "CONFIRMED" && (
+          <VideoRoom appointmentId={appointment._id} doctorName={appointment.doctor?.name || "Doctor"} />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column - Appointment Info & Report Requests */}
           <div className="lg:col-span-1 space-y-6">
@@ -437,6 +502,11 @@ export default function ConsultationPage() {
                         className="hidden"
                         id={`file-input-${request._id}`}
                       />
+                      {queuedReports.includes(request._id) && uploadingReport !== request._id ? (
+                        <p className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-2.5 text-center text-sm font-semibold text-amber-800">
+                          🕓 Queued · uploads when you&apos;re back online
+                        </p>
+                      ) : (
                       <label
                         htmlFor={`file-input-${request._id}`}
                         className={`block w-full rounded-lg px-4 py-2.5 text-center text-sm font-semibold text-white shadow-sm cursor-pointer transition-all ${
@@ -447,6 +517,7 @@ export default function ConsultationPage() {
                       >
                         {uploadingReport === request._id ? "⏳ Uploading..." : "📤 Upload Report"}
                       </label>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -511,6 +582,12 @@ export default function ConsultationPage() {
                 </div>
               </div>
 
+              {chat.messages.some((msg) => msg.status === "queued") && (
+                <div className="border-b border-amber-200 bg-amber-50 px-6 py-2 text-xs sm:text-sm text-amber-800">
+                  🕓 You&apos;re offline. Queued messages will be sent in order once the connection is back.
+                </div>
+              )}
+
               {/* Messages Area */}
               <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
           {!conversation ? (
@@ -527,7 +604,7 @@ export default function ConsultationPage() {
                         : "Please wait for your appointment to be confirmed"}
               </p>
             </div>
-          ) : conversation.messages.length === 0 ? (
+          ) : chat.messages.length === 0 ? (
                   <div className="flex flex-col items-center justify-center h-full text-center">
                     <div className="text-6xl mb-4">👋</div>
                     <p className="text-gray-600 font-medium mb-2">No messages yet</p>
@@ -535,15 +612,18 @@ export default function ConsultationPage() {
             </div>
           ) : (
                   <div className="space-y-4">
-              {conversation.messages.map((msg, idx) => (
+              {chat.messages.map((msg, idx) => (
                 <div
-                  key={idx}
-                  className={`flex ${isPatient(msg.senderId) ? "justify-end" : "justify-start"}`}
+                  key={msg._id || msg.clientId || idx}
+                  ref={idx === highlightedMessage ? highlightedMessageRef : undefined}
+                  className={`flex ${chat.isMine(msg) ? "justify-end" : "justify-start"} ${
+                    idx === highlightedMessage ? "rounded-xl bg-yellow-50 ring-2 ring-yellow-300 p-2" : ""
+                  }`}
                 >
-                        <div className={`flex flex-col max-w-[75%] ${isPatient(msg.senderId) ? "items-end" : "items-start"}`}>
+                        <div className={`flex flex-col max-w-[75%] ${chat.isMine(msg) ? "items-end" : "items-start"}`}>
                           <div className="flex items-center gap-2 mb-1">
                             <span className="text-xs font-semibold text-gray-600">
-                              {isPatient(msg.senderId) ? "You" : `Dr. ${appointment.doctor?.name || "Doctor"}`}
+                              {chat.isMine(msg) ? "You" : `Dr. ${appointment.doctor?.name || "Doctor"}`}
                             </span>
                             <span className="text-xs text-gray-400">
                               {new Date(msg.timestamp).toLocaleTimeString("en-US", { 
@@ -554,16 +634,24 @@ export default function ConsultationPage() {
                           </div>
                           <div
                             className={`rounded-2xl px-4 py-3 shadow-sm ${
-                      isPatient(msg.senderId)
-                                ? "bg-blue-600 text-white rounded-br-sm"
+                      chat.isMine(msg)
+                                ? `bg-blue-600 text-white rounded-br-sm ${msg.status === "sent" ? "" : "opacity-70"}`
                                 : "bg-white text-gray-900 border-2 border-gray-200 rounded-bl-sm"
                             }`}
                           >
-                            <p className="text-sm whitespace-pre-wrap leading-relaxed">{msg.content}</p>
+                            {msg.attachment ? (
+                              <ChatAttachment attachment={msg.attachment} progress={msg.progress} mine={chat.isMine(msg)} />
+                            ) : (
+                              <p className="text-sm whitespace-pre-wrap leading-relaxed">{msg.content}</p>
+                            )}
                     </div>
+                          {chat.isMine(msg) && <div className="mt-1">{renderDeliveryStatus(msg)}</div>}
                   </div>
                 </div>
               ))}
+              {chat.peerTyping && (
+                <p className="text-xs italic text-gray-500">Dr. {appointment.doctor?.name || "Doctor"} is typing...</p>
+              )}
               <div ref={messagesEndRef} />
             </div>
           )}
@@ -572,11 +660,63 @@ export default function ConsultationPage() {
           {/* Message Input */}
           {conversation && conversation.isActive !== false && (
                 <div className="border-t-2 border-gray-200 bg-white p-4">
+                  {voiceRecorder.recording ? (
+                    <div className="flex items-center gap-3 rounded-xl border-2 border-red-200 bg-red-50 px-4 py-2">
+                      <span className="h-3 w-3 animate-pulse rounded-full bg-red-600" />
+                      <span className="flex-1 text-sm font-semibold text-red-800">
+                        Recording {formatDuration(voiceRecorder.elapsed)} / {formatDuration(MAX_VOICE_NOTE_SECONDS)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={voiceRecorder.cancel}
+                        className="rounded-lg px-3 py-1.5 text-sm font-semibold text-gray-700 hover:bg-red-100"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={voiceRecorder.stop}
+                        className="rounded-lg bg-red-600 px-4 py-1.5 text-sm font-semibold text-white hover:bg-red-700"
+                      >
+                        Send
+                      </button>
+                    </div>
+                  ) : (
                   <div className="flex gap-3">
+              <input
+                ref={attachmentInputRef}
+                type="file"
+                accept={uploadAccept(["image", "pdf"])}
+                onChange={handleAttachmentSelect}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => attachmentInputRef.current?.click()}
+                title="Attach a photo or PDF"
+                aria-label="Attach a photo or PDF"
+                className="rounded-xl border-2 border-gray-300 bg-white px-3 py-3 text-gray-700 shadow-sm hover:bg-gray-50 transition-all"
+              >
+                📎
+              </button>
+              {isVoiceRecordingSupported() && (
+                <button
+                  type="button"
+                  onClick={voiceRecorder.start}
+                  title="Record a voice note"
+                  aria-label="Record a voice note"
+                  className="rounded-xl border-2 border-gray-300 bg-white px-3 py-3 text-gray-700 shadow-sm hover:bg-gray-50 transition-all"
+                >
+                  🎤
+                </button>
+              )}
               <input
                 type="text"
                 value={message}
-                onChange={(e) => setMessage(e.target.value)}
+                onChange={(e) => {
+                  setMessage(e.target.value);
+                  chat.notifyTyping();
+                }}
                 onKeyPress={(e) => {
                   if (e.key === "Enter" && !e.shiftKey) {
                     e.preventDefault();
@@ -585,18 +725,18 @@ export default function ConsultationPage() {
                 }}
                       placeholder="Type your message here..."
                       className="flex-1 rounded-xl border-2 border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-600 focus:ring-2 focus:ring-blue-600/20 transition-all"
-                disabled={sending}
               />
               <button
                 onClick={handleSendMessage}
-                disabled={!message.trim() || sending}
+                disabled={!message.trim()}
                       className="rounded-xl bg-blue-600 px-6 py-3 font-semibold text-white shadow-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all hover:shadow-lg"
               >
-                      {sending ? "⏳" : "➤"}
+                      ➤
               </button>
                   </div>
+                  )}
                   <p className="text-xs text-gray-500 mt-2 text-center">
-                    Press Enter to send, Shift+Enter for new line
+                    Press Enter to send · Attach photos or PDFs up to {MAX_UPLOAD_LABEL}, or record a voice note
                   </p>
             </div>
           )}
@@ -618,9 +758,23 @@ export default function ConsultationPage() {
         appointment={appointment}
         isOpen={showPrescriptionModal}
         onClose={() => setShowPrescriptionModal(false)}
-        token={token}
       />
     </DashboardLayout>
   );
 }
 
+export default function ConsultationPage() {
+  return (
+    <Suspense
+      fallback={
+        <DashboardLayout title="Consultation" description="Loading consultation...">
+          <div className="flex items-center justify-center py-12">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+          </div>
+        </DashboardLayout>
+      }
+    >
+      <ConsultationContent />
+    </Suspense>
+  );
+}
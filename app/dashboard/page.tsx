@@ -1,11 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { apiGet } from "@/lib/api";
+import { appointmentsApi, ordersApi, prescriptionsApi, queryKeys } from "@/lib/client";
+import { useQuery } from "@/lib/queryCache";
+import type { Appointment, Order } from "@/lib/types";
+import { useSession } from "@/lib/session";
 // Socket is already initialized in SocketProvider
 import DashboardLayout from "@/components/DashboardLayout";
+import TodayMedications from "@/components/TodayMedications";
+import RefillReminders from "@/components/RefillReminders";
 import {
   AppointmentsIcon,
   OrdersIcon,
@@ -15,91 +18,42 @@ import {
   NewsIcon,
 } from "@/components/icons";
 
-interface Appointment {
-  _id: string;
-  scheduledAt: string;
-  status: string;
-  doctor?: { name: string; specialization?: string };
-  hospital?: { name: string };
-}
-
-interface Order {
-  _id: string;
-  status: string;
-  totalAmount?: number;
-  items: Array<{ medicineName: string; quantity: number }>;
-  createdAt: string;
-}
-
 export default function DashboardPage() {
-  const router = useRouter();
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
-  const [stats, setStats] = useState<any>(null);
-  const [recentAppointments, setRecentAppointments] = useState<Appointment[]>([]);
-  const [recentOrders, setRecentOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-      // Socket is already initialized in SocketProvider, no need to initialize again
-    }
-  }, [router]);
-
-  useEffect(() => {
-    if (!token || !user?.id) return;
-
-    const fetchData = async () => {
-      try {
-        const [appointments, prescriptions, orders] = await Promise.all([
-          apiGet(`/api/appointments?patientId=${user.id}`).catch(() => []),
-          apiGet(`/api/prescriptions?patientId=${user.id}`).catch(() => []),
-          apiGet(`/api/orders?patientId=${user.id}`).catch(() => []),
-        ]);
-
-        const appointmentsList = Array.isArray(appointments) ? appointments : [];
-        const ordersList = Array.isArray(orders) ? orders : [];
+  const { user, isAuthenticated } = useSession();
+  const patientId: string | undefined = isAuthenticated ? user?.id : undefined;
+  const appointmentsQuery = useQuery(patientId ? queryKeys.appointments(patientId) : null, () =>
+    appointmentsApi.list({ patientId: patientId! })
+  );
+  const prescriptionsQuery = useQuery(patientId ? queryKeys.prescriptions({ patientId }) : null, () =>
+    prescriptionsApi.list({ patientId })
+  );
+  const ordersQuery = useQuery(patientId ? queryKeys.orders(patientId) : null, () =>
+    ordersApi.list({ patientId: patientId! })
+  );
 
-        setStats({
-          appointments: appointmentsList.length,
-          prescriptions: Array.isArray(prescriptions) ? prescriptions.length : 0,
-          orders: ordersList.length,
-        });
+  const appointmentsList = appointmentsQuery.data ?? [];
+  const ordersList = ordersQuery.data ?? [];
+  const loading = !patientId || appointmentsQuery.isLoading || prescriptionsQuery.isLoading || ordersQuery.isLoading;
 
-        // Get recent appointments (upcoming or latest 3)
-        const sortedAppointments = appointmentsList
-          .sort((a: Appointment, b: Appointment) => 
-            new Date(b.scheduledAt).getTime() - new Date(a.scheduledAt).getTime()
-          )
-          .slice(0, 3);
-        setRecentAppointments(sortedAppointments);
+  const stats = {
+    appointments: appointmentsList.length,
+    prescriptions: prescriptionsQuery.data?.length ?? 0,
+    orders: ordersList.length,
+  };
 
-        // Get recent orders (latest 3)
-        const sortedOrders = ordersList
-          .sort((a: Order, b: Order) => 
-            new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
-          )
-          .slice(0, 3);
-        setRecentOrders(sortedOrders);
-      } catch (error) {
-        console.error("Error fetching data:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Get recent appointments (upcoming or latest 3)
+  const recentAppointments = [...appointmentsList]
+    .sort((a: Appointment, b: Appointment) => 
+      new Date(b.scheduledAt).getTime() - new Date(a.scheduledAt).getTime()
+    )
+    .slice(0, 3);
 
-    fetchData();
-  }, [token, user?.id]);
+  // Get recent orders (latest 3)
+  const recentOrders = [...ordersList]
+    .sort((a: Order, b: Order) => 
+      new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
+    )
+    .slice(0, 3);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -315,6 +269,9 @@ export default function DashboardPage() {
 
           {/* Recent Activity - Right Column */}
           <div className="space-y-4 sm:space-y-6">
+            <TodayMedications patientId={patientId} />
+            <RefillReminders patientId={patientId} />
+
             {/* Recent Appointments */}
             <div className="rounded-xl border border-gray-200 bg-white p-4 sm:p-6 shadow-sm">
               <div className="mb-4 flex items-center justify-between gap-2">
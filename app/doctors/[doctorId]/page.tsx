@@ -0,0 +1,144 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import DashboardLayout from "@/components/DashboardLayout";
+import ReviewList, { Stars } from "@/components/ReviewList";
+import { ApiError, getErrorMessage } from "@/lib/errors";
+import { formatTimeZoneName } from "@/lib/dates";
+import {
+  formatNextAvailable,
+  getConsultationFee,
+  useDoctor,
+  useDoctorReviews,
+  useHospitals,
+  withHospital,
+} from "@/lib/doctors";
+
+export default function DoctorProfilePage() {
+  const params = useParams();
+  const doctorId = params.doctorId as string;
+  const { doctor: doctorRecord, error, isLoading } = useDoctor(doctorId);
+  const { reviews, hasMore } = useDoctorReviews(doctorId);
+  const { hospitals } = useHospitals();
+  const doctor = doctorRecord && withHospital(doctorRecord, hospitals);
+
+  if (isLoading && !doctor) {
+    return (
+      <DashboardLayout title="Doctor Profile" description="Loading doctor details...">
+        <div className="flex items-center justify-center py-12">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!doctor) {
+    const notFound = error instanceof ApiError && error.isNotFound;
+    return (
+      <DashboardLayout title="Doctor Profile">
+        <div className="rounded-lg border border-gray-200 bg-white p-12 text-center shadow-sm">
+          <div className="text-6xl mb-4">⚠️</div>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{notFound ? "Doctor Not Found" : "Couldn't load this doctor"}</h2>
+          {!notFound && error !== undefined && <p className="text-gray-600 mb-6">{getErrorMessage(error)}</p>}
+          <Link
+            href="/appointments/book"
+            className="inline-block rounded-lg bg-blue-900 px-6 py-3 font-semibold text-white shadow-sm hover:bg-blue-800"
+          >
+            Browse Doctors
+          </Link>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const fee = getConsultationFee(doctor);
+
+  return (
+    <DashboardLayout
+      title={`Dr. ${doctor.name}`}
+      description={doctor.specialization}
+      actionButton={
+        <Link
+          href={`/appointments/book/${doctor._id}`}
+          className="rounded-lg bg-blue-900 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-800"
+        >
+          Book Appointment
+        </Link>
+      }
+    >
+      <div className="grid gap-4 sm:gap-6 lg:grid-cols-3">
+        <div className="space-y-4 sm:space-y-6 lg:col-span-2">
+          <div className="rounded-lg border border-gray-200 bg-white p-4 sm:p-6 shadow-sm">
+            <div className="flex items-start gap-4">
+              <div className="w-20 h-20 sm:w-24 sm:h-24 flex-shrink-0 rounded-lg bg-blue-100 flex items-center justify-center text-4xl">
+                👨‍⚕️
+              </div>
+              <div className="min-w-0 flex-1">
+                <h2 className="text-xl sm:text-2xl font-semibold text-gray-900">Dr. {doctor.name}</h2>
+                {doctor.specialization && <p className="text-base text-blue-700 font-medium">{doctor.specialization}</p>}
+                {doctor.qualification && <p className="text-sm text-gray-600 mt-1">{doctor.qualification}</p>}
+                <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs sm:text-sm text-gray-600">
+                  {doctor.rating !== undefined && doctor.reviewCount ? (
+                    <span className="flex items-center gap-1">
+                      <Stars rating={doctor.rating} /> {doctor.rating.toFixed(1)} · {doctor.reviewCount}{" "}
+                      {doctor.reviewCount === 1 ? "review" : "reviews"}
+                    </span>
+                  ) : null}
+                  {doctor.experienceYears !== undefined && <span>{doctor.experienceYears} years of experience</span>}
+                  {doctor.languages && doctor.languages.length > 0 && <span>Speaks {doctor.languages.join(", ")}</span>}
+                </div>
+              </div>
+            </div>
+            {doctor.about && <p className="mt-4 text-sm text-gray-700 whitespace-pre-line">{doctor.about}</p>}
+          </div>
+
+          <div className="rounded-lg border border-gray-200 bg-white p-4 sm:p-6 shadow-sm">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Patient Reviews</h3>
+            {reviews ? (
+              <>
+                <ReviewList reviews={reviews} />
+                {hasMore && <p className="mt-3 text-xs text-gray-500">Showing the {reviews.length} most recent reviews.</p>}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Loading reviews...</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4 sm:space-y-6">
+          <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 sm:p-6">
+            <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide">Consultation Fee</p>
+            <p className="mt-1 text-3xl font-bold text-blue-700">₹{fee}</p>
+            {doctor.channels && doctor.channels.length > 0 && (
+              <p className="mt-2 text-sm text-gray-700">
+                {doctor.channels.map((channel) => (channel === "VIDEO" ? "📹 Video" : "🏥 In-clinic")).join(" · ")}
+              </p>
+            )}
+            <p className="mt-3 text-sm text-gray-700">
+              <span className="font-semibold">Next available:</span>{" "}
+              {doctor.nextAvailableAt ? formatNextAvailable(doctor.nextAvailableAt) : "See the calendar when booking"}
+            </p>
+            <Link
+              href={`/appointments/book/${doctor._id}`}
+              className="mt-4 block rounded-lg bg-blue-900 px-4 py-2.5 text-center text-sm font-semibold text-white shadow-sm hover:bg-blue-800"
+            >
+              Book Appointment
+            </Link>
+          </div>
+
+          {doctor.hospital && (
+            <div className="rounded-lg border border-gray-200 bg-white p-4 sm:p-6 shadow-sm">
+              <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-2">Clinic</p>
+              <p className="font-semibold text-gray-900">🏥 {doctor.hospital.name}</p>
+              {doctor.hospital.address && <p className="mt-1 text-sm text-gray-600">{doctor.hospital.address}</p>}
+              {doctor.hospital.timezone && (
+                <p className="mt-1 text-xs text-gray-500">Clinic time: {formatTimeZoneName(doctor.hospital.timezone)}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { authApi } from "@/lib/client";
+import { ApiError } from "@/lib/errors";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      await authApi.forgotPassword(email.trim());
+      setSentTo(email.trim());
+    } catch (err) {
+      if (err instanceof ApiError && err.isRateLimited) {
+        setError("Too many reset requests. Please wait a few minutes and try again.");
+      } else if (err instanceof ApiError) {
+        const data = err.data as { message?: string } | undefined;
+        setError(data?.message || "Could not send the reset link. Please try again.");
+      } else {
+        setError("Connection error. Please try again.");
+      }
+      console.error("Forgot password error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-3 sm:px-4 py-4">
+      <div className="w-full max-w-md">
+        <div className="rounded-lg border border-gray-300 bg-white p-6 sm:p-8 shadow-lg">
+          <div className="mb-8 text-center">
+            <div className="mb-4 flex justify-center">
+              <div className="h-16 w-16 rounded-lg bg-blue-900 flex items-center justify-center shadow-md">
+                <span className="text-2xl text-white font-bold">P</span>
+              </div>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Forgot Password</h1>
+            <p className="mt-2 text-sm text-gray-600">We&apos;ll email you a link to choose a new password</p>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          {sentTo ? (
+            <div className="space-y-6">
+              <div className="rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-800">
+                If an account exists for <span className="font-semibold">{sentTo}</span>, a password reset link is on
+                its way. The link expires after a short time, so use it soon.
+              </div>
+              <button
+                type="button"
+                onClick={() => setSentTo(null)}
+                className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 font-semibold text-gray-700 shadow-sm transition-all hover:bg-gray-50"
+              >
+                Use a different email
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-900 focus:ring-2 focus:ring-blue-900/20"
+                  placeholder="Enter your email"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full rounded-lg bg-blue-900 px-4 py-3 font-semibold text-white shadow-sm transition-all hover:bg-blue-800 hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? "Sending..." : "Send Reset Link"}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-4 text-center">
+            <p className="text-sm text-gray-600">
+              Remembered it?{" "}
+              <Link href="/" className="text-blue-900 hover:text-blue-800 font-semibold">
+                Sign In
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,78 +1,47 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet } from "@/lib/api";
+import { financeApi, invoicesApi, ordersApi } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { FinanceEntry, Order } from "@/lib/types";
+import { useSession } from "@/lib/session";
+import { isCreditEntry, isSettledCredit, REFUND_STATUS_COLORS, REFUND_STATUS_LABELS } from "@/lib/refunds";
+import { onSocketEvent, offSocketEvent } from "@/lib/socket";
 import DashboardLayout from "@/components/DashboardLayout";
 import { InvoicesIcon, OrdersIcon } from "@/components/icons";
-
-interface Order {
-  _id: string;
-  totalAmount?: number;
-  deliveryCharge?: number;
-  items: Array<{ medicineName: string; quantity: number }>;
-  createdAt: string;
-  status: string;
-  pharmacy?: { name: string };
-}
-
-interface FinanceEntry {
-  _id: string;
-  type: string;
-  amount: number;
-  occurredAt: string;
-  meta?: {
-    orderId?: string;
-    appointmentId?: string;
-  };
-}
+import RefundStatus from "@/components/RefundStatus";
 
 export default function InvoicesPage() {
-  const router = useRouter();
   const [orders, setOrders] = useState<Order[]>([]);
   const [bills, setBills] = useState<FinanceEntry[]>([]);
   const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { user, isAuthenticated } = useSession();
   const [activeTab, setActiveTab] = useState<"orders" | "bills">("orders");
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-    }
-  }, [router]);
+  // Bumped by refund socket events to refetch orders and credit entries
+  const [refundVersion, setRefundVersion] = useState(0);
 
   const fetchData = async () => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user?.id) return;
     
     try {
       // Fetch orders
-      const ordersData = await apiGet<Order[]>(`/api/orders/my`).catch(() => []);
-      setOrders(Array.isArray(ordersData) ? ordersData : []);
+      const ordersData = await ordersApi.mine().catch((): Order[] => []);
+      setOrders(ordersData);
 
       // Fetch finance entries (bills) - filter by patientId
-      const billsData = await apiGet<{ entries?: FinanceEntry[] }>(`/api/finance/summary?patientId=${user.id}`).catch(() => ({ entries: [] }));
+      const billsData = await financeApi.summary({ patientId: user.id }).catch(() => ({ entries: [] }));
       const allEntries = billsData.entries || [];
       // Filter to only show entries that belong to this patient
       // The backend should already filter by patientId, but we double-check here for security
       const patientBills = allEntries.filter((entry: FinanceEntry) => {
-        const entryPatientId = (entry as any).patientId;
+        const entryPatientId = entry.patientId;
         // Only include entries that have the current patient's ID
         return entryPatientId && String(entryPatientId) === String(user.id);
       });
       setBills(patientBills);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching data:", error);
     } finally {
       setLoading(false);
@@ -80,30 +49,34 @@ export default function InvoicesPage() {
   };
 
   useEffect(() => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user?.id) return;
     fetchData();
-  }, [token, user?.id]);
+  }, [isAuthenticated, user?.id, refundVersion]);
+
+  useEffect(() => {
+    if (!isAuthenticated || !user?.id) return;
+
+    const handleRefundUpdate = () => {
+      setRefundVersion((version) => version + 1);
+    };
+
+    onSocketEvent("refund:initiated", handleRefundUpdate);
+    onSocketEvent("refund:updated", handleRefundUpdate);
+
+    return () => {
+      offSocketEvent("refund:initiated", handleRefundUpdate);
+      offSocketEvent("refund:updated", handleRefundUpdate);
+    };
+  }, [isAuthenticated, user?.id]);
 
   const downloadOrderInvoice = async (order: Order) => {
     try {
-      if (!token) {
+      if (!isAuthenticated) {
         toast.error("Please login to download invoice");
         return;
       }
 
-      const API_BASE = process.env.NEXT_PUBLIC_API_BASE;
-      const response = await fetch(`${API_BASE}/api/invoices/order/${order._id}`, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to generate invoice");
-      }
-
-      const blob = await response.blob();
+      const blob = await invoicesApi.orderInvoice(order._id);
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
@@ -115,9 +88,9 @@ export default function InvoicesPage() {
       window.URL.revokeObjectURL(url);
 
       toast.success("Invoice downloaded successfully!");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error generating invoice:", error);
-      toast.error(error.message || "Failed to download invoice");
+      toast.error(getErrorMessage(error, "Failed to download invoice"));
     }
   };
 
@@ -133,7 +106,11 @@ export default function InvoicesPage() {
   };
 
   const totalAmount = orders.reduce((sum, order) => sum + (order.totalAmount || 0), 0);
-  const totalBills = bills.reduce((sum, bill) => sum + bill.amount, 0);
+  // Completed refunds offset the charges they reverse; pending or failed ones don't count yet
+  const totalBills = bills.reduce((sum, bill) => {
+    if (isSettledCredit(bill)) return sum - bill.amount;
+    return isCreditEntry(bill) ? sum : sum + bill.amount;
+  }, 0);
   const totalInvoices = orders.length + bills.length;
 
   if (loading) {
@@ -313,6 +290,7 @@ export default function InvoicesPage() {
                                 <p className="text-xl font-bold text-gray-900">₹{order.totalAmount.toFixed(2)}</p>
                               </div>
                             )}
+                            {order.refund && <RefundStatus refund={order.refund} className="sm:col-span-2" />}
                           </div>
                         </div>
                         <button
@@ -337,7 +315,7 @@ export default function InvoicesPage() {
             <div className="p-4 sm:p-6">
               <div className="mb-4 sm:mb-6">
                 <h2 className="text-lg sm:text-2xl font-bold text-gray-900">Bills</h2>
-                <p className="mt-1 text-xs sm:text-sm text-gray-600">View your medical bills and charges</p>
+                <p className="mt-1 text-xs sm:text-sm text-gray-600">View your medical bills, charges and refund credits</p>
               </div>
               {bills.length === 0 ? (
                 <div className="py-16 text-center">
@@ -349,28 +327,49 @@ export default function InvoicesPage() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {bills.map((bill) => (
-                    <div
-                      key={bill._id}
-                      className="group rounded-lg border border-gray-200 bg-gradient-to-r from-white to-gray-50 p-4 sm:p-5 transition-all hover:border-purple-300 hover:shadow-md"
-                    >
-                      <div className="flex items-center justify-between gap-3 sm:gap-4">
-                        <div className="flex items-center gap-2 sm:gap-4 min-w-0 flex-1">
-                          <div className="flex h-10 w-10 sm:h-12 sm:w-12 items-center justify-center rounded-lg bg-purple-100 flex-shrink-0">
-                            <InvoicesIcon className="w-5 h-5 sm:w-6 sm:h-6 text-purple-600" />
+                  {bills.map((bill) => {
+                    const isCredit = isCreditEntry(bill);
+                    const refundStatus = bill.meta?.refundStatus;
+                    return (
+                      <div
+                        key={bill._id}
+                        className={`group rounded-lg border p-4 sm:p-5 transition-all hover:shadow-md ${
+                          isCredit
+                            ? "border-green-200 bg-gradient-to-r from-white to-green-50 hover:border-green-300"
+                            : "border-gray-200 bg-gradient-to-r from-white to-gray-50 hover:border-purple-300"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-3 sm:gap-4">
+                          <div className="flex items-center gap-2 sm:gap-4 min-w-0 flex-1">
+                            <div
+                              className={`flex h-10 w-10 sm:h-12 sm:w-12 items-center justify-center rounded-lg flex-shrink-0 ${
+                                isCredit ? "bg-green-100" : "bg-purple-100"
+                              }`}
+                            >
+                              <InvoicesIcon className={`w-5 h-5 sm:w-6 sm:h-6 ${isCredit ? "text-green-600" : "text-purple-600"}`} />
+                            </div>
+                            <div className="min-w-0 flex-1">
+                              <h3 className="text-base sm:text-lg font-bold text-gray-900 truncate">{bill.type}</h3>
+                              <p className="text-xs sm:text-sm text-gray-600">{formatDate(bill.occurredAt)}</p>
+                              {refundStatus && (
+                                <span
+                                  className={`mt-1 inline-block rounded-full border px-2 py-0.5 text-[10px] sm:text-xs font-semibold ${REFUND_STATUS_COLORS[refundStatus]}`}
+                                >
+                                  {REFUND_STATUS_LABELS[refundStatus]}
+                                </span>
+                              )}
+                            </div>
                           </div>
-                          <div className="min-w-0 flex-1">
-                            <h3 className="text-base sm:text-lg font-bold text-gray-900 truncate">{bill.type}</h3>
-                            <p className="text-xs sm:text-sm text-gray-600">{formatDate(bill.occurredAt)}</p>
+                          <div className="text-right flex-shrink-0">
+                            <p className={`text-lg sm:text-2xl font-bold ${isCredit ? "text-green-700" : "text-gray-900"}`}>
+                              {isCredit ? "−" : ""}₹{bill.amount.toFixed(2)}
+                            </p>
+                            <p className="text-[10px] sm:text-xs text-gray-500">{isCredit ? "Credit" : "Amount"}</p>
                           </div>
                         </div>
-                        <div className="text-right flex-shrink-0">
-                          <p className="text-lg sm:text-2xl font-bold text-gray-900">₹{bill.amount.toFixed(2)}</p>
-                          <p className="text-[10px] sm:text-xs text-gray-500">Amount</p>
-                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
@@ -3,6 +3,7 @@ import { Inter, JetBrains_Mono } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "react-hot-toast";
 import { SocketProvider } from "@/components/SocketProvider";
+import { RouteGuard } from "@/components/RouteGuard";
 
 const inter = Inter({
   variable: "--font-geist-sans",
@@ -31,7 +32,7 @@ export default function RootLayout({
         suppressHydrationWarning
       >
         <SocketProvider>
-          {children}
+          <RouteGuard>{children}</RouteGuard>
           <Toaster 
             position="top-right"
             toastOptions={{
@@ -0,0 +1,331 @@
+"use client";
+
+import { useState, useEffect, useRef, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { authApi } from "@/lib/client";
+import type { OtpTarget } from "@/lib/client";
+import { ApiError } from "@/lib/errors";
+import { startSession } from "@/lib/session";
+
+const CODE_LENGTH = 6;
+const DEFAULT_RESEND_COOLDOWN = 30;
+
+type Channel = OtpTarget["channel"];
+
+// WebOTP (Chrome on Android) reads the code straight from the SMS
+interface OtpCredential extends Credential {
+  code: string;
+}
+
+function describeOtpError(err: unknown, fallback: string): { message: string; retryAfter?: number } {
+  if (!(err instanceof ApiError)) {
+    return { message: "Connection error. Please try again." };
+  }
+  const data = err.data as { message?: string; retryAfter?: number } | undefined;
+  if (err.isRateLimited) {
+    const retryAfter = err.retryAfter ?? data?.retryAfter;
+    return {
+      message: retryAfter
+        ? `Too many attempts. Please try again in ${retryAfter} seconds.`
+        : "Too many attempts. Please wait a moment and try again.",
+      retryAfter,
+    };
+  }
+  return { message: data?.message || fallback };
+}
+
+function OtpLoginContent() {
+  const searchParams = useSearchParams();
+  const returnTo = searchParams.get("returnTo");
+  const [channel, setChannel] = useState<Channel>("phone");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [step, setStep] = useState<"request" | "verify">("request");
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resendAvailableAt, setResendAvailableAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const verifyingRef = useRef(false);
+
+  const target: OtpTarget =
+    channel === "phone" ? { channel, phone: phone.trim() } : { channel, email: email.trim() };
+  const destination = channel === "phone" ? phone.trim() : email.trim();
+  const resendIn = Math.max(0, Math.ceil((resendAvailableAt - now) / 1000));
+
+  useEffect(() => {
+    if (resendAvailableAt <= Date.now()) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [resendAvailableAt]);
+
+  const startCooldown = (seconds: number) => {
+    setNow(Date.now());
+    setResendAvailableAt(Date.now() + seconds * 1000);
+  };
+
+  const sendCode = async () => {
+    setError(null);
+    setInfo(null);
+    setLoading(true);
+
+    try {
+      const challenge = await authApi.requestOtp(target);
+      setStep("verify");
+      setCode("");
+      setInfo(`We sent a ${CODE_LENGTH}-digit code to ${destination}.`);
+      startCooldown(challenge.resendAfter ?? DEFAULT_RESEND_COOLDOWN);
+    } catch (err) {
+      const { message, retryAfter } = describeOtpError(err, "Could not send the code. Please try again.");
+      setError(message);
+      if (retryAfter) startCooldown(retryAfter);
+      console.error("OTP request error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyCode = async (value: string) => {
+    if (verifyingRef.current || value.length !== CODE_LENGTH) return;
+    verifyingRef.current = true;
+    setError(null);
+    setLoading(true);
+
+    try {
+      // The backend marks the phone or email verified on the returned user.
+      // RouteGuard sends the new session on to returnTo (or the dashboard)
+      const { user, ...tokens } = await authApi.verifyOtp(target, value);
+      startSession(user, tokens);
+    } catch (err) {
+      const { message, retryAfter } = describeOtpError(err, "Invalid or expired code. Please try again.");
+      setError(message);
+      if (retryAfter) startCooldown(retryAfter);
+      setCode("");
+      console.error("OTP verify error:", err);
+    } finally {
+      verifyingRef.current = false;
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (step !== "verify" || channel !== "phone" || !("OTPCredential" in window)) return;
+
+    const controller = new AbortController();
+    navigator.credentials
+      .get({ otp: { transport: ["sms"] }, signal: controller.signal } as CredentialRequestOptions)
+      .then((credential) => {
+        const otp = credential as OtpCredential | null;
+        if (otp?.code) {
+          setCode(otp.code);
+          verifyCode(otp.code);
+        }
+      })
+      .catch(() => {
+        // Aborted or not permitted; the code can still be typed in
+      });
+
+    return () => controller.abort();
+    // Only re-arm when a new code is sent
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, channel, resendAvailableAt]);
+
+  const handleRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendCode();
+  };
+
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyCode(code);
+  };
+
+  const handleCodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, "").slice(0, CODE_LENGTH);
+    setCode(digits);
+    if (digits.length === CODE_LENGTH) {
+      verifyCode(digits);
+    }
+  };
+
+  const switchChannel = (next: Channel) => {
+    setChannel(next);
+    setStep("request");
+    setCode("");
+    setError(null);
+    setInfo(null);
+  };
+
+  const passwordLoginHref = returnTo ? `/?returnTo=${encodeURIComponent(returnTo)}` : "/";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-3 sm:px-4 py-4">
+      <div className="w-full max-w-md">
+        <div className="rounded-lg border border-gray-300 bg-white p-6 sm:p-8 shadow-lg">
+          <div className="mb-8 text-center">
+            <div className="mb-4 flex justify-center">
+              <div className="h-16 w-16 rounded-lg bg-blue-900 flex items-center justify-center shadow-md">
+                <span className="text-2xl text-white font-bold">P</span>
+              </div>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Patient Portal</h1>
+            <p className="mt-2 text-sm text-gray-600">Sign in with a one-time code</p>
+          </div>
+
+          <div className="mb-6 grid grid-cols-2 gap-2 rounded-lg bg-gray-100 p-1">
+            {(["phone", "email"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => switchChannel(option)}
+                className={`rounded-md px-4 py-2 text-sm font-semibold transition-all ${
+                  channel === option ? "bg-white text-blue-900 shadow-sm" : "text-gray-600 hover:text-gray-900"
+                }`}
+              >
+                {option === "phone" ? "Phone" : "Email"}
+              </button>
+            ))}
+          </div>
+
+          {info && (
+            <div className="mb-4 rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-800">
+              {info}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          {step === "request" ? (
+            <form onSubmit={handleRequest} className="space-y-6">
+              {channel === "phone" ? (
+                <div>
+                  <label htmlFor="phone" className="block text-sm font-semibold text-gray-900 mb-2">
+                    Phone Number
+                  </label>
+                  <input
+                    id="phone"
+                    type="tel"
+                    autoComplete="tel"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    required
+                    className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-900 focus:ring-2 focus:ring-blue-900/20"
+                    placeholder="Enter your phone number"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="email" className="block text-sm font-semibold text-gray-900 mb-2">
+                    Email
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-900 focus:ring-2 focus:ring-blue-900/20"
+                    placeholder="Enter your email"
+                  />
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading || resendIn > 0}
+                className="w-full rounded-lg bg-blue-900 px-4 py-3 font-semibold text-white shadow-sm transition-all hover:bg-blue-800 hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? "Sending code..." : resendIn > 0 ? `Send Code (${resendIn}s)` : "Send Code"}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleVerify} className="space-y-6">
+              <div>
+                <label htmlFor="code" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Verification Code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  pattern={`\\d{${CODE_LENGTH}}`}
+                  maxLength={CODE_LENGTH}
+                  value={code}
+                  onChange={(e) => handleCodeChange(e.target.value)}
+                  autoFocus
+                  required
+                  className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-center text-2xl tracking-[0.5em] font-mono text-gray-900 shadow-sm focus:border-blue-900 focus:ring-2 focus:ring-blue-900/20"
+                  placeholder={"•".repeat(CODE_LENGTH)}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || code.length !== CODE_LENGTH}
+                className="w-full rounded-lg bg-blue-900 px-4 py-3 font-semibold text-white shadow-sm transition-all hover:bg-blue-800 hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? "Verifying..." : "Verify & Sign In"}
+              </button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => switchChannel(channel)}
+                  className="text-gray-600 hover:text-gray-900"
+                >
+                  Change {channel === "phone" ? "number" : "email"}
+                </button>
+                <button
+                  type="button"
+                  onClick={sendCode}
+                  disabled={loading || resendIn > 0}
+                  className="font-semibold text-blue-900 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  {resendIn > 0 ? `Resend code in ${resendIn}s` : "Resend code"}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="mt-4 text-center">
+            <p className="text-sm text-gray-600">
+              Prefer your password?{" "}
+              <Link href={passwordLoginHref} className="text-blue-900 hover:text-blue-800 font-semibold">
+                Sign In
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function OtpLoginPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 px-3 sm:px-4 py-4">
+        <div className="w-full max-w-md">
+          <div className="rounded-lg border border-gray-300 bg-white p-6 sm:p-8 shadow-lg">
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-900 border-r-transparent"></div>
+                <p className="mt-4 text-gray-600">Loading...</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    }>
+      <OtpLoginContent />
+    </Suspense>
+  );
+}
@@ -3,46 +3,20 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
-import { apiGet } from "@/lib/api";
+import { productsApi } from "@/lib/client";
+import type { ProductQuery } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { CompositionSearchResult, Product, ProductCategory } from "@/lib/types";
 import DashboardLayout from "@/components/DashboardLayout";
 import ProductCard from "@/components/ProductCard";
 import { cartUtils, CartItem } from "@/lib/cart";
-
-interface Product {
-  _id: string;
-  medicineName: string;
-  composition: string;
-  brandName?: string;
-  category?: string;
-  sellingPrice: number;
-  mrp?: number;
-  discount?: number;
-  quantity: number;
-  imageUrl?: string;
-  description?: string;
-  prescriptionRequired?: boolean;
-  daysUntilExpiry?: number;
-  pharmacy?: {
-    _id: string;
-    name: string;
-    address: string;
-    phone?: string;
-    distance?: number;
-  };
-}
-
-interface Category {
-  value: string;
-  label: string;
-  icon: string;
-  description: string;
-}
+import { useSession } from "@/lib/session";
 
 export default function MedicalStorePage() {
   const router = useRouter();
-  const [user, setUser] = useState<any>(null);
+  const { user } = useSession();
   const [products, setProducts] = useState<Product[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("");
@@ -53,35 +27,11 @@ export default function MedicalStorePage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [hasMore, setHasMore] = useState(false);
   const itemsPerPage = 20;
-  const [compositionResults, setCompositionResults] = useState<{
-    compositions: Array<{
-      composition: string;
-      medicineName: string;
-      brands: Array<{
-        inventoryItemId: string;
-        brandName: string;
-        batchNumber?: string;
-        expiryDate?: string;
-        daysUntilExpiry?: number;
-        availableQuantity: number;
-        sellingPrice: number;
-        mrp: number;
-        pharmacy?: { _id: string; name: string; address?: string; phone?: string; distance?: number };
-      }>;
-    }>;
-    query: string;
-  } | null>(null);
+  const [compositionResults, setCompositionResults] = useState<CompositionSearchResult | null>(null);
   const [loadingComposition, setLoadingComposition] = useState(false);
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      if (!storedUser) {
-        router.replace("/");
-        return;
-      }
-      setUser(JSON.parse(storedUser));
-
       // Get user location
       if (navigator.geolocation) {
         navigator.geolocation.getCurrentPosition(
@@ -120,14 +70,12 @@ export default function MedicalStorePage() {
       setCompositionResults(null);
       return;
     }
-    const params = new URLSearchParams({ search: searchQuery.trim() });
-    if (userLocation) {
-      params.append("latitude", userLocation.lat.toString());
-      params.append("longitude", userLocation.lng.toString());
-      params.append("radius", "15");
-    }
     setLoadingComposition(true);
-    apiGet<{ compositions: any[]; query: string }>(`/api/public/products/by-composition?${params}`)
+    productsApi
+      .byComposition({
+        search: searchQuery.trim(),
+        ...(userLocation && { latitude: userLocation.lat, longitude: userLocation.lng, radius: 15 }),
+      })
       .then((data) => {
         setCompositionResults(data);
       })
@@ -141,12 +89,8 @@ export default function MedicalStorePage() {
 
   const loadCategories = async () => {
     try {
-      const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:4000";
-      const response = await fetch(`${API_BASE}/api/public/products/categories/list`);
-      if (!response.ok) throw new Error("Failed to load categories");
-      const data = await response.json();
-      setCategories(data.categories || []);
-    } catch (error: any) {
+      setCategories(await productsApi.categories());
+    } catch (error) {
       console.error("Failed to load categories:", error);
     }
   };
@@ -154,34 +98,31 @@ export default function MedicalStorePage() {
   const loadProducts = async () => {
     setLoading(true);
     try {
-      const params = new URLSearchParams();
-      
-      if (selectedCategory) params.append("category", selectedCategory);
-      if (searchQuery) params.append("search", searchQuery);
-      if (priceRange.min) params.append("minPrice", priceRange.min);
-      if (priceRange.max) params.append("maxPrice", priceRange.max);
-      if (prescriptionFilter) params.append("prescriptionRequired", prescriptionFilter);
+      const query: ProductQuery = {
+        category: selectedCategory,
+        search: searchQuery,
+        minPrice: priceRange.min,
+        maxPrice: priceRange.max,
+        prescriptionRequired: prescriptionFilter,
+        limit: itemsPerPage,
+        skip: (currentPage - 1) * itemsPerPage,
+      };
       if (userLocation) {
-        params.append("latitude", userLocation.lat.toString());
-        params.append("longitude", userLocation.lng.toString());
-        params.append("radius", "10");
+        query.latitude = userLocation.lat;
+        query.longitude = userLocation.lng;
+        query.radius = 10;
       }
-      params.append("limit", itemsPerPage.toString());
-      params.append("skip", ((currentPage - 1) * itemsPerPage).toString());
 
-      const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:4000";
-      const response = await fetch(`${API_BASE}/api/public/products?${params.toString()}`);
-      if (!response.ok) throw new Error("Failed to load products");
-      const data = await response.json();
+      const data = await productsApi.list(query);
 
       if (currentPage === 1) {
-        setProducts(data.products || []);
+        setProducts(data.products);
       } else {
-        setProducts((prev) => [...prev, ...(data.products || [])]);
+        setProducts((prev) => [...prev, ...data.products]);
       }
       setHasMore(data.hasMore || false);
-    } catch (error: any) {
-      toast.error(error.message || "Failed to load products");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to load products"));
     } finally {
       setLoading(false);
     }
@@ -1,119 +1,57 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
-import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet, apiPatch } from "@/lib/api";
-import { getSocket, onSocketEvent, offSocketEvent } from "@/lib/socket";
+import { appointmentsApi, notificationsApi, prescriptionsApi, queryKeys } from "@/lib/client";
+import { invalidateQueries, useQuery } from "@/lib/queryCache";
+import type { Appointment, Notification, Prescription } from "@/lib/types";
+import { useSession } from "@/lib/session";
+import { getRefundNotificationStatus, REFUND_STATUS_COLORS } from "@/lib/refunds";
+import { REVIEW_REMINDER_NOTIFICATION } from "@/lib/reviews";
 import DashboardLayout from "@/components/DashboardLayout";
 import PrescriptionModal from "@/components/PrescriptionModal";
 
-interface Notification {
-  _id: string;
-  type: string;
-  title: string;
-  message: string;
-  patientId?: string;
-  createdAt: string;
-  metadata?: any;
-  status?: string;
-}
-
 export default function NewsPage() {
-  const router = useRouter();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { isAuthenticated } = useSession();
   const [showPrescriptionModal, setShowPrescriptionModal] = useState(false);
-  const [modalPrescription, setModalPrescription] = useState<any | null>(null);
-  const [modalAppointment, setModalAppointment] = useState<any | null>(null);
+  const [modalPrescription, setModalPrescription] = useState<Prescription | null>(null);
+  const [modalAppointment, setModalAppointment] = useState<Appointment | null>(null);
 
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-      
-      // Socket is already initialized in SocketProvider, no need to initialize again
-    }
-  }, [router]);
-
-  const fetchNotifications = useCallback(async () => {
-    if (!token) return;
-    
-    try {
-      setLoading(true);
-      const data = await apiGet<Notification[]>("/api/notifications/my");
-      const notificationList = Array.isArray(data) ? data : [];
-      setNotifications(notificationList);
-    } catch (error: any) {
-      console.error("Error fetching notifications:", error);
-      setNotifications([]);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [token]);
-
-  useEffect(() => {
-    if (!token) return;
-    fetchNotifications();
-  }, [token, fetchNotifications]);
+  // Socket events invalidate this query (see lib/socket.ts), so no listeners are needed here
+  const notificationsQuery = useQuery<Notification[]>(isAuthenticated ? queryKeys.notifications() : null, () =>
+    notificationsApi.mine()
+  );
+  const notifications = notificationsQuery.data ?? [];
+  const loading = !isAuthenticated || notificationsQuery.isLoading;
 
-  // Listen for real-time updates
+  // Search links point at #notification-<id>; the list renders after the
+  // browser's own anchor scroll, so scroll once it's there
   useEffect(() => {
-    if (!token) return;
-
-    const socket = getSocket();
-    if (!socket) return;
-
-    const handleActivityUpdate = () => {
-      fetchNotifications();
+    if (loading) return;
+    const scrollToHash = () => {
+      if (!window.location.hash) return;
+      document.getElementById(window.location.hash.slice(1))?.scrollIntoView({ behavior: "smooth", block: "center" });
     };
-    
-    const handleNewNotification = () => {
-      fetchNotifications();
-    };
-
-    // Listen for various socket events
-    onSocketEvent("appointment:statusUpdated", handleActivityUpdate);
-    onSocketEvent("prescription:created", handleActivityUpdate);
-    onSocketEvent("order:statusUpdated", handleActivityUpdate);
-    onSocketEvent("report:uploaded", handleActivityUpdate);
-    onSocketEvent("notification:new", handleNewNotification);
-    onSocketEvent("report:requested", handleNewNotification);
-    
-    return () => {
-      offSocketEvent("appointment:statusUpdated", handleActivityUpdate);
-      offSocketEvent("prescription:created", handleActivityUpdate);
-      offSocketEvent("order:statusUpdated", handleActivityUpdate);
-      offSocketEvent("report:uploaded", handleActivityUpdate);
-      offSocketEvent("notification:new", handleNewNotification);
-      offSocketEvent("report:requested", handleNewNotification);
-    };
-  }, [token, fetchNotifications]);
+    scrollToHash();
+    window.addEventListener("hashchange", scrollToHash);
+    return () => window.removeEventListener("hashchange", scrollToHash);
+  }, [loading]);
 
   const handleMarkAsRead = async (notificationId: string) => {
-    if (!token) return;
+    if (!isAuthenticated) return;
     try {
-      await apiPatch(`/api/notifications/${notificationId}/read`);
-      fetchNotifications();
+      await notificationsApi.markAsRead(notificationId);
+      invalidateQueries(queryKeys.notifications());
     } catch (error) {
       console.error("Error marking notification as read:", error);
     }
   };
 
   const getNotificationIcon = (type: string) => {
+    if (getRefundNotificationStatus(type)) return "💸";
+    if (type === REVIEW_REMINDER_NOTIFICATION) return "⭐";
     if (type.includes("APPOINTMENT")) {
       if (type.includes("CONFIRMED")) return "✅";
       if (type.includes("CANCELLED")) return "❌";
@@ -136,6 +74,9 @@ export default function NewsPage() {
   };
 
   const getNotificationColor = (type: string) => {
+    const refundStatus = getRefundNotificationStatus(type);
+    if (refundStatus) return REFUND_STATUS_COLORS[refundStatus];
+    if (type === REVIEW_REMINDER_NOTIFICATION) return "bg-amber-100 text-amber-800 border-amber-300";
     if (type.includes("APPOINTMENT_CONFIRMED") || type.includes("PRESCRIPTION_CREATED")) return "bg-green-100 text-green-800 border-green-300";
     if (type.includes("CANCELLED")) return "bg-red-100 text-red-800 border-red-300";
     if (type.includes("RESCHEDULED") || type.includes("STATUS_UPDATED")) return "bg-yellow-100 text-yellow-800 border-yellow-300";
@@ -165,21 +106,27 @@ export default function NewsPage() {
 
   const handleRefresh = async () => {
     setRefreshing(true);
-    await fetchNotifications();
+    try {
+      await notificationsQuery.refetch();
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    } finally {
+      setRefreshing(false);
+    }
   };
 
   const handleViewPrescription = async (prescriptionId: string, appointmentId?: string) => {
-    if (!token || !prescriptionId) return;
+    if (!isAuthenticated || !prescriptionId) return;
     
     try {
       // Fetch prescription
-      const prescription = await apiGet(`/api/prescriptions/${prescriptionId}`);
+      const prescription = await prescriptionsApi.get(prescriptionId);
       
       // Fetch appointment if available
-      let appointment = null;
+      let appointment: Appointment | null = null;
       if (appointmentId) {
         try {
-          appointment = await apiGet(`/api/appointments/${appointmentId}`);
+          appointment = await appointmentsApi.get(appointmentId);
         } catch (error) {
           console.error("Error fetching appointment:", error);
         }
@@ -240,7 +187,8 @@ export default function NewsPage() {
               return (
                 <div
                   key={notification._id}
-                  className={`rounded-lg border-l-4 border border-gray-300 bg-white p-6 shadow-sm transition-all hover:shadow-md ${colorClasses}`}
+                  id={`notification-${notification._id}`}
+                  className={`scroll-mt-24 rounded-lg border-l-4 border border-gray-300 bg-white p-6 shadow-sm transition-all hover:shadow-md target:ring-2 target:ring-yellow-300 ${colorClasses}`}
                 >
                   <div className="flex items-start gap-4">
                     <div className={`flex h-12 w-12 items-center justify-center rounded-lg text-2xl ${colorClasses.replace("border-", "bg-").replace("-300", "-200")}`}>
@@ -275,6 +223,23 @@ export default function NewsPage() {
                                 View Appointment
                               </Link>
                             )}
+                            {notification.type === REVIEW_REMINDER_NOTIFICATION &&
+                              notification.metadata?.appointmentId && (
+                              <Link
+                                href={`/appointments?review=${notification.metadata.appointmentId}`}
+                                className="rounded-lg bg-amber-500 px-3 py-1.5 text-xs font-semibold text-white hover:bg-amber-600 shadow-sm"
+                              >
+                                ⭐ Rate Consultation
+                              </Link>
+                            )}
+                            {getRefundNotificationStatus(notification.type) && (
+                              <Link
+                                href="/invoices"
+                                className="rounded-lg bg-green-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-green-700 shadow-sm"
+                              >
+                                View Refund
+                              </Link>
+                            )}
                             {(notification.type === "CONSULTATION_STARTED" || 
                               notification.type === "MESSAGE_RECEIVED") && 
                               notification.metadata?.appointmentId && (
@@ -289,8 +254,8 @@ export default function NewsPage() {
                               notification.metadata?.appointmentId && (
                               <button
                                 onClick={() => handleViewPrescription(
-                                  notification.metadata.prescriptionId || notification.metadata.appointmentId,
-                                  notification.metadata.appointmentId
+                                  notification.metadata?.prescriptionId || notification.metadata?.appointmentId || "",
+                                  notification.metadata?.appointmentId
                                 )}
                                 className="rounded-lg bg-green-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-green-700 shadow-sm"
                               >
@@ -329,7 +294,6 @@ export default function NewsPage() {
           setModalPrescription(null);
           setModalAppointment(null);
         }}
-        token={token}
       />
     </DashboardLayout>
   );
@@ -4,52 +4,39 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiPost } from "@/lib/api";
+import { ordersApi } from "@/lib/client";
+import type { CreateMedicineOrderInput, OrderAddress } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { DeliveryType, GeoPoint, OrderItem, PaymentIntent, PaymentMethod, Pharmacy } from "@/lib/types";
+import { useSession } from "@/lib/session";
+import { formatAddress, getDefaultAddress, toOrderAddress, useAddresses } from "@/lib/addresses";
 import DashboardLayout from "@/components/DashboardLayout";
-
-interface Pharmacy {
-  _id: string;
-  name: string;
-  address: string;
-  phone?: string;
-  latitude?: number;
-  longitude?: number;
-}
-
-interface OrderItem {
-  medicineName: string;
-  quantity: number;
-}
+import AddressSelector from "@/components/AddressSelector";
+import { collectPayment, isMockPayments, isPaymentAccepted, useIdempotencyKey } from "@/lib/payments";
 
 interface PendingOrder {
   pharmacyId: string;
   pharmacy?: Pharmacy;
   items: OrderItem[];
-  deliveryType: "DELIVERY" | "PICKUP";
+  deliveryType: DeliveryType;
   deliveryAddress?: string;
+  deliveryAddressDetails?: OrderAddress;
   phoneNumber?: string;
-  patientLocation?: {
-    latitude: number;
-    longitude: number;
-  };
-  pharmacyLocation?: {
-    latitude: number;
-    longitude: number;
-  };
+  patientLocation?: GeoPoint;
+  pharmacyLocation?: GeoPoint;
 }
 
-type PaymentMethod = "CASH" | "CARD" | "UPI" | "WALLET";
-
 export default function CheckoutPage() {
   const router = useRouter();
   const [orderData, setOrderData] = useState<PendingOrder | null>(null);
-  const [deliveryType, setDeliveryType] = useState<"DELIVERY" | "PICKUP">("DELIVERY");
-  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const [deliveryType, setDeliveryType] = useState<DeliveryType>("DELIVERY");
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("CARD");
   const [loading, setLoading] = useState(false);
   const [processingPayment, setProcessingPayment] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { user, isAuthenticated } = useSession();
+  const { addresses, isLoading: addressesLoading } = useAddresses();
+  const deliveryAddress = addresses.find((address) => address._id === selectedAddressId) ?? getDefaultAddress(addresses);
 
   // Calculate prices (dummy calculation)
   const calculatePrices = () => {
@@ -65,20 +52,12 @@ export default function CheckoutPage() {
   };
 
   const { subtotal, deliveryCharge, total } = calculatePrices();
+  const { idempotencyKey, rotate: rotateIdempotencyKey } = useIdempotencyKey(
+    [orderData?.pharmacyId, deliveryType, paymentMethod, total].join(":")
+  );
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-
       // Get pending order from sessionStorage
       const pendingOrderStr = sessionStorage.getItem("pendingOrder");
       if (!pendingOrderStr) {
@@ -90,7 +69,7 @@ export default function CheckoutPage() {
         const pendingOrder: PendingOrder = JSON.parse(pendingOrderStr);
         setOrderData(pendingOrder);
         setDeliveryType(pendingOrder.deliveryType);
-        setDeliveryAddress(pendingOrder.deliveryAddress || "");
+        setSelectedAddressId(pendingOrder.deliveryAddressDetails?.addressId ?? null);
       } catch (error) {
         console.error("Error parsing pending order:", error);
         router.push("/orders/new");
@@ -99,43 +78,66 @@ export default function CheckoutPage() {
   }, [router]);
 
   const handlePlaceOrder = async () => {
-    if (!token || !user?.id || !orderData) return;
+    if (!isAuthenticated || !user?.id || !orderData || loading || processingPayment) return;
 
-    if (deliveryType === "DELIVERY" && !deliveryAddress.trim()) {
-      toast.error("Please enter delivery address");
+    if (deliveryType === "DELIVERY" && !deliveryAddress) {
+      toast.error("Please select a delivery address");
       return;
     }
 
-    setProcessingPayment(true);
-    
-    // Simulate payment processing (dummy)
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    // Cash is collected on delivery; every other method is paid before the order is created
+    let intent: PaymentIntent | undefined;
+    if (paymentMethod !== "CASH") {
+      setProcessingPayment(true);
+      try {
+        intent = await collectPayment(
+          { purpose: "ORDER", amount: total, currency: "INR", method: paymentMethod, patientId: user.id },
+          idempotencyKey,
+          {
+            onPending: () => toast("Payment is processing. Your order will be confirmed once it clears."),
+            onFailure: (_intent, reason) => {
+              toast.error("Payment failed: " + reason);
+              rotateIdempotencyKey();
+            },
+          }
+        );
+      } catch (error) {
+        toast.error("Payment failed: " + getErrorMessage(error));
+        return;
+      } finally {
+        setProcessingPayment(false);
+      }
+      if (!isPaymentAccepted(intent)) return;
+    }
 
-    setProcessingPayment(false);
     setLoading(true);
 
     try {
-      const orderPayload = {
+      const orderPayload: CreateMedicineOrderInput = {
         pharmacyId: orderData.pharmacyId,
         items: orderData.items,
         deliveryType,
-        deliveryAddress: deliveryType === "DELIVERY" ? deliveryAddress : undefined,
+        deliveryAddress: deliveryType === "DELIVERY" && deliveryAddress ? formatAddress(deliveryAddress) : undefined,
+        deliveryAddressDetails:
+          deliveryType === "DELIVERY" && deliveryAddress ? toOrderAddress(deliveryAddress) : undefined,
         phoneNumber: orderData.phoneNumber || user.phone || "",
         totalAmount: total,
         deliveryCharge: deliveryCharge,
-        patientLocation: orderData.patientLocation,
+        patientLocation: (deliveryType === "DELIVERY" && deliveryAddress?.location) || orderData.patientLocation,
         pharmacyLocation: orderData.pharmacyLocation,
+        paymentMethod,
+        paymentIntentId: intent?._id,
       };
 
-      const createdOrder = await apiPost("/api/orders/medicine-order", orderPayload);
+      const orderId = await ordersApi.createMedicineOrder(orderPayload, idempotencyKey);
 
       // Clear pending order
       sessionStorage.removeItem("pendingOrder");
 
       // Redirect to track order page
-      router.push(`/orders/track/${(createdOrder as any)._id}`);
-    } catch (error: any) {
-      toast.error("Failed to place order: " + (error.message || "Unknown error"));
+      router.push(`/orders/track/${orderId}`);
+    } catch (error) {
+      toast.error("Failed to place order: " + getErrorMessage(error));
       setLoading(false);
     }
   };
@@ -308,13 +310,11 @@ export default function CheckoutPage() {
                     <label className="block text-sm font-bold text-gray-900 mb-2">
                       📍 Delivery Address
                     </label>
-                    <textarea
-                      required
+                    <AddressSelector
+                      addresses={addresses}
                       value={deliveryAddress}
-                      onChange={(e) => setDeliveryAddress(e.target.value)}
-                      rows={4}
-                      className="w-full rounded-xl border-2 border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-600 focus:ring-4 focus:ring-blue-600/20 transition-all"
-                      placeholder="Enter your complete delivery address..."
+                      onChange={(address) => setSelectedAddressId(address._id)}
+                      isLoading={addressesLoading}
                     />
                   </div>
                 )}
@@ -331,12 +331,12 @@ export default function CheckoutPage() {
               </div>
               <div className="p-6">
                 <div className="grid grid-cols-2 gap-4">
-                  {[
+                  {([
                     { value: "CARD", label: "Card", icon: "💳" },
                     { value: "UPI", label: "UPI", icon: "📱" },
                     { value: "WALLET", label: "Wallet", icon: "💼" },
                     { value: "CASH", label: "Cash on Delivery", icon: "💵" },
-                  ].map((method) => (
+                  ] satisfies { value: PaymentMethod; label: string; icon: string }[]).map((method) => (
                     <label
                       key={method.value}
                       className={`relative flex flex-col items-center justify-center p-5 rounded-xl border-2 cursor-pointer transition-all ${
@@ -349,7 +349,7 @@ export default function CheckoutPage() {
                         type="radio"
                         value={method.value}
                         checked={paymentMethod === method.value}
-                        onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                        onChange={() => setPaymentMethod(method.value)}
                         className="sr-only"
                       />
                       <div className="text-3xl mb-2">{method.icon}</div>
@@ -370,7 +370,9 @@ export default function CheckoutPage() {
                   <p className="text-sm text-blue-900 font-medium">
                     {paymentMethod === "CASH" 
                       ? "💰 Pay when your order is delivered"
-                      : "ℹ️ This is a demo payment. No actual payment will be processed."}
+                      : isMockPayments
+                      ? "ℹ️ Test mode: payments go through the mock gateway and no money is charged."
+                      : "🔒 You'll be asked to complete the payment securely when you place the order"}
                   </p>
                 </div>
               </div>
@@ -404,7 +406,7 @@ export default function CheckoutPage() {
 
                 <button
                   onClick={handlePlaceOrder}
-                  disabled={loading || processingPayment || (deliveryType === "DELIVERY" && !deliveryAddress.trim())}
+                  disabled={loading || processingPayment || (deliveryType === "DELIVERY" && !deliveryAddress)}
                   className="w-full rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 font-bold text-white shadow-lg hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 disabled:transform-none"
                 >
                   {processingPayment ? (
@@ -4,46 +4,34 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet, apiPost } from "@/lib/api";
-
-interface Pharmacy {
-  _id: string;
-  name: string;
-  address: string;
-  phone?: string;
-  latitude?: number;
-  longitude?: number;
-  distance?: number;
-}
+import { pharmaciesApi } from "@/lib/client";
+import type { DeliveryType, OrderItem, Pharmacy } from "@/lib/types";
+import { useSession } from "@/lib/session";
+import { formatAddress, getDefaultAddress, toOrderAddress, useAddresses } from "@/lib/addresses";
+import { distanceKm } from "@/lib/geo";
+import AddressSelector from "@/components/AddressSelector";
 
 export default function NewOrderPage() {
   const router = useRouter();
   const [pharmacies, setPharmacies] = useState<Pharmacy[]>([]);
   const [selectedPharmacy, setSelectedPharmacy] = useState<string>("");
-  const [items, setItems] = useState<Array<{ medicineName: string; quantity: number }>>([
+  const [items, setItems] = useState<OrderItem[]>([
     { medicineName: "", quantity: 1 },
   ]);
-  const [deliveryType, setDeliveryType] = useState<"DELIVERY" | "PICKUP">("DELIVERY");
-  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const [deliveryType, setDeliveryType] = useState<DeliveryType>("DELIVERY");
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [loading, setLoading] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { user, isAuthenticated } = useSession();
   const [isFromPrescription, setIsFromPrescription] = useState(false);
+  const { addresses, isLoading: addressesLoading } = useAddresses();
+  const deliveryAddress = addresses.find((address) => address._id === selectedAddressId) ?? getDefaultAddress(addresses);
+  // Pharmacies are ranked from the pinned delivery address, else from where the patient is now
+  const originLat = (deliveryType === "DELIVERY" && deliveryAddress?.location?.latitude) || userLocation?.lat;
+  const originLng = (deliveryType === "DELIVERY" && deliveryAddress?.location?.longitude) || userLocation?.lng;
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-      
       // Check if there's a prescription order
       const prescriptionOrderStr = sessionStorage.getItem("prescriptionOrder");
       if (prescriptionOrderStr) {
@@ -77,29 +65,21 @@ export default function NewOrderPage() {
   }, [router]);
 
   useEffect(() => {
-    if (!token) return;
+    if (!isAuthenticated) return;
     fetchPharmacies();
-  }, [token, userLocation]);
+  }, [isAuthenticated, originLat, originLng]);
 
   const fetchPharmacies = async () => {
     try {
-      const data = await apiGet<{ data?: Pharmacy[] } | Pharmacy[]>("/api/public/pharmacies");
-      let pharmaciesList: Pharmacy[] = [];
-      if (Array.isArray(data)) {
-        pharmaciesList = data;
-      } else if (data && typeof data === 'object' && 'data' in data && Array.isArray(data.data)) {
-        pharmaciesList = data.data;
-      }
+      let pharmaciesList: Pharmacy[] = await pharmaciesApi.list();
       
       // Calculate distances if user location is available
-      if (userLocation) {
+      if (originLat && originLng) {
         pharmaciesList = pharmaciesList.map((pharmacy) => {
           if (pharmacy.latitude && pharmacy.longitude) {
-            const distance = calculateDistance(
-              userLocation.lat,
-              userLocation.lng,
-              pharmacy.latitude,
-              pharmacy.longitude
+            const distance = distanceKm(
+              { latitude: originLat, longitude: originLng },
+              { latitude: pharmacy.latitude, longitude: pharmacy.longitude }
             );
             return { ...pharmacy, distance };
           }
@@ -116,20 +96,6 @@ export default function NewOrderPage() {
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Radius of the Earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) *
-        Math.cos(lat2 * Math.PI / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c; // Distance in km
-  };
-
   const handleAddItem = () => {
     setItems([...items, { medicineName: "", quantity: 1 }]);
   };
@@ -146,7 +112,7 @@ export default function NewOrderPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!token || !user?.id || !selectedPharmacy) return;
+    if (!isAuthenticated || !user?.id || !selectedPharmacy) return;
 
     // Validate items
     const validItems = items.filter(item => item.medicineName.trim() !== "");
@@ -155,8 +121,8 @@ export default function NewOrderPage() {
       return;
     }
 
-    if (deliveryType === "DELIVERY" && !deliveryAddress.trim()) {
-      toast.error("Please enter delivery address");
+    if (deliveryType === "DELIVERY" && !deliveryAddress) {
+      toast.error("Please select a delivery address");
       return;
     }
 
@@ -167,11 +133,13 @@ export default function NewOrderPage() {
       pharmacy: selectedPharmacyData,
       items: validItems,
       deliveryType,
-      deliveryAddress: deliveryType === "DELIVERY" ? deliveryAddress : undefined,
+      deliveryAddress: deliveryType === "DELIVERY" && deliveryAddress ? formatAddress(deliveryAddress) : undefined,
+      deliveryAddressDetails:
+        deliveryType === "DELIVERY" && deliveryAddress ? toOrderAddress(deliveryAddress) : undefined,
       phoneNumber: user.phone || "",
-      patientLocation: userLocation ? {
-        latitude: userLocation.lat,
-        longitude: userLocation.lng,
+      patientLocation: originLat && originLng ? {
+        latitude: originLat,
+        longitude: originLng,
       } : undefined,
       pharmacyLocation: selectedPharmacyData?.latitude && selectedPharmacyData?.longitude ? {
         latitude: selectedPharmacyData.latitude,
@@ -217,7 +185,7 @@ export default function NewOrderPage() {
           {/* Select Pharmacy */}
           <div className="mb-6">
             <label className="block text-sm font-semibold text-gray-900 mb-2">
-              Select Pharmacy {userLocation && "(Sorted by distance)"}
+              Select Pharmacy {originLat && originLng && "(Sorted by distance)"}
             </label>
             <div className="space-y-3 max-h-64 overflow-y-auto">
               {pharmacies.map((pharmacy) => (
@@ -332,13 +300,11 @@ export default function NewOrderPage() {
               <label className="block text-sm font-semibold text-gray-900 mb-2">
                 Delivery Address
               </label>
-              <textarea
-                required
+              <AddressSelector
+                addresses={addresses}
                 value={deliveryAddress}
-                onChange={(e) => setDeliveryAddress(e.target.value)}
-                rows={3}
-                className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-900 focus:ring-2 focus:ring-blue-900/20"
-                placeholder="Enter your delivery address"
+                onChange={(address) => setSelectedAddressId(address._id)}
+                isLoading={addressesLoading}
               />
             </div>
           )}
@@ -4,42 +4,14 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { apiGet, apiPost, apiDelete } from "@/lib/api";
+import { ordersApi, pharmaciesApi, pharmacyLoader, prescriptionsApi } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { Order, Pharmacy, Prescription } from "@/lib/types";
 import { getSocket, onSocketEvent, offSocketEvent } from "@/lib/socket";
+import { useSession } from "@/lib/session";
+import { prescriptionRefillRequests } from "@/lib/refills";
 import DashboardLayout from "@/components/DashboardLayout";
-
-interface Pharmacy {
-  _id: string;
-  name: string;
-  address: string;
-  phone?: string;
-  latitude?: number;
-  longitude?: number;
-  distance?: number;
-}
-
-interface Prescription {
-  _id: string;
-  items: Array<{
-    medicineName: string;
-    dosage: string;
-    frequency: string;
-    duration: string;
-  }>;
-  doctorId: string;
-  appointmentId: string;
-}
-
-interface Order {
-  _id: string;
-  pharmacyId: string;
-  status: string;
-  items: Array<{ medicineName: string; quantity: number }>;
-  totalAmount?: number;
-  deliveryType: string;
-  createdAt: string;
-  pharmacy?: Pharmacy;
-}
+import RefundStatus from "@/components/RefundStatus";
 
 export default function OrdersPage() {
   const router = useRouter();
@@ -48,23 +20,10 @@ export default function OrdersPage() {
   const [pharmacies, setPharmacies] = useState<Pharmacy[]>([]);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { user, isAuthenticated } = useSession();
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-      // Socket is already initialized in SocketProvider, no need to initialize again
-      
       // Get user location
       if (navigator.geolocation) {
         navigator.geolocation.getCurrentPosition(
@@ -83,17 +42,16 @@ export default function OrdersPage() {
   }, [router]);
 
   const fetchOrders = async () => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user?.id) return;
     
     try {
-      const data = await apiGet<Order[]>(`/api/orders/my`);
-      const ordersList = Array.isArray(data) ? data : [];
+      const ordersList = await ordersApi.mine();
       
       // Fetch pharmacy details
       const enrichedOrders = await Promise.all(
         ordersList.map(async (order): Promise<Order> => {
           try {
-            const pharmacy = await apiGet<Pharmacy>(`/api/master/pharmacies/${order.pharmacyId}`).catch(() => null);
+            const pharmacy = await pharmacyLoader.load(order.pharmacyId).catch(() => null);
             return { ...order, pharmacy: pharmacy || undefined };
           } catch {
             return order;
@@ -102,7 +60,7 @@ export default function OrdersPage() {
       );
       
       setOrders(enrichedOrders);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching orders:", error);
       setOrders([]);
     } finally {
@@ -111,18 +69,18 @@ export default function OrdersPage() {
   };
 
   const fetchPrescriptions = async () => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user?.id) return;
     
     try {
       // Try by-patient endpoint first
-      let data;
+      let data: Prescription[];
       try {
-        data = await apiGet<Prescription[]>(`/api/prescriptions/by-patient/${user.id}`);
+        data = await prescriptionsApi.listByPatient(user.id);
       } catch {
         // Fallback to query param
-        data = await apiGet<Prescription[]>(`/api/prescriptions?patientId=${user.id}`).catch(() => []);
+        data = await prescriptionsApi.list({ patientId: user.id }).catch((): Prescription[] => []);
       }
-      setPrescriptions(Array.isArray(data) ? data : []);
+      setPrescriptions(data);
     } catch (error) {
       console.error("Error fetching prescriptions:", error);
     }
@@ -130,13 +88,7 @@ export default function OrdersPage() {
 
   const fetchPharmacies = async () => {
     try {
-      const data = await apiGet<{ data?: Pharmacy[] } | Pharmacy[]>("/api/public/pharmacies");
-      let pharmaciesList: Pharmacy[] = [];
-      if (Array.isArray(data)) {
-        pharmaciesList = data;
-      } else if (data && typeof data === 'object' && 'data' in data && Array.isArray(data.data)) {
-        pharmaciesList = data.data;
-      }
+      let pharmaciesList: Pharmacy[] = await pharmaciesApi.list();
       
       // Calculate distances if user location is available
       if (userLocation) {
@@ -178,15 +130,15 @@ export default function OrdersPage() {
   };
 
   useEffect(() => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user?.id) return;
     fetchOrders();
     fetchPrescriptions();
     fetchPharmacies();
-  }, [token, user?.id, userLocation]);
+  }, [isAuthenticated, user?.id, userLocation]);
 
   // Listen for real-time updates
   useEffect(() => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user?.id) return;
 
     const socket = getSocket();
     if (!socket) return;
@@ -197,26 +149,27 @@ export default function OrdersPage() {
 
     onSocketEvent("order:statusUpdated", handleOrderUpdate);
     onSocketEvent("order:created", handleOrderUpdate);
+    onSocketEvent("refund:initiated", handleOrderUpdate);
+    onSocketEvent("refund:updated", handleOrderUpdate);
     
     return () => {
       offSocketEvent("order:statusUpdated", handleOrderUpdate);
       offSocketEvent("order:created", handleOrderUpdate);
+      offSocketEvent("refund:initiated", handleOrderUpdate);
+      offSocketEvent("refund:updated", handleOrderUpdate);
     };
-  }, [token, user?.id]);
+  }, [isAuthenticated, user?.id]);
 
   const handleOrderFromPrescription = async (prescriptionId: string, pharmacyId: string) => {
-    if (!token || !user?.id) return;
+    if (!isAuthenticated || !user?.id) return;
     
     try {
       const prescription = prescriptions.find(p => p._id === prescriptionId);
       if (!prescription) return;
 
-      const items = prescription.items.map(item => ({
-        medicineName: item.medicineName,
-        quantity: 1, // Default quantity
-      }));
+      const items = prescriptionRefillRequests(prescription.items);
 
-      await apiPost("/api/orders", {
+      await ordersApi.create({
         pharmacyId,
         prescriptionId,
         patientId: user.id,
@@ -230,20 +183,27 @@ export default function OrdersPage() {
 
       toast.success("Order created successfully!");
       fetchOrders();
-    } catch (error: any) {
-      toast.error("Failed to create order: " + (error.message || "Unknown error"));
+    } catch (error) {
+      toast.error("Failed to create order: " + getErrorMessage(error));
     }
   };
 
-  const handleDelete = async (orderId: string) => {
-    if (!confirm("Are you sure you want to delete this order? This action cannot be undone.")) return;
+  const handleDelete = async (order: Order) => {
+    // Paid orders without a refund yet get one started when they're removed
+    const willRefund = order.paymentStatus === "SUCCEEDED" && !order.refund;
+    const message = willRefund
+      ? "Are you sure you want to delete this order? The amount paid will be refunded to your original payment method."
+      : "Are you sure you want to delete this order? This action cannot be undone.";
+    if (!confirm(message)) return;
     
     try {
-      await apiDelete(`/api/orders/${orderId}`);
+      await ordersApi.remove(order._id);
       fetchOrders();
-      toast.success("Order deleted successfully");
-    } catch (error: any) {
-      toast.error("Failed to delete order: " + (error.message || "Unknown error"));
+      toast.success(
+        willRefund ? "Order deleted. Track your refund under Invoices & Bills." : "Order deleted successfully"
+      );
+    } catch (error) {
+      toast.error("Failed to delete order: " + getErrorMessage(error));
     }
   };
 
@@ -353,6 +313,7 @@ export default function OrdersPage() {
                         <strong className="text-xs sm:text-sm">Ordered:</strong> {formatDate(order.createdAt)}
                       </p>
                     </div>
+                    {order.refund && <RefundStatus refund={order.refund} className="mt-3" />}
                   </div>
                   <div className="flex flex-row sm:flex-col gap-2 sm:ml-4 flex-shrink-0">
                     <Link
@@ -363,7 +324,7 @@ export default function OrdersPage() {
                     </Link>
                     {(order.status === "PENDING" || order.status === "CANCELLED") && (
                       <button
-                        onClick={() => handleDelete(order._id)}
+                        onClick={() => handleDelete(order)}
                         className="rounded-lg border border-red-500 bg-red-600 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-red-700 shadow-sm whitespace-nowrap"
                       >
                         🗑️ Delete
@@ -3,60 +3,25 @@
 import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
-import { apiGet, apiPut } from "@/lib/api";
+import { ordersApi } from "@/lib/client";
+import type { Order } from "@/lib/types";
 import { getSocket, onSocketEvent, offSocketEvent } from "@/lib/socket";
+import { useSession } from "@/lib/session";
 import DashboardLayout from "@/components/DashboardLayout";
 
-interface Order {
-  _id: string;
-  status: string;
-  items: Array<{ medicineName: string; quantity: number }>;
-  deliveryType: string;
-  deliveryLocation?: {
-    latitude: number;
-    longitude: number;
-    timestamp: string;
-  };
-  pharmacyLocation?: {
-    latitude: number;
-    longitude: number;
-  };
-  patientLocation?: {
-    latitude: number;
-    longitude: number;
-  };
-  deliveryPersonName?: string;
-  deliveryPersonPhone?: string;
-  estimatedDeliveryTime?: string;
-  deliveredAt?: string;
-  pharmacy?: { name: string; address: string };
-}
-
 export default function TrackOrderPage() {
   const router = useRouter();
   const params = useParams();
   const orderId = params.id as string;
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { isAuthenticated } = useSession();
   const [mapUrl, setMapUrl] = useState<string>("");
   const [showOrderDetailsModal, setShowOrderDetailsModal] = useState(false);
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-      
-      // Only initialize socket if we have a token
+      // Only initialize socket if we have a isAuthenticated
       // Socket will handle connection errors gracefully
       try {
         // Socket is already initialized in SocketProvider, no need to initialize again
@@ -68,10 +33,10 @@ export default function TrackOrderPage() {
   }, [router]);
 
   const fetchOrder = async () => {
-    if (!token || !orderId) return;
+    if (!isAuthenticated || !orderId) return;
     
     try {
-      const data = await apiGet<Order>(`/api/orders/${orderId}`);
+      const data = await ordersApi.get(orderId);
       setOrder(data);
       
       // Generate map URL if locations are available
@@ -89,7 +54,7 @@ export default function TrackOrderPage() {
           setMapUrl(url);
         }
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching order:", error);
     } finally {
       setLoading(false);
@@ -98,13 +63,13 @@ export default function TrackOrderPage() {
 
 
   useEffect(() => {
-    if (!token || !orderId) return;
+    if (!isAuthenticated || !orderId) return;
     fetchOrder();
-  }, [token, orderId]);
+  }, [isAuthenticated, orderId]);
 
   // Listen for real-time location updates
   useEffect(() => {
-    if (!token || !orderId) return;
+    if (!isAuthenticated || !orderId) return;
 
     const socket = getSocket();
     if (!socket) return;
@@ -120,7 +85,7 @@ export default function TrackOrderPage() {
       offSocketEvent("order:deliveryLocationUpdated", handleLocationUpdate);
       offSocketEvent("order:statusUpdated", handleLocationUpdate);
     };
-  }, [token, orderId]);
+  }, [isAuthenticated, orderId]);
 
   const getStatusSteps = () => {
     const statusOrder = ["PENDING", "ORDER_RECEIVED", "ACCEPTED", "PACKED", "OUT_FOR_DELIVERY", "DELIVERED"];
@@ -1,14 +1,13 @@
 "use client";
 
 import { useState, useEffect, Suspense } from "react";
-import { useRouter, useSearchParams } from "next/navigation";
+import { useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { apiPost } from "@/lib/api";
-
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE;
+import { authApi } from "@/lib/client";
+import { ApiError } from "@/lib/errors";
+import { startSession } from "@/lib/session";
 
 function LoginContent() {
-  const router = useRouter();
   const searchParams = useSearchParams();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -18,24 +17,22 @@ function LoginContent() {
   const [showPassword, setShowPassword] = useState(false);
 
   useEffect(() => {
-    // Check if already logged in
-    if (typeof window !== "undefined") {
-      const token = localStorage.getItem("token");
-      const user = localStorage.getItem("user");
-      if (token && user) {
-        router.replace("/dashboard");
-      }
-    }
-    
-    // Check for signup success message
+    // Success messages handed over by signup / password reset
+    let message: string | null = null;
     if (searchParams.get("signup") === "success") {
-      setSuccess("Account created successfully! Please login with your credentials.");
+      message = "Account created successfully! Check your inbox to verify your email, then sign in.";
+    } else if (searchParams.get("reset") === "success") {
+      message = "Your password has been reset. Please sign in with your new password.";
+    }
+
+    if (message) {
+      setSuccess(message);
       // Clear the query parameter from URL without reload
       if (typeof window !== "undefined") {
         window.history.replaceState({}, "", "/");
       }
     }
-  }, [router, searchParams]);
+  }, [searchParams]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,34 +40,25 @@ function LoginContent() {
     setLoading(true);
 
     try {
-      const response = await fetch(`${API_BASE}/api/users/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        // Store token and user data
-        localStorage.setItem("token", data.token);
-        localStorage.setItem("user", JSON.stringify(data.user));
-        
-        // Redirect to dashboard
-        router.push("/dashboard");
+      const { user, ...tokens } = await authApi.login({ email, password });
+      // RouteGuard sends the new session on to returnTo (or the dashboard)
+      startSession(user, tokens);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        const data = err.data as { message?: string } | undefined;
+        setError(data?.message || "Login failed. Please check your credentials.");
       } else {
-        setError(data.message || "Login failed. Please check your credentials.");
+        setError("Connection error. Please try again.");
       }
-    } catch (err: any) {
-      setError("Connection error. Please try again.");
       console.error("Login error:", err);
     } finally {
       setLoading(false);
     }
   };
 
+  const returnTo = searchParams.get("returnTo");
+  const otpLoginHref = returnTo ? `/login-otp?returnTo=${encodeURIComponent(returnTo)}` : "/login-otp";
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50 px-3 sm:px-4 py-4">
       <div className="w-full max-w-md">
@@ -114,9 +102,14 @@ function LoginContent() {
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-semibold text-gray-900 mb-2">
-                Password
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="password" className="block text-sm font-semibold text-gray-900">
+                  Password
+                </label>
+                <Link href="/forgot-password" className="text-sm text-blue-900 hover:text-blue-800 font-semibold">
+                  Forgot password?
+                </Link>
+              </div>
               <div className="relative">
                 <input
                   id="password"
@@ -155,6 +148,12 @@ function LoginContent() {
               {loading ? "Signing in..." : "Sign In"}
             </button>
           </form>
+
+          <div className="mt-4 text-center">
+            <Link href={otpLoginHref} className="text-sm text-blue-900 hover:text-blue-800 font-semibold">
+              Sign in with a one-time code instead
+            </Link>
+          </div>
           
           <div className="mt-4 text-center">
             <p className="text-sm text-gray-600">
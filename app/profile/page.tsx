@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import AddressBook from "@/components/AddressBook";
+import DashboardLayout from "@/components/DashboardLayout";
+import FamilyMembers from "@/components/FamilyMembers";
+import { getErrorMessage } from "@/lib/errors";
+import { saveProfile, useProfile } from "@/lib/profile";
+import { BLOOD_GROUPS, GENDERS } from "@/lib/types";
+import type { BloodGroup, Gender, PatientProfile } from "@/lib/types";
+
+interface ProfileForm {
+  name: string;
+  phone: string;
+  dateOfBirth: string;
+  gender: Gender | "";
+  bloodGroup: BloodGroup | "";
+  allergies: string[];
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: "",
+  phone: "",
+  dateOfBirth: "",
+  gender: "",
+  bloodGroup: "",
+  allergies: [],
+};
+
+function toForm(profile: PatientProfile): ProfileForm {
+  return {
+    name: profile.name || "",
+    phone: profile.phone || "",
+    dateOfBirth: profile.dateOfBirth ? profile.dateOfBirth.slice(0, 10) : "",
+    gender: profile.gender || "",
+    bloodGroup: profile.bloodGroup || "",
+    allergies: profile.allergies || [],
+  };
+}
+
+const inputClass =
+  "w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 outline-none";
+
+export default function ProfilePage() {
+  const { profile, isLoading, error } = useProfile();
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [allergyInput, setAllergyInput] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form whenever a fresh profile arrives (first load, after saving)
+  useEffect(() => {
+    if (profile) setForm(toForm(profile));
+  }, [profile]);
+
+  const addAllergy = () => {
+    const allergy = allergyInput.trim();
+    if (!allergy) return;
+    if (!form.allergies.some((a) => a.toLowerCase() === allergy.toLowerCase())) {
+      setForm({ ...form, allergies: [...form.allergies, allergy] });
+    }
+    setAllergyInput("");
+  };
+
+  const removeAllergy = (allergy: string) => {
+    setForm({ ...form, allergies: form.allergies.filter((a) => a !== allergy) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name.trim()) {
+      toast.error("Please enter your name");
+      return;
+    }
+    if (form.phone && !/^\d{10}$/.test(form.phone)) {
+      toast.error("Please enter a valid 10-digit phone number");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveProfile({
+        name: form.name.trim(),
+        phone: form.phone || undefined,
+        dateOfBirth: form.dateOfBirth || undefined,
+        gender: form.gender || undefined,
+        bloodGroup: form.bloodGroup || undefined,
+        allergies: form.allergies,
+      });
+      toast.success("Profile updated successfully!");
+    } catch (error) {
+      toast.error("Failed to update profile: " + getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="My Profile">
+        <div className="flex items-center justify-center py-12">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <DashboardLayout title="My Profile">
+        <div className="bg-white rounded-lg shadow border border-gray-200 p-6 text-center text-gray-600">
+          Failed to load your profile{error ? `: ${getErrorMessage(error)}` : ""}. Please refresh the page.
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title="My Profile" description="Your details are used to prefill bookings and orders">
+      <div className="max-w-3xl space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Personal Details */}
+          <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Personal Details</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Full Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Email</label>
+                <input type="email" value={profile.email} disabled className={`${inputClass} bg-gray-50 text-gray-500`} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Phone Number
+                  {profile.phoneVerified && form.phone === profile.phone && (
+                    <span className="ml-2 text-xs font-medium text-green-700">✓ Verified</span>
+                  )}
+                </label>
+                <input
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value.replace(/\D/g, "").slice(0, 10) })}
+                  placeholder="10-digit phone number"
+                  maxLength={10}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Date of Birth</label>
+                <input
+                  type="date"
+                  value={form.dateOfBirth}
+                  max={new Date().toLocaleDateString("en-CA")}
+                  onChange={(e) => setForm({ ...form, dateOfBirth: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Gender</label>
+                <select
+                  value={form.gender}
+                  onChange={(e) => setForm({ ...form, gender: e.target.value as Gender | "" })}
+                  className={inputClass}
+                >
+                  <option value="">Select Gender</option>
+                  {GENDERS.map((gender) => (
+                    <option key={gender} value={gender}>
+                      {gender}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Blood Group</label>
+                <select
+                  value={form.bloodGroup}
+                  onChange={(e) => setForm({ ...form, bloodGroup: e.target.value as BloodGroup | "" })}
+                  className={inputClass}
+                >
+                  <option value="">Select Blood Group</option>
+                  {BLOOD_GROUPS.map((group) => (
+                    <option key={group} value={group}>
+                      {group}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Allergies */}
+          <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-1">Allergies</h2>
+            <p className="text-sm text-gray-600 mb-4">Shared with your doctor when you book a consultation.</p>
+
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={allergyInput}
+                onChange={(e) => setAllergyInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addAllergy();
+                  }
+                }}
+                placeholder="e.g. Penicillin"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={addAllergy}
+                className="px-4 py-2 bg-blue-50 text-blue-700 rounded-lg font-semibold hover:bg-blue-100 transition-colors"
+              >
+                Add
+              </button>
+            </div>
+
+            {form.allergies.length > 0 ? (
+              <div className="mt-4 flex flex-wrap gap-2">
+                {form.allergies.map((allergy) => (
+                  <span
+                    key={allergy}
+                    className="inline-flex items-center gap-1.5 rounded-full bg-red-50 border border-red-200 px-3 py-1 text-sm text-red-800"
+                  >
+                    {allergy}
+                    <button
+                      type="button"
+                      onClick={() => removeAllergy(allergy)}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label={`Remove ${allergy}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="mt-4 text-sm text-gray-500">No known allergies recorded.</p>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Profile"}
+            </button>
+          </div>
+        </form>
+
+        {/* Kept outside the profile form so Enter in their inputs doesn't submit the profile */}
+        <AddressBook />
+        <FamilyMembers />
+      </div>
+    </DashboardLayout>
+  );
+}
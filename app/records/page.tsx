@@ -1,96 +1,75 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useRef, useState } from "react";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 import toast from "react-hot-toast";
-import { apiGet, apiDelete } from "@/lib/api";
+import { appointmentLoader, doctorLoader, hospitalLoader, prescriptionsApi } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { DoctorSummary, HospitalSummary, Prescription, PrescriptionDocument } from "@/lib/types";
+import { useSession } from "@/lib/session";
+import { useActiveMember } from "@/lib/familyMembers";
 import DashboardLayout from "@/components/DashboardLayout";
 import PrescriptionModal from "@/components/PrescriptionModal";
 
-interface Prescription {
-  _id: string;
-  appointmentId: string;
-  doctorId: string;
-  items: Array<{
-    medicineName: string;
-    dosage: string;
-    frequency: string;
-    duration: string;
-    notes?: string;
-  }>;
-  createdAt: string;
-  doctor?: { name: string; specialization?: string };
+// Prescription enriched with the doctor and appointment it came from
+interface PrescriptionRecord extends Prescription {
+  doctor?: DoctorSummary;
   appointment?: {
     scheduledAt: string;
     hospitalId?: string;
-    hospital?: { name: string };
+    hospital?: HospitalSummary;
   };
 }
 
-interface TemplateDocument {
-  rendered: string;
-  template: string;
-  prescriptionId: string;
-}
-
-export default function RecordsPage() {
-  const router = useRouter();
-  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
-  const [selectedPrescription, setSelectedPrescription] = useState<Prescription | null>(null);
-  const [templateDocument, setTemplateDocument] = useState<TemplateDocument | null>(null);
+function RecordsContent() {
+  const searchParams = useSearchParams();
+  // Opened from search with a prescription preselected
+  const linkedPrescriptionId = searchParams.get("prescription");
+  const [prescriptions, setPrescriptions] = useState<PrescriptionRecord[]>([]);
+  const [selectedPrescription, setSelectedPrescription] = useState<PrescriptionRecord | null>(null);
+  const [templateDocument, setTemplateDocument] = useState<PrescriptionDocument | null>(null);
   const [loading, setLoading] = useState(true);
   const [loadingTemplate, setLoadingTemplate] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { isAuthenticated } = useSession();
+  const { activeMember } = useActiveMember();
+  const patientId = activeMember?.id;
+  // Bumped by every load so only the latest one lands: switching member while the
+  // previous member's list is still loading must not show their records
+  const loadRequestRef = useRef(0);
   const [showPrescriptionModal, setShowPrescriptionModal] = useState(false);
-  const [modalPrescription, setModalPrescription] = useState<Prescription | null>(null);
+  const [modalPrescription, setModalPrescription] = useState<PrescriptionRecord | null>(null);
 
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-    }
-  }, [router]);
+    if (!isAuthenticated || !patientId) return;
+    fetchPrescriptions(patientId);
+  }, [isAuthenticated, patientId]);
 
   useEffect(() => {
-    if (!token || !user) return;
-    fetchPrescriptions();
-  }, [token, user]);
+    if (loading || !linkedPrescriptionId) return;
+    const linked = prescriptions.find((prescription) => prescription._id === linkedPrescriptionId);
+    if (linked) fetchTemplateDocument(linked);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, linkedPrescriptionId]);
 
-  const fetchPrescriptions = async () => {
-    if (!token || !user) return;
-    
-    const patientId = user.id || user._id;
-    if (!patientId) {
-      setLoading(false);
-      return;
-    }
-    
+  const fetchPrescriptions = async (patientId: string) => {
+    const request = ++loadRequestRef.current;
+    setLoading(true);
     try {
-      const data = await apiGet<Prescription[]>(`/api/prescriptions?patientId=${patientId}`);
-      const prescriptionsList = Array.isArray(data) ? data : [];
+      const prescriptionsList = await prescriptionsApi.list({ patientId });
       
       // Enrich with doctor and appointment data
       const enrichedPrescriptions = await Promise.all(
-        prescriptionsList.map(async (prescription): Promise<Prescription> => {
+        prescriptionsList.map(async (prescription): Promise<PrescriptionRecord> => {
           try {
             const [doctor, appointment] = await Promise.all([
-              apiGet<{ name: string; specialization?: string }>(`/api/users/${prescription.doctorId}`).catch(() => null),
-              apiGet<{ hospitalId?: string; scheduledAt: string }>(`/api/appointments/${prescription.appointmentId}`).catch(() => null),
+              doctorLoader.load(prescription.doctorId).catch(() => null),
+              appointmentLoader.load(prescription.appointmentId).catch(() => null),
             ]);
             
-            let hospital: { name: string } | null = null;
+            let hospital: HospitalSummary | null = null;
             if (appointment?.hospitalId) {
-              hospital = await apiGet<{ name: string }>(`/api/master/hospitals/${appointment.hospitalId}`).catch(() => null);
+              hospital = await hospitalLoader.load(appointment.hospitalId).catch(() => null);
             }
             
             return {
@@ -104,26 +83,24 @@ export default function RecordsPage() {
         })
       );
       
+      if (request !== loadRequestRef.current) return;
       setPrescriptions(enrichedPrescriptions);
     } catch (error: any) {
       console.error("Error fetching prescriptions:", error);
+      if (request !== loadRequestRef.current) return;
       setPrescriptions([]);
     } finally {
-      setLoading(false);
+      if (request === loadRequestRef.current) setLoading(false);
     }
   };
 
-  const fetchTemplateDocument = async (prescription: Prescription) => {
-    if (!token || !prescription) return;
+  const fetchTemplateDocument = async (prescription: PrescriptionRecord) => {
+    if (!isAuthenticated || !prescription) return;
     
     setLoadingTemplate(true);
     setSelectedPrescription(prescription);
     try {
-      const hospitalId = prescription.appointment?.hospitalId;
-      const url = hospitalId 
-        ? `/api/prescriptions/${prescription._id}/document?hospitalId=${hospitalId}`
-        : `/api/prescriptions/${prescription._id}/document`;
-      const data = await apiGet<TemplateDocument>(url);
+      const data = await prescriptionsApi.document(prescription._id, prescription.appointment?.hospitalId);
       setTemplateDocument(data);
     } catch (error: any) {
       console.error("Error fetching template document:", error);
@@ -161,13 +138,13 @@ export default function RecordsPage() {
     if (!confirm("Are you sure you want to delete this prescription? This action cannot be undone.")) return;
     
     try {
-      await apiDelete(`/api/prescriptions/${prescriptionId}`);
-      fetchPrescriptions();
+      await prescriptionsApi.remove(prescriptionId);
+      if (patientId) fetchPrescriptions(patientId);
       setSelectedPrescription(null);
       setTemplateDocument(null);
       toast.success("Prescription deleted successfully");
-    } catch (error: any) {
-      toast.error("Failed to delete prescription: " + (error.message || "Unknown error"));
+    } catch (error) {
+      toast.error("Failed to delete prescription: " + getErrorMessage(error));
     }
   };
 
@@ -184,7 +161,7 @@ export default function RecordsPage() {
 
   if (loading) {
     return (
-      <DashboardLayout title="Prescription Records" description="Loading your prescription records...">
+      <DashboardLayout title="Prescription Records" description="Loading your prescription records..." showMemberSwitcher>
         <div className="flex items-center justify-center py-12">
           <div className="text-center">
             <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
@@ -199,6 +176,7 @@ export default function RecordsPage() {
     <DashboardLayout
       title="Prescription Records"
       description="View all your prescription history with templates"
+      showMemberSwitcher
     >
       <div className="max-w-7xl mx-auto">
         {prescriptions.length === 0 ? (
@@ -339,8 +317,23 @@ export default function RecordsPage() {
           setShowPrescriptionModal(false);
           setModalPrescription(null);
         }}
-        token={token}
       />
     </DashboardLayout>
   );
 }
+
+export default function RecordsPage() {
+  return (
+    <Suspense
+      fallback={
+        <DashboardLayout title="Prescription Records" description="Loading your prescription records..." showMemberSwitcher>
+          <div className="flex items-center justify-center py-12">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+          </div>
+        </DashboardLayout>
+      }
+    >
+      <RecordsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { authApi } from "@/lib/client";
+import { ApiError } from "@/lib/errors";
+
+function ResetPasswordContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!token) return;
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    if (password.length < 6) {
+      setError("Password must be at least 6 characters");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await authApi.resetPassword(token, password);
+      router.replace("/?reset=success");
+    } catch (err) {
+      if (err instanceof ApiError && (err.status === 400 || err.isNotFound || err.status === 410)) {
+        setError("This reset link is invalid or has expired. Please request a new one.");
+      } else if (err instanceof ApiError) {
+        const data = err.data as { message?: string } | undefined;
+        setError(data?.message || "Could not reset your password. Please try again.");
+      } else {
+        setError("Connection error. Please try again.");
+      }
+      console.error("Reset password error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-3 sm:px-4 py-4">
+      <div className="w-full max-w-md">
+        <div className="rounded-lg border border-gray-300 bg-white p-6 sm:p-8 shadow-lg">
+          <div className="mb-8 text-center">
+            <div className="mb-4 flex justify-center">
+              <div className="h-16 w-16 rounded-lg bg-blue-900 flex items-center justify-center shadow-md">
+                <span className="text-2xl text-white font-bold">P</span>
+              </div>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Choose a New Password</h1>
+          </div>
+
+          {!token ? (
+            <div className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-800">
+              This reset link is incomplete. Please open the link from your email again or{" "}
+              <Link href="/forgot-password" className="font-semibold underline">
+                request a new one
+              </Link>
+              .
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="mb-4 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-800">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <label htmlFor="password" className="block text-sm font-semibold text-gray-900 mb-2">
+                    New Password
+                  </label>
+                  <input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-900 focus:ring-2 focus:ring-blue-900/20"
+                    placeholder="At least 6 characters"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-semibold text-gray-900 mb-2">
+                    Confirm Password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-900 shadow-sm focus:border-blue-900 focus:ring-2 focus:ring-blue-900/20"
+                    placeholder="Re-enter your new password"
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input type="checkbox" checked={showPassword} onChange={(e) => setShowPassword(e.target.checked)} />
+                  Show passwords
+                </label>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full rounded-lg bg-blue-900 px-4 py-3 font-semibold text-white shadow-sm transition-all hover:bg-blue-800 hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? "Saving..." : "Reset Password"}
+                </button>
+              </form>
+            </>
+          )}
+
+          <div className="mt-4 text-center">
+            <Link href="/" className="text-sm text-blue-900 hover:text-blue-800 font-semibold">
+              Back to Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-900 border-r-transparent"></div>
+      </div>
+    }>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
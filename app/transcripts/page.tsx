@@ -1,70 +1,70 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useRef, useState } from "react";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 import toast from "react-hot-toast";
-import { apiGet, apiDelete } from "@/lib/api";
+import { appointmentLoader, conversationsApi, doctorLoader } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import type { Appointment, Conversation, DoctorSummary } from "@/lib/types";
+import { useSession } from "@/lib/session";
+import { useActiveMember } from "@/lib/familyMembers";
+import { useHospitals } from "@/lib/doctors";
+import { buildTranscript, downloadTranscript, TRANSCRIPT_FORMATS } from "@/lib/transcripts";
+import type { TranscriptFormat } from "@/lib/transcripts";
 import DashboardLayout from "@/components/DashboardLayout";
+import ChatAttachment from "@/components/ChatAttachment";
 
-interface Conversation {
-  _id: string;
-  appointmentId: string;
-  messages: Array<{
-    senderId: string;
-    senderRole: string;
-    content: string;
-    messageType: string;
-    timestamp: string;
-  }>;
-  summary?: string;
-  startedAt: string;
-  endedAt?: string;
-  isActive?: boolean;
-  appointment?: {
-    scheduledAt: string;
-    doctorId: string;
-    doctor?: { name: string };
-  };
+// Conversation enriched with the appointment and doctor it belongs to
+interface ConversationRecord extends Conversation {
+  appointment?: Appointment & { doctor?: DoctorSummary };
 }
 
-export default function TranscriptsPage() {
-  const router = useRouter();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
+function TranscriptsContent() {
+  const searchParams = useSearchParams();
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [selectedConversation, setSelectedConversation] = useState<ConversationRecord | null>(null);
   const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { isAuthenticated } = useSession();
+  const { activeMember } = useActiveMember();
+  const patientId = activeMember?.id;
+  // Bumped by every load so only the latest one lands: switching member while the
+  // previous member's list is still loading must not show their records
+  const loadRequestRef = useRef(0);
+  const { hospitals } = useHospitals();
+  // Search links open a conversation with one message highlighted
+  const linkedConversationId = searchParams.get("conversation");
+  const linkedMessage = searchParams.get("message") !== null ? Number(searchParams.get("message")) : null;
+  const [appliedLink, setAppliedLink] = useState<string | null>(null);
+  const highlightedMessageRef = useRef<HTMLDivElement>(null);
+
+  const linkKey = linkedConversationId ? `${linkedConversationId}:${linkedMessage}` : null;
+  if (linkKey && linkKey !== appliedLink && !loading) {
+    setAppliedLink(linkKey);
+    const linked = conversations.find((conversation) => conversation._id === linkedConversationId);
+    if (linked) setSelectedConversation(linked);
+  }
+  const highlightedIndex = selectedConversation?._id === linkedConversationId ? linkedMessage : null;
 
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setToken(storedToken);
-    }
-  }, [router]);
+    highlightedMessageRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [selectedConversation, highlightedIndex]);
 
-  const fetchConversations = async () => {
-    if (!token || !user?.id) return;
-    
+  const fetchConversations = async (patientId: string) => {
+    const request = ++loadRequestRef.current;
+    setLoading(true);
+    setSelectedConversation(null);
+    setAppliedLink(null);
     try {
-      const data = await apiGet<Conversation[]>(`/api/conversations?patientId=${user.id}`);
-      const conversationsList = Array.isArray(data) ? data : [];
+      const conversationsList = await conversationsApi.list({ patientId });
       
       // Fetch appointment details
       const enrichedConversations = await Promise.all(
-        conversationsList.map(async (conv) => {
+        conversationsList.map(async (conv): Promise<ConversationRecord> => {
           try {
-            const appointment = await apiGet<{ doctorId: string; scheduledAt: string }>(`/api/appointments/${conv.appointmentId}`).catch(() => null);
+            const appointment = await appointmentLoader.load(conv.appointmentId).catch(() => null);
             if (appointment) {
-              const doctor = await apiGet<{ name: string }>(`/api/users/${appointment.doctorId}`).catch(() => null);
+              const doctor = await doctorLoader.load(appointment.doctorId).catch(() => null);
               return { ...conv, appointment: { ...appointment, doctor: doctor || undefined } };
             }
             return conv;
@@ -74,19 +74,21 @@ export default function TranscriptsPage() {
         })
       );
       
+      if (request !== loadRequestRef.current) return;
       setConversations(enrichedConversations);
     } catch (error: any) {
       console.error("Error fetching conversations:", error);
+      if (request !== loadRequestRef.current) return;
       setConversations([]);
     } finally {
-      setLoading(false);
+      if (request === loadRequestRef.current) setLoading(false);
     }
   };
 
   useEffect(() => {
-    if (!token || !user?.id) return;
-    fetchConversations();
-  }, [token, user?.id]);
+    if (!isAuthenticated || !patientId) return;
+    fetchConversations(patientId);
+  }, [isAuthenticated, patientId]);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -99,52 +101,38 @@ export default function TranscriptsPage() {
     });
   };
 
-  const downloadTranscript = (conversation: Conversation) => {
-    const content = `
-CONSULTATION TRANSCRIPT
-${"=".repeat(50)}
-
-Date: ${formatDate(conversation.startedAt)}
-${conversation.endedAt ? `Ended: ${formatDate(conversation.endedAt)}` : "Ongoing"}
-${conversation.appointment?.doctor?.name ? `Doctor: ${conversation.appointment.doctor.name}` : ""}
-
-${conversation.summary ? `Summary: ${conversation.summary}\n` : ""}
-
-MESSAGES:
-${"=".repeat(50)}
-
-${conversation.messages.map((msg, idx) => `
-[${formatDate(msg.timestamp)}] ${msg.senderRole === "DOCTOR" ? "Doctor" : "You"}:
-${msg.content}
-${msg.messageType === "AUDIO" ? "[Audio Message]" : ""}
-`).join("\n")}
-    `.trim();
-
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `consultation-${conversation._id.slice(-8)}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleExport = (conversation: ConversationRecord, format: TranscriptFormat) => {
+    if (!activeMember) return;
+    const { appointment } = conversation;
+    try {
+      const transcript = buildTranscript({
+        conversation,
+        appointment,
+        patient: { id: activeMember.id, name: activeMember.name },
+        clinic: appointment?.hospital ?? hospitals.find((hospital) => hospital._id === appointment?.hospitalId),
+      });
+      downloadTranscript(transcript, format);
+    } catch (error) {
+      toast.error("Failed to export transcript: " + getErrorMessage(error));
+    }
   };
 
   const handleDelete = async (conversationId: string) => {
     if (!confirm("Are you sure you want to delete this conversation transcript? This action cannot be undone.")) return;
     
     try {
-      await apiDelete(`/api/conversations/${conversationId}`);
-      fetchConversations();
+      await conversationsApi.remove(conversationId);
+      if (patientId) fetchConversations(patientId);
       setSelectedConversation(null);
       toast.success("Conversation deleted successfully");
-    } catch (error: any) {
-      toast.error("Failed to delete conversation: " + (error.message || "Unknown error"));
+    } catch (error) {
+      toast.error("Failed to delete conversation: " + getErrorMessage(error));
     }
   };
 
   if (loading) {
     return (
-      <DashboardLayout title="Consultation Transcripts" description="Loading your transcripts...">
+      <DashboardLayout title="Consultation Transcripts" description="Loading your transcripts..." showMemberSwitcher>
         <div className="flex items-center justify-center py-12">
           <div className="text-center">
             <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
@@ -159,6 +147,7 @@ ${msg.messageType === "AUDIO" ? "[Audio Message]" : ""}
     <DashboardLayout
       title="Consultation Transcripts"
       description="View your consultation history"
+      showMemberSwitcher
     >
       <div className="max-w-7xl mx-auto">
         {conversations.length === 0 ? (
@@ -220,12 +209,19 @@ ${msg.messageType === "AUDIO" ? "[Audio Message]" : ""}
                         💬 Reply / Continue Chat
                       </Link>
                     )}
-                    <button
-                      onClick={() => downloadTranscript(selectedConversation)}
-                      className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 shadow-sm"
-                    >
-                      Download
-                    </button>
+                    <div className="flex overflow-hidden rounded-lg border border-gray-300 shadow-sm" role="group" aria-label="Export transcript">
+                      <span className="bg-gray-50 px-3 py-2 text-sm font-semibold text-gray-500">Export</span>
+                      {TRANSCRIPT_FORMATS.map(({ format, label, description }) => (
+                        <button
+                          key={format}
+                          onClick={() => handleExport(selectedConversation, format)}
+                          title={description}
+                          className="border-l border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
                     <button
                       onClick={() => handleDelete(selectedConversation._id)}
                       className="rounded-lg border border-red-500 bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700 shadow-sm"
@@ -253,22 +249,31 @@ ${msg.messageType === "AUDIO" ? "[Audio Message]" : ""}
                   {selectedConversation.messages.map((message, idx) => (
                     <div
                       key={idx}
+                      ref={idx === highlightedIndex ? highlightedMessageRef : undefined}
                       className={`p-4 rounded-lg ${
                         message.senderRole === "DOCTOR"
                           ? "bg-blue-50 ml-8"
                           : "bg-gray-50 mr-8"
-                      }`}
+                      } ${idx === highlightedIndex ? "ring-2 ring-yellow-300" : ""}`}
                     >
                       <div className="flex items-center justify-between mb-2">
                         <span className="font-semibold text-gray-900">
-                          {message.senderRole === "DOCTOR" ? "Doctor" : "You"}
+                          {message.senderRole === "DOCTOR"
+                            ? `Dr. ${selectedConversation.appointment?.doctor?.name || "Doctor"}`
+                            : activeMember?.relationship === "Self"
+                              ? "You"
+                              : activeMember?.name || "Patient"}
                         </span>
                         <span className="text-xs text-gray-600">
                           {formatDate(message.timestamp)}
                         </span>
                       </div>
-                      <p className="text-gray-700 whitespace-pre-wrap">{message.content}</p>
-                      {message.messageType === "AUDIO" && (
+                      {message.attachment ? (
+                        <ChatAttachment attachment={message.attachment} mine={false} />
+                      ) : (
+                        <p className="text-gray-700 whitespace-pre-wrap">{message.content}</p>
+                      )}
+                      {message.messageType === "AUDIO" && !message.attachment && (
                         <p className="text-xs text-gray-500 mt-1">[Audio Message]</p>
                       )}
                     </div>
@@ -295,3 +300,18 @@ ${msg.messageType === "AUDIO" ? "[Audio Message]" : ""}
   );
 }
 
+export default function TranscriptsPage() {
+  return (
+    <Suspense
+      fallback={
+        <DashboardLayout title="Consultation Transcripts" description="Loading your transcripts..." showMemberSwitcher>
+          <div className="flex items-center justify-center py-12">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+          </div>
+        </DashboardLayout>
+      }
+    >
+      <TranscriptsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useEffect, useRef, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { authApi } from "@/lib/client";
+import { ApiError } from "@/lib/errors";
+import { getSession, updateSessionUser, useSession } from "@/lib/session";
+
+type VerifyState = "verifying" | "verified" | "failed";
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const { isAuthenticated } = useSession();
+  const [state, setState] = useState<VerifyState>(token ? "verifying" : "failed");
+  const [error, setError] = useState<string | null>(token ? null : "This verification link is incomplete.");
+  // Tokens are single use; strict-mode double effects must not spend it twice
+  const attemptedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    authApi
+      .verifyEmail(token)
+      .then((user) => {
+        // Signed-in tabs (this one and others, via storage) drop the unverified
+        // banner, but only when the link was for the account that's signed in
+        const sessionUserId = getSession().user?.id;
+        if (user && sessionUserId && String(user.id ?? user._id) === sessionUserId) {
+          updateSessionUser({ ...user, emailVerified: true });
+        }
+        setState("verified");
+      })
+      .catch((err) => {
+        if (err instanceof ApiError && (err.status === 400 || err.isNotFound || err.status === 410)) {
+          setError("This verification link is invalid or has expired.");
+        } else if (err instanceof ApiError) {
+          const data = err.data as { message?: string } | undefined;
+          setError(data?.message || "Could not verify your email. Please try again.");
+        } else {
+          setError("Connection error. Please try again.");
+        }
+        setState("failed");
+        console.error("Verify email error:", err);
+      });
+  }, [token]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-3 sm:px-4 py-4">
+      <div className="w-full max-w-md">
+        <div className="rounded-lg border border-gray-300 bg-white p-6 sm:p-8 shadow-lg text-center">
+          <div className="mb-4 flex justify-center">
+            <div className="h-16 w-16 rounded-lg bg-blue-900 flex items-center justify-center shadow-md">
+              <span className="text-2xl text-white font-bold">P</span>
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-6">Email Verification</h1>
+
+          {state === "verifying" && (
+            <div>
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-900 border-r-transparent"></div>
+              <p className="mt-4 text-gray-600">Verifying your email...</p>
+            </div>
+          )}
+
+          {state === "verified" && (
+            <div className="rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-800">
+              Your email address has been verified.
+            </div>
+          )}
+
+          {state === "failed" && (
+            <div className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-800">
+              {error}
+              {isAuthenticated
+                ? " You can request a new link from the banner on your dashboard."
+                : " Sign in to request a new verification email."}
+            </div>
+          )}
+
+          {state !== "verifying" && (
+            <Link
+              href={isAuthenticated ? "/dashboard" : "/"}
+              className="mt-6 inline-block w-full rounded-lg bg-blue-900 px-4 py-3 font-semibold text-white shadow-sm transition-all hover:bg-blue-800 hover:shadow-md"
+            >
+              {isAuthenticated ? "Go to Dashboard" : "Sign In"}
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-900 border-r-transparent"></div>
+      </div>
+    }>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import type { AddressInput } from "@/lib/client";
+import { formatAddress, getAddressName, removeAddress, saveAddress, toAddressInput, useAddresses } from "@/lib/addresses";
+import { getErrorMessage } from "@/lib/errors";
+import type { Address } from "@/lib/types";
+import AddressForm from "./AddressForm";
+
+export default function AddressBook() {
+  const { addresses, isLoading } = useAddresses();
+  // null: form closed, "new": adding, otherwise the address being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const editing = addresses.find((address) => address._id === editingId);
+
+  const handleSave = async (input: AddressInput) => {
+    try {
+      await saveAddress(input, editing?._id);
+      toast.success(editing ? "Address updated" : "Address added");
+      setEditingId(null);
+    } catch (error) {
+      toast.error("Failed to save address: " + getErrorMessage(error));
+    }
+  };
+
+  const handleSetDefault = async (address: Address) => {
+    try {
+      await saveAddress({ ...toAddressInput(address), isDefault: true }, address._id);
+      toast.success(`${getAddressName(address)} is now your default address`);
+    } catch (error) {
+      toast.error("Failed to update address: " + getErrorMessage(error));
+    }
+  };
+
+  const handleRemove = async (address: Address) => {
+    if (!confirm(`Remove the ${getAddressName(address)} address?`)) return;
+
+    try {
+      await removeAddress(address._id);
+      toast.success("Address removed");
+      if (editingId === address._id) setEditingId(null);
+    } catch (error) {
+      toast.error("Failed to remove address: " + getErrorMessage(error));
+    }
+  };
+
+  return (
+    <div id="addresses" className="bg-white rounded-lg shadow border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-bold text-gray-900">Saved Addresses</h2>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => setEditingId("new")}
+            className="px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg font-semibold hover:bg-blue-100 transition-colors"
+          >
+            + Add Address
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">Used for medicine deliveries and home consultations.</p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading addresses...</p>
+      ) : addresses.length === 0 && editingId === null ? (
+        <p className="text-sm text-gray-500">No saved addresses yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {addresses.map((address) => (
+            <div
+              key={address._id}
+              className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 rounded-lg border border-gray-200 p-4"
+            >
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {getAddressName(address)}
+                  {address.isDefault && (
+                    <span className="ml-2 rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">
+                      Default
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">{formatAddress(address)}</p>
+                {!address.location && (
+                  <p className="mt-1 text-xs text-amber-700">No map location pinned</p>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-3 text-sm font-medium">
+                {!address.isDefault && (
+                  <button
+                    type="button"
+                    onClick={() => handleSetDefault(address)}
+                    className="text-gray-600 hover:text-gray-800"
+                  >
+                    Set default
+                  </button>
+                )}
+                <button type="button" onClick={() => setEditingId(address._id)} className="text-blue-600 hover:text-blue-700">
+                  Edit
+                </button>
+                <button type="button" onClick={() => handleRemove(address)} className="text-red-600 hover:text-red-700">
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <div className="mt-4 rounded-lg border border-blue-200 bg-blue-50/40 p-4">
+          <AddressForm
+            key={editingId}
+            initial={editing}
+            onSubmit={handleSave}
+            onCancel={() => setEditingId(null)}
+            submitLabel={editing ? "Save Changes" : "Add Address"}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
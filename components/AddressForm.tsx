@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { geoApi } from "@/lib/client";
+import type { AddressInput } from "@/lib/client";
+import { formatAddress, toAddressInput } from "@/lib/addresses";
+import { getErrorMessage } from "@/lib/errors";
+import { getCurrentLocation } from "@/lib/geo";
+import { ADDRESS_LABELS } from "@/lib/types";
+import type { Address, AddressLabel } from "@/lib/types";
+import LocationPicker from "./LocationPicker";
+
+interface AddressFormProps {
+  initial?: Address;
+  onSubmit: (input: AddressInput) => Promise<void>;
+  onCancel?: () => void;
+  submitLabel?: string;
+}
+
+const EMPTY_ADDRESS: AddressInput = {
+  label: "HOME",
+  line1: "",
+  city: "",
+  postalCode: "",
+};
+
+const LABEL_OPTIONS: Record<AddressLabel, string> = {
+  HOME: "🏠 Home",
+  WORK: "🏢 Work",
+  OTHER: "📍 Other",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 outline-none";
+
+export default function AddressForm({ initial, onSubmit, onCancel, submitLabel = "Save Address" }: AddressFormProps) {
+  const [form, setForm] = useState<AddressInput>(() => (initial ? toAddressInput(initial) : EMPTY_ADDRESS));
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  const update = (changes: Partial<AddressInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleUseCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      update({ location: await getCurrentLocation() });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Could not get your location"));
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleFindOnMap = async () => {
+    if (!form.line1.trim() || !form.city.trim()) {
+      toast.error("Enter the street and city first");
+      return;
+    }
+    setLocating(true);
+    try {
+      const [match] = await geoApi.geocode(formatAddress(form));
+      if (match) {
+        update({ location: { latitude: match.latitude, longitude: match.longitude } });
+      } else {
+        toast.error("Couldn't find that address. Please pin it on the map.");
+      }
+    } catch (error) {
+      toast.error("Failed to look up address: " + getErrorMessage(error));
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!form.line1.trim() || !form.city.trim() || !form.postalCode.trim()) {
+      toast.error("Please fill in the address, city and PIN code");
+      return;
+    }
+    if (!/^\d{6}$/.test(form.postalCode.trim())) {
+      toast.error("Please enter a valid 6-digit PIN code");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        ...form,
+        name: form.label === "OTHER" ? form.name?.trim() || undefined : undefined,
+        line1: form.line1.trim(),
+        line2: form.line2?.trim() || undefined,
+        landmark: form.landmark?.trim() || undefined,
+        city: form.city.trim(),
+        state: form.state?.trim() || undefined,
+        postalCode: form.postalCode.trim(),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Not a <form>: this renders inside the checkout / booking forms
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {ADDRESS_LABELS.map((label) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => update({ label })}
+            className={`rounded-full border px-3 py-1.5 text-sm transition-all ${
+              form.label === label
+                ? "border-blue-600 bg-blue-50 text-blue-700 font-semibold"
+                : "border-gray-300 bg-white text-gray-700 hover:border-blue-300"
+            }`}
+          >
+            {LABEL_OPTIONS[label]}
+          </button>
+        ))}
+      </div>
+
+      {form.label === "OTHER" && (
+        <input
+          type="text"
+          value={form.name || ""}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Name this address (e.g. Parents' home)"
+          className={inputClass}
+        />
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={form.line1}
+          onChange={(e) => update({ line1: e.target.value })}
+          placeholder="House / flat no., building, street *"
+          className={`${inputClass} sm:col-span-2`}
+        />
+        <input
+          type="text"
+          value={form.line2 || ""}
+          onChange={(e) => update({ line2: e.target.value })}
+          placeholder="Area / locality"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.landmark || ""}
+          onChange={(e) => update({ landmark: e.target.value })}
+          placeholder="Landmark"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.city}
+          onChange={(e) => update({ city: e.target.value })}
+          placeholder="City *"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.state || ""}
+          onChange={(e) => update({ state: e.target.value })}
+          placeholder="State"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          inputMode="numeric"
+          value={form.postalCode}
+          onChange={(e) => update({ postalCode: e.target.value.replace(/\D/g, "").slice(0, 6) })}
+          placeholder="PIN code *"
+          maxLength={6}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <p className="text-sm font-semibold text-gray-700">Delivery location</p>
+          <div className="flex gap-3 text-sm font-medium">
+            <button
+              type="button"
+              onClick={handleUseCurrentLocation}
+              disabled={locating}
+              className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              Use current location
+            </button>
+            <button
+              type="button"
+              onClick={handleFindOnMap}
+              disabled={locating}
+              className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              Find address on map
+            </button>
+          </div>
+        </div>
+        <LocationPicker value={form.location} onChange={(location) => update({ location })} />
+        {form.location && (
+          <p className="mt-1 text-xs text-gray-500">
+            Pinned at {form.location.latitude.toFixed(5)}, {form.location.longitude.toFixed(5)}
+          </p>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={Boolean(form.isDefault)}
+          onChange={(e) => update({ isDefault: e.target.checked })}
+        />
+        Make this my default address
+      </label>
+
+      <div className="flex justify-end gap-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-semibold text-gray-700 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={saving}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import Link from "next/link";
+import type { AddressInput } from "@/lib/client";
+import { formatAddress, getAddressName, saveAddress } from "@/lib/addresses";
+import { getErrorMessage } from "@/lib/errors";
+import type { Address } from "@/lib/types";
+import AddressForm from "./AddressForm";
+
+interface AddressSelectorProps {
+  addresses: Address[];
+  value: Address | undefined;
+  onChange: (address: Address) => void;
+  isLoading?: boolean;
+}
+
+// Pick a saved address or add one inline; new addresses go into the address book
+export default function AddressSelector({ addresses, value, onChange, isLoading }: AddressSelectorProps) {
+  const [adding, setAdding] = useState(false);
+  const showForm = adding || (!isLoading && addresses.length === 0);
+
+  const handleAdd = async (input: AddressInput) => {
+    try {
+      const saved = await saveAddress(input);
+      onChange(saved);
+      setAdding(false);
+      toast.success("Address saved");
+    } catch (error) {
+      toast.error("Failed to save address: " + getErrorMessage(error));
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading saved addresses...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {addresses.map((address) => (
+        <label
+          key={address._id}
+          className={`flex items-start gap-3 p-4 border-2 rounded-lg cursor-pointer transition-all ${
+            value?._id === address._id ? "border-blue-600 bg-blue-50" : "border-gray-200 hover:bg-gray-50"
+          }`}
+        >
+          <input
+            type="radio"
+            name="savedAddress"
+            checked={value?._id === address._id}
+            onChange={() => onChange(address)}
+            className="mt-1 w-4 h-4 text-blue-600"
+          />
+          <div className="flex-1">
+            <p className="font-semibold text-gray-900">
+              {getAddressName(address)}
+              {address.isDefault && <span className="ml-2 text-xs font-medium text-blue-700">Default</span>}
+            </p>
+            <p className="text-sm text-gray-600">{formatAddress(address)}</p>
+            {!address.location && (
+              <p className="mt-1 text-xs text-amber-700">
+                No map location pinned.{" "}
+                <Link href="/profile#addresses" className="underline">
+                  Pin it
+                </Link>{" "}
+                for faster delivery.
+              </p>
+            )}
+          </div>
+        </label>
+      ))}
+
+      {showForm ? (
+        <div className="rounded-lg border border-blue-200 bg-blue-50/40 p-4">
+          <AddressForm
+            onSubmit={handleAdd}
+            onCancel={addresses.length > 0 ? () => setAdding(false) : undefined}
+            submitLabel="Save & Use Address"
+          />
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setAdding(true)}
+          className="text-sm font-semibold text-blue-600 hover:text-blue-700"
+        >
+          + Add new address
+        </button>
+      )}
+    </div>
+  );
+}
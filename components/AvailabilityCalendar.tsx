@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { queryKeys, schedulesApi } from "@/lib/client";
+import { useQuery } from "@/lib/queryCache";
+import { addDays, addMonths, formatDateKey, getMonthGrid, todayKey, toMonthKey } from "@/lib/dates";
+import type { DayAvailability } from "@/lib/types";
+
+interface AvailabilityCalendarProps {
+  doctorId: string;
+  hospitalId?: string;
+  // Selected "YYYY-MM-DD" day, or "" when none is picked yet
+  value: string;
+  onChange: (date: string) => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const JUMPS = [1, 2, 4];
+
+function getDensityClass(day: DayAvailability | undefined): string {
+  if (!day || day.totalSlots === 0) return "border-gray-100 bg-gray-50 text-gray-400";
+  if (day.availableSlots === 0) return "border-red-200 bg-red-50 text-red-400";
+  const ratio = day.availableSlots / day.totalSlots;
+  if (ratio <= 0.33) return "border-amber-200 bg-amber-50 text-amber-900";
+  if (ratio <= 0.66) return "border-green-200 bg-green-50 text-green-900";
+  return "border-green-300 bg-green-100 text-green-900";
+}
+
+function describeDay(day: DayAvailability | undefined): string {
+  if (!day || day.totalSlots === 0) return "No slots";
+  if (day.availableSlots === 0) return "Full";
+  return `${day.availableSlots} left`;
+}
+
+// Month view of a doctor's schedule with per-day slot availability. Past days
+// are disabled; days without slots stay selectable since the booking can
+// still go ahead without a slot.
+export default function AvailabilityCalendar({ doctorId, hospitalId, value, onChange }: AvailabilityCalendarProps) {
+  const today = todayKey();
+  const [month, setMonth] = useState(() => toMonthKey(value || today));
+  const [shownValue, setShownValue] = useState(value);
+
+  // Follow selections made outside the calendar (e.g. the nearest-slot recovery)
+  if (value !== shownValue) {
+    setShownValue(value);
+    if (value) setMonth(toMonthKey(value));
+  }
+
+  const weeks = getMonthGrid(month);
+  const range = { doctorId, hospitalId, from: weeks[0][0], to: weeks[weeks.length - 1][6] };
+  const { data, isLoading } = useQuery(queryKeys.availability(range), () => schedulesApi.availability(range));
+  const byDate = new Map((data ?? []).map((day) => [day.date, day]));
+
+  const jumpWeeks = (count: number) => {
+    const date = addDays(value || today, count * 7);
+    setMonth(toMonthKey(date));
+    onChange(date);
+  };
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setMonth(addMonths(month, -1))}
+          disabled={month <= toMonthKey(today)}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+          aria-label="Previous month"
+        >
+          ‹
+        </button>
+        <p className="text-sm sm:text-base font-semibold text-gray-900">
+          {formatDateKey(`${month}-01`, { month: "long", year: "numeric" })}
+          {isLoading && <span className="ml-2 text-xs font-normal text-gray-500">Loading...</span>}
+        </p>
+        <button
+          type="button"
+          onClick={() => setMonth(addMonths(month, 1))}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+          aria-label="Next month"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 sm:gap-1.5">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="py-1 text-center text-[10px] sm:text-xs font-medium text-gray-500">
+            {weekday}
+          </div>
+        ))}
+        {weeks.flat().map((date) => {
+          const day = byDate.get(date);
+          const isPast = date < today;
+          const isSelected = date === value;
+          const inMonth = toMonthKey(date) === month;
+          return (
+            <button
+              key={date}
+              type="button"
+              onClick={() => onChange(date)}
+              disabled={isPast}
+              title={isPast ? undefined : describeDay(day)}
+              className={`flex h-12 sm:h-16 flex-col items-center justify-center rounded-md border text-xs transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+                isSelected ? "border-blue-600 bg-blue-600 text-white shadow-md" : getDensityClass(day)
+              } ${inMonth ? "" : "opacity-60"}`}
+            >
+              <span className="text-sm sm:text-base font-semibold">{Number(date.slice(8))}</span>
+              {!isPast && (
+                <span className="hidden sm:block text-[10px] leading-tight">
+                  {date === today && !isSelected ? "Today" : describeDay(day)}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {JUMPS.map((count) => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => jumpWeeks(count)}
+              className="rounded-full border border-blue-200 bg-white px-3 py-1 text-xs sm:text-sm font-medium text-blue-700 hover:bg-blue-50"
+            >
+              +{count} {count === 1 ? "week" : "weeks"}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 text-[10px] sm:text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm border border-green-300 bg-green-100" /> Open</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm border border-amber-200 bg-amber-50" /> Filling up</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm border border-red-200 bg-red-50" /> Full</span>
+        </div>
+      </div>
+    </div>
+  );
+}
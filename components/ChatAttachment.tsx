@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import type { MessageAttachment } from "@/lib/types";
+import { formatFileSize, getUploadKind } from "@/lib/uploads";
+import { formatDuration } from "@/lib/voiceNotes";
+
+interface ChatAttachmentProps {
+  attachment: MessageAttachment;
+  // Upload progress (0-1) while the attachment is still being sent
+  progress?: number;
+  mine: boolean;
+}
+
+export default function ChatAttachment({ attachment, progress, mine }: ChatAttachmentProps) {
+  const [showPdf, setShowPdf] = useState(false);
+  const kind = getUploadKind(attachment.mimeType);
+  const linkClass = mine ? "text-blue-100 hover:text-white" : "text-blue-700 hover:text-blue-900";
+
+  return (
+    <div className="space-y-2">
+      {kind === "image" ? (
+        <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="block">
+          <Image
+            src={attachment.url}
+            alt={attachment.name}
+            width={240}
+            height={180}
+            unoptimized
+            className="h-auto max-h-60 w-auto max-w-[240px] rounded-lg object-cover"
+          />
+        </a>
+      ) : kind === "audio" ? (
+        <div className="flex items-center gap-2">
+          <audio controls preload="metadata" src={attachment.url} className="h-10 max-w-[240px]" />
+          {attachment.duration !== undefined && (
+            <span className={`text-xs ${mine ? "text-blue-100" : "text-gray-500"}`}>{formatDuration(attachment.duration)}</span>
+          )}
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-center gap-3">
+            <span className="text-2xl">📄</span>
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{attachment.name}</p>
+              <p className={`text-xs ${mine ? "text-blue-100" : "text-gray-500"}`}>{formatFileSize(attachment.size)}</p>
+            </div>
+          </div>
+          <div className="mt-1 flex gap-3 text-xs font-semibold">
+            <button type="button" onClick={() => setShowPdf((shown) => !shown)} className={linkClass}>
+              {showPdf ? "Hide preview" : "Preview"}
+            </button>
+            <a href={attachment.url} target="_blank" rel="noopener noreferrer" className={linkClass}>
+              Open
+            </a>
+          </div>
+          {showPdf && (
+            <iframe
+              src={attachment.url}
+              title={attachment.name}
+              className="mt-2 h-80 w-[min(70vw,28rem)] rounded-lg border border-gray-200 bg-white"
+            />
+          )}
+        </div>
+      )}
+
+      {progress !== undefined && (
+        <div className={`h-1.5 w-full overflow-hidden rounded-full ${mine ? "bg-blue-400" : "bg-gray-200"}`}>
+          <div className="h-full bg-white transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,22 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import Link from "next/link";
-import { useRouter, usePathname } from "next/navigation";
+import { usePathname } from "next/navigation";
+import { useSession } from "@/lib/session";
+import { useDoseReminders } from "@/lib/medications";
 import Sidebar from "./Sidebar";
 import Navbar from "./Navbar";
+import EmailVerificationBanner from "./EmailVerificationBanner";
+import MemberSwitcher from "./MemberSwitcher";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
   title?: string;
   description?: string;
   actionButton?: React.ReactNode;
+  // Pages whose content follows the selected family member
+  showMemberSwitcher?: boolean;
 }
 
 const pathToLabel: Record<string, string> = {
@@ -22,6 +28,8 @@ const pathToLabel: Record<string, string> = {
   transcripts: "Transcripts",
   records: "Records",
   news: "Notifications",
+  profile: "Profile",
+  doctors: "Doctors",
 };
 function getBreadcrumbLabel(pathname: string): string {
   const segment = pathname?.replace(/^\//, "").split("/")[0] || "";
@@ -33,44 +41,12 @@ export default function DashboardLayout({
   title,
   description,
   actionButton,
+  showMemberSwitcher,
 }: DashboardLayoutProps) {
-  const router = useRouter();
   const pathname = usePathname();
-  const [user, setUser] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
+  const { user } = useSession();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      const storedUser = localStorage.getItem("user");
-      const storedToken = localStorage.getItem("token");
-      
-      if (!storedUser || !storedToken) {
-        router.replace("/");
-        return;
-      }
-      
-      setUser(JSON.parse(storedUser));
-      setLoading(false);
-    }
-  }, [router]);
-
-  if (loading) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-gray-50">
-        <div className="text-center">
-          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
-          <p className="mt-4 text-gray-600">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  // Don't show layout on login/signup pages
-  const publicPages = ["/", "/signup", "/login-otp"];
-  if (publicPages.includes(pathname || "")) {
-    return <>{children}</>;
-  }
+  useDoseReminders(user?.id);
 
   return (
     <div className="min-h-screen bg-gray-50 flex">
@@ -80,7 +56,10 @@ export default function DashboardLayout({
       {/* Main content area - Add left margin on desktop to account for fixed sidebar */}
       <div className="flex-1 flex flex-col lg:ml-64 min-w-0 w-full">
         {/* Navbar */}
-        <Navbar user={user} onMenuToggle={() => setIsMobileMenuOpen(!isMobileMenuOpen)} />
+        <Navbar user={user ?? undefined} onMenuToggle={() => setIsMobileMenuOpen(!isMobileMenuOpen)} />
+
+        {/* Accounts from before email verification have no flag and count as verified */}
+        {user?.emailVerified === false && <EmailVerificationBanner email={user.email} />}
 
         {/* Breadcrumb + Page header */}
         <div className="bg-white border-b border-gray-200">
@@ -90,7 +69,7 @@ export default function DashboardLayout({
               <span>/</span>
               <span className="font-medium text-gray-800">{pathname ? getBreadcrumbLabel(pathname) : "Dashboard"}</span>
             </div>
-            {(title || actionButton) && (
+            {(title || actionButton || showMemberSwitcher) && (
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4">
                 <div className="flex-1 min-w-0">
                   {title && (
@@ -104,7 +83,12 @@ export default function DashboardLayout({
                     </p>
                   )}
                 </div>
-                {actionButton && <div className="flex-shrink-0">{actionButton}</div>}
+                {(actionButton || showMemberSwitcher) && (
+                  <div className="flex flex-shrink-0 flex-wrap items-center gap-3">
+                    {showMemberSwitcher && <MemberSwitcher />}
+                    {actionButton}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,66 @@
+import Link from "next/link";
+import { formatNextAvailable, formatRating, getConsultationFee } from "@/lib/doctors";
+import type { Doctor } from "@/lib/types";
+
+interface DoctorCardProps {
+  doctor: Doctor;
+}
+
+export default function DoctorCard({ doctor }: DoctorCardProps) {
+  const rating = formatRating(doctor);
+
+  return (
+    <div className="flex flex-col rounded-xl border border-gray-200 bg-white p-4 sm:p-6 shadow-sm hover:shadow-lg transition-shadow">
+      <Link href={`/doctors/${doctor._id}`} className="flex items-start justify-between mb-3 sm:mb-4 gap-2">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-base sm:text-lg font-bold text-gray-900 truncate hover:text-blue-800">Dr. {doctor.name}</h3>
+          {doctor.specialization && (
+            <p className="text-xs sm:text-sm text-blue-600 font-medium mt-1 truncate">{doctor.specialization}</p>
+          )}
+          {doctor.qualification && (
+            <p className="text-[10px] sm:text-xs text-gray-500 mt-1 truncate">{doctor.qualification}</p>
+          )}
+          <div className="mt-1.5 flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] sm:text-xs text-gray-600">
+            {rating && <span>⭐ {rating}</span>}
+            {doctor.experienceYears !== undefined && <span>{doctor.experienceYears} yrs experience</span>}
+          </div>
+        </div>
+        <div className="text-2xl sm:text-3xl flex-shrink-0">👨‍⚕️</div>
+      </Link>
+
+      {doctor.hospital && (
+        <div className="mb-3 sm:mb-4">
+          <p className="text-xs sm:text-sm font-semibold text-gray-700 truncate">🏥 {doctor.hospital.name}</p>
+          <p className="text-[10px] sm:text-xs text-gray-500 mt-1 line-clamp-2">{doctor.hospital.address}</p>
+        </div>
+      )}
+
+      <div className="mb-3 sm:mb-4 flex flex-wrap gap-1.5">
+        {doctor.channels?.includes("VIDEO") && (
+          <span className="rounded-full bg-purple-50 px-2 py-0.5 text-[10px] sm:text-xs font-medium text-purple-700">📹 Video</span>
+        )}
+        {doctor.channels?.includes("PHYSICAL") && (
+          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-[10px] sm:text-xs font-medium text-gray-700">🏥 In-clinic</span>
+        )}
+        {doctor.nextAvailableAt && (
+          <span className="rounded-full bg-green-50 px-2 py-0.5 text-[10px] sm:text-xs font-medium text-green-700">
+            Next: {formatNextAvailable(doctor.nextAvailableAt)}
+          </span>
+        )}
+      </div>
+
+      <div className="mt-auto flex items-center justify-between pt-3 sm:pt-4 border-t border-gray-100 gap-2">
+        <div className="min-w-0">
+          <p className="text-[10px] sm:text-xs text-gray-500">Consultation Fee</p>
+          <p className="text-base sm:text-lg font-bold text-gray-900">₹{getConsultationFee(doctor)}</p>
+        </div>
+        <Link
+          href={`/appointments/book/${doctor._id}`}
+          className="rounded-lg bg-blue-900 px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold text-white hover:bg-blue-800 shadow-sm whitespace-nowrap flex-shrink-0"
+        >
+          Book Now
+        </Link>
+      </div>
+    </div>
+  );
+}
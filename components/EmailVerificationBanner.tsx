@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { authApi } from "@/lib/client";
+import { ApiError, getErrorMessage } from "@/lib/errors";
+
+interface EmailVerificationBannerProps {
+  email: string;
+}
+
+export default function EmailVerificationBanner({ email }: EmailVerificationBannerProps) {
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      await authApi.resendVerificationEmail();
+      setSent(true);
+      toast.success(`Verification email sent to ${email}`);
+    } catch (error) {
+      if (error instanceof ApiError && error.isRateLimited) {
+        toast.error("A verification email was sent recently. Please check your inbox.");
+      } else {
+        toast.error("Failed to send verification email: " + getErrorMessage(error));
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200">
+      <div className="px-4 sm:px-6 lg:px-8 py-2.5 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-amber-900">
+          Please verify your email address <span className="font-semibold">{email}</span>. Check your inbox for the
+          verification link.
+        </p>
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={sending || sent}
+          className="flex-shrink-0 text-sm font-semibold text-amber-900 underline hover:text-amber-700 disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+        >
+          {sending ? "Sending..." : sent ? "Email sent" : "Resend email"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import type { DependentInput } from "@/lib/client";
+import { getErrorMessage } from "@/lib/errors";
+import { removeDependent, saveDependent, useFamilyMembers } from "@/lib/familyMembers";
+import { getAge } from "@/lib/profile";
+import { BLOOD_GROUPS, GENDERS, RELATIONSHIPS } from "@/lib/types";
+import type { BloodGroup, Dependent, Gender, Relationship } from "@/lib/types";
+
+interface DependentForm {
+  name: string;
+  relationship: Relationship;
+  dateOfBirth: string;
+  gender: Gender | "";
+  bloodGroup: BloodGroup | "";
+  allergies: string;
+}
+
+const EMPTY_FORM: DependentForm = {
+  name: "",
+  relationship: "Child",
+  dateOfBirth: "",
+  gender: "",
+  bloodGroup: "",
+  allergies: "",
+};
+
+function toForm(dependent: Dependent): DependentForm {
+  return {
+    name: dependent.name,
+    relationship: dependent.relationship,
+    dateOfBirth: dependent.dateOfBirth ? dependent.dateOfBirth.slice(0, 10) : "",
+    gender: dependent.gender || "",
+    bloodGroup: dependent.bloodGroup || "",
+    allergies: (dependent.allergies || []).join(", "),
+  };
+}
+
+function toInput(form: DependentForm): DependentInput {
+  return {
+    name: form.name.trim(),
+    relationship: form.relationship,
+    dateOfBirth: form.dateOfBirth || undefined,
+    gender: form.gender || undefined,
+    bloodGroup: form.bloodGroup || undefined,
+    allergies: form.allergies
+      .split(",")
+      .map((allergy) => allergy.trim())
+      .filter(Boolean),
+  };
+}
+
+const inputClass =
+  "w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 outline-none";
+
+export default function FamilyMembers() {
+  const { dependents, isLoading } = useFamilyMembers();
+  // null: form closed, "new": adding, otherwise the dependent being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DependentForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const openForm = (dependent?: Dependent) => {
+    setEditingId(dependent ? dependent._id : "new");
+    setForm(dependent ? toForm(dependent) : EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Please enter the family member's name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveDependent(toInput(form), editingId === "new" ? undefined : editingId || undefined);
+      toast.success(editingId === "new" ? "Family member added" : "Family member updated");
+      setEditingId(null);
+    } catch (error) {
+      toast.error("Failed to save family member: " + getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependent: Dependent) => {
+    if (!confirm(`Remove ${dependent.name} from your family members? Their past records are kept.`)) return;
+
+    try {
+      await removeDependent(dependent._id);
+      toast.success("Family member removed");
+      if (editingId === dependent._id) setEditingId(null);
+    } catch (error) {
+      toast.error("Failed to remove family member: " + getErrorMessage(error));
+    }
+  };
+
+  return (
+    <div id="family" className="bg-white rounded-lg shadow border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-bold text-gray-900">Family Members</h2>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => openForm()}
+            className="px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg font-semibold hover:bg-blue-100 transition-colors"
+          >
+            + Add Member
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Book appointments and order medicines for family members, each with their own records.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading family members...</p>
+      ) : dependents.length === 0 && editingId === null ? (
+        <p className="text-sm text-gray-500">No family members added yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {dependents.map((dependent) => {
+            const age = getAge(dependent.dateOfBirth);
+            return (
+              <div
+                key={dependent._id}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg border border-gray-200 p-4"
+              >
+                <div>
+                  <p className="font-semibold text-gray-900">{dependent.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {[dependent.relationship, age !== null ? `${age} yrs` : null, dependent.gender, dependent.bloodGroup]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </p>
+                </div>
+                <div className="flex gap-3 text-sm font-medium">
+                  <button type="button" onClick={() => openForm(dependent)} className="text-blue-600 hover:text-blue-700">
+                    Edit
+                  </button>
+                  <button type="button" onClick={() => handleRemove(dependent)} className="text-red-600 hover:text-red-700">
+                    Remove
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <div className="mt-4 rounded-lg border border-blue-200 bg-blue-50/40 p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Relationship</label>
+              <select
+                value={form.relationship}
+                onChange={(e) => setForm({ ...form, relationship: e.target.value as Relationship })}
+                className={inputClass}
+              >
+                {RELATIONSHIPS.map((relationship) => (
+                  <option key={relationship} value={relationship}>
+                    {relationship}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Date of Birth</label>
+              <input
+                type="date"
+                value={form.dateOfBirth}
+                max={new Date().toLocaleDateString("en-CA")}
+                onChange={(e) => setForm({ ...form, dateOfBirth: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Gender</label>
+              <select
+                value={form.gender}
+                onChange={(e) => setForm({ ...form, gender: e.target.value as Gender | "" })}
+                className={inputClass}
+              >
+                <option value="">Select Gender</option>
+                {GENDERS.map((gender) => (
+                  <option key={gender} value={gender}>
+                    {gender}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Blood Group</label>
+              <select
+                value={form.bloodGroup}
+                onChange={(e) => setForm({ ...form, bloodGroup: e.target.value as BloodGroup | "" })}
+                className={inputClass}
+              >
+                <option value="">Select Blood Group</option>
+                {BLOOD_GROUPS.map((group) => (
+                  <option key={group} value={group}>
+                    {group}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Allergies</label>
+              <input
+                type="text"
+                value={form.allergies}
+                onChange={(e) => setForm({ ...form, allergies: e.target.value })}
+                placeholder="Comma separated"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 text-sm font-semibold text-gray-700 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : editingId === "new" ? "Add Member" : "Save Changes"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
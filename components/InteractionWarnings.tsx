@@ -0,0 +1,100 @@
+"use client";
+
+import { SEVERITY_LABELS, isBlocking, needsAcknowledgement } from "@/lib/interactions";
+import type { InteractionSeverity, InteractionWarning } from "@/lib/interactions";
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+  // Prescriptions or allergies are still loading / couldn't be loaded
+  isLoading?: boolean;
+  error?: unknown;
+  onRetry?: () => void;
+  // Shows the acknowledgement checkbox for serious findings when set
+  acknowledged?: boolean;
+  onAcknowledgedChange?: (acknowledged: boolean) => void;
+}
+
+const SEVERITY_STYLES: Record<InteractionSeverity, { item: string; badge: string }> = {
+  contraindicated: { item: "border-red-200 bg-red-50", badge: "bg-red-600 text-white" },
+  major: { item: "border-orange-200 bg-orange-50", badge: "bg-orange-500 text-white" },
+  moderate: { item: "border-yellow-200 bg-yellow-50", badge: "bg-yellow-100 text-yellow-800" },
+};
+
+// Interaction, duplicate and allergy findings for the medicines being ordered
+export default function InteractionWarnings({
+  warnings,
+  isLoading,
+  error,
+  onRetry,
+  acknowledged,
+  onAcknowledgedChange,
+}: InteractionWarningsProps) {
+  if (error) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+        <p>
+          We couldn&apos;t load your prescriptions and allergies, so these medicines haven&apos;t been checked for
+          interactions yet.
+        </p>
+        {onRetry && (
+          <button type="button" onClick={onRetry} className="mt-2 font-semibold text-red-700 hover:text-red-900">
+            Try again
+          </button>
+        )}
+      </div>
+    );
+  }
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Checking your medicines against your prescriptions and allergies...</p>;
+  }
+  if (warnings.length === 0) return null;
+
+  const hasBlocking = warnings.some((warning) => isBlocking(warning.severity));
+  const hasSerious = warnings.some((warning) => needsAcknowledgement(warning.severity));
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6 shadow">
+      <h2 className="mb-1 text-xl font-bold text-gray-900">⚠️ Medicine Safety Check</h2>
+      <p className="mb-4 text-sm text-gray-600">
+        Checked against each other, your current prescriptions and the allergies on your profile.
+      </p>
+
+      <ul className="space-y-2">
+        {warnings.map((warning) => (
+          <li key={warning.id} className={`rounded-lg border p-3 ${SEVERITY_STYLES[warning.severity].item}`}>
+            <div className="flex items-start gap-2">
+              <span
+                className={`flex-shrink-0 rounded px-2 py-0.5 text-xs font-semibold ${SEVERITY_STYLES[warning.severity].badge}`}
+              >
+                {warning.kind === "allergy" ? "Allergy" : SEVERITY_LABELS[warning.severity]}
+              </span>
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900">{warning.title}</p>
+                <p className="text-sm text-gray-700">{warning.detail}</p>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {hasBlocking && (
+        <p className="mt-4 text-sm font-semibold text-red-700">
+          Remove one of the medicines marked &quot;{SEVERITY_LABELS.contraindicated}&quot; or &quot;Allergy&quot; before
+          ordering, or ask your doctor for an alternative.
+        </p>
+      )}
+
+      {hasSerious && onAcknowledgedChange && (
+        <label className="mt-4 flex cursor-pointer items-start gap-2 text-sm text-gray-800">
+          <input
+            type="checkbox"
+            checked={acknowledged ?? false}
+            onChange={(e) => onAcknowledgedChange(e.target.checked)}
+            className="mt-0.5 h-4 w-4 text-blue-600"
+          />
+          <span>I have read the serious warnings above and my doctor knows I take these medicines together.</span>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { fromWorldPixel, TILE_SIZE, toWorldPixel } from "@/lib/geo";
+import type { GeoPoint } from "@/lib/types";
+
+interface LocationPickerProps {
+  value?: GeoPoint;
+  onChange: (point: GeoPoint) => void;
+  height?: number;
+}
+
+// Shown before anything is pinned (centre of India, zoomed out)
+const FALLBACK_CENTER: GeoPoint = { latitude: 20.5937, longitude: 78.9629 };
+const FALLBACK_ZOOM = 4;
+const PINNED_ZOOM = 16;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 18;
+// Pointer movement below this many px is a click (pin), above it a drag (pan)
+const DRAG_THRESHOLD = 4;
+
+// Minimal OpenStreetMap tile view: drag to pan, click to drop the pin.
+export default function LocationPicker({ value, onChange, height = 240 }: LocationPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(value ? PINNED_ZOOM : FALLBACK_ZOOM);
+  const [center, setCenter] = useState<GeoPoint>(value ?? FALLBACK_CENTER);
+  const [pinned, setPinned] = useState<GeoPoint | undefined>(value);
+  const dragRef = useRef<{ startX: number; startY: number; origin: { x: number; y: number }; moved: boolean } | null>(
+    null
+  );
+
+  // Re-centre when the pin is set from outside (geolocation, address lookup)
+  if (value !== pinned) {
+    setPinned(value);
+    if (value) {
+      setCenter(value);
+      if (!pinned) setZoom(PINNED_ZOOM);
+    }
+  }
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const centerPx = toWorldPixel(center, zoom);
+  const originX = centerPx.x - width / 2;
+  const originY = centerPx.y - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string; x: number; y: number; left: number; top: number }[] = [];
+  if (width > 0) {
+    for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + width) / TILE_SIZE); tx++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}/${tx}/${ty}`,
+          x: wrappedX,
+          y: ty,
+          left: tx * TILE_SIZE - originX,
+          top: ty * TILE_SIZE - originY,
+        });
+      }
+    }
+  }
+
+  const marker = value ? toWorldPixel(value, zoom) : null;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, origin: centerPx, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    setCenter(fromWorldPixel(drag.origin.x - dx, drag.origin.y - dy, zoom));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = fromWorldPixel(originX + (e.clientX - rect.left), originY + (e.clientY - rect.top), zoom);
+    onChange({
+      latitude: Number(point.latitude.toFixed(6)),
+      longitude: Number(point.longitude.toFixed(6)),
+    });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full overflow-hidden rounded-lg border border-gray-300 bg-gray-100 select-none touch-none cursor-crosshair"
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => (dragRef.current = null)}
+    >
+      {tiles.map((tile) => (
+        <div
+          key={tile.key}
+          className="absolute bg-cover"
+          style={{
+            left: tile.left,
+            top: tile.top,
+            width: TILE_SIZE,
+            height: TILE_SIZE,
+            backgroundImage: `url(https://tile.openstreetmap.org/${zoom}/${tile.x}/${tile.y}.png)`,
+          }}
+        />
+      ))}
+
+      {marker && (
+        <div
+          className="absolute -translate-x-1/2 -translate-y-full text-3xl leading-none pointer-events-none drop-shadow"
+          style={{ left: marker.x - originX, top: marker.y - originY }}
+        >
+          📍
+        </div>
+      )}
+
+      <div className="absolute right-2 top-2 flex flex-col overflow-hidden rounded-md border border-gray-300 bg-white shadow">
+        {[
+          { label: "+", delta: 1 },
+          { label: "−", delta: -1 },
+        ].map(({ label, delta }) => (
+          <button
+            key={label}
+            type="button"
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+            onClick={() => setZoom((z) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z + delta)))}
+            className="h-8 w-8 text-lg font-semibold text-gray-700 hover:bg-gray-50"
+            aria-label={delta > 0 ? "Zoom in" : "Zoom out"}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {!value && (
+        <div className="absolute left-2 top-2 rounded bg-white/90 px-2 py-1 text-xs text-gray-700 shadow pointer-events-none">
+          Tap the map to pin your location
+        </div>
+      )}
+
+      <div className="absolute bottom-0 right-0 bg-white/80 px-1.5 py-0.5 text-[10px] text-gray-600">
+        ©{" "}
+        <a
+          href="https://www.openstreetmap.org/copyright"
+          target="_blank"
+          rel="noreferrer"
+          onPointerDown={(e) => e.stopPropagation()}
+          onPointerUp={(e) => e.stopPropagation()}
+        >
+          OpenStreetMap
+        </a>{" "}
+        contributors
+      </div>
+    </div>
+  );
+}
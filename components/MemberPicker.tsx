@@ -0,0 +1,47 @@
+"use client";
+
+import Link from "next/link";
+import type { FamilyMember } from "@/lib/familyMembers";
+
+interface MemberPickerProps {
+  members: FamilyMember[];
+  value: string | null;
+  onChange: (member: FamilyMember) => void;
+  label?: string;
+}
+
+// "Who is this for?" chooser used by booking and checkout
+export default function MemberPicker({ members, value, onChange, label = "Who is this for?" }: MemberPickerProps) {
+  if (members.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-700">{label}</p>
+        <Link href="/profile#family" className="text-xs font-semibold text-blue-600 hover:text-blue-700">
+          + Add family member
+        </Link>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {members.map((member) => {
+          const selected = member.id === value;
+          return (
+            <button
+              key={member.id}
+              type="button"
+              onClick={() => onChange(member)}
+              className={`rounded-full border px-3 py-1.5 text-sm transition-all ${
+                selected
+                  ? "border-blue-600 bg-blue-50 text-blue-700 font-semibold"
+                  : "border-gray-300 bg-white text-gray-700 hover:border-blue-300"
+              }`}
+            >
+              {member.isSelf ? "Myself" : member.name}
+              {!member.isSelf && <span className="ml-1 text-xs text-gray-500">({member.relationship})</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
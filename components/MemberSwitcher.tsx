@@ -0,0 +1,28 @@
+"use client";
+
+import { useActiveMember } from "@/lib/familyMembers";
+
+// Chooses whose history the records, appointments and transcripts pages show.
+// Hidden until the account has at least one dependent.
+export default function MemberSwitcher() {
+  const { activeMember, members, setActiveMember } = useActiveMember();
+
+  if (members.length < 2) return null;
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <span className="whitespace-nowrap">Viewing</span>
+      <select
+        value={activeMember?.id ?? ""}
+        onChange={(e) => setActiveMember(e.target.value)}
+        className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-900 focus:border-blue-600 focus:ring-1 focus:ring-blue-600"
+      >
+        {members.map((member) => (
+          <option key={member.id} value={member.id}>
+            {member.isSelf ? `${member.name} (Me)` : `${member.name} (${member.relationship})`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -3,17 +3,13 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
-import { apiGet } from "@/lib/api";
+import { prescriptionsApi } from "@/lib/client";
+import { describeFrequency } from "@/lib/medications";
+import { orderPrescription } from "@/lib/refills";
+import { getErrorMessage } from "@/lib/errors";
+import type { PrescriptionItem } from "@/lib/types";
 import { RecordsIcon } from "./icons";
 
-interface PrescriptionItem {
-  medicineName: string;
-  dosage: string;
-  frequency: string;
-  duration: string;
-  notes?: string;
-}
-
 interface Prescription {
   _id: string;
   items: PrescriptionItem[];
@@ -38,7 +34,6 @@ interface PrescriptionModalProps {
   appointment?: Appointment | null;
   isOpen: boolean;
   onClose: () => void;
-  token: string | null;
   onOrderMedicines?: (prescription: Prescription) => void;
 }
 
@@ -47,35 +42,31 @@ export default function PrescriptionModal({
   appointment,
   isOpen,
   onClose,
-  token,
   onOrderMedicines,
 }: PrescriptionModalProps) {
   const router = useRouter();
   const [prescriptionDocument, setPrescriptionDocument] = useState<string | null>(null);
   const [loadingPrescription, setLoadingPrescription] = useState(false);
+  const [ordering, setOrdering] = useState(false);
 
   useEffect(() => {
-    if (isOpen && prescription && token) {
+    if (isOpen && prescription) {
       fetchPrescriptionDocument();
     } else {
       setPrescriptionDocument(null);
     }
-  }, [isOpen, prescription, token]);
+  }, [isOpen, prescription]);
 
   const fetchPrescriptionDocument = async () => {
-    if (!prescription || !token) return;
+    if (!prescription) return;
     
     setLoadingPrescription(true);
     setPrescriptionDocument(null);
     
     try {
-      const hospitalId = appointment?.hospitalId;
-      const url = hospitalId 
-        ? `/api/prescriptions/${prescription._id}/document?hospitalId=${hospitalId}`
-        : `/api/prescriptions/${prescription._id}/document`;
-      const data = await apiGet<{ rendered: string; template: string }>(url);
+      const data = await prescriptionsApi.document(prescription._id, appointment?.hospitalId);
       setPrescriptionDocument(data.rendered);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching prescription document:", error);
       // If template fails, we'll show simple view
       setPrescriptionDocument(null);
@@ -84,7 +75,7 @@ export default function PrescriptionModal({
     }
   };
 
-  const handleOrderMedicines = () => {
+  const handleOrderMedicines = async () => {
     if (!prescription || !prescription.items || prescription.items.length === 0) {
       toast.error("No medicines in prescription to order");
       return;
@@ -93,18 +84,15 @@ export default function PrescriptionModal({
     if (onOrderMedicines) {
       onOrderMedicines(prescription);
     } else {
-      // Default behavior: redirect to orders page
-      const orderItems = prescription.items.map(item => ({
-        medicineName: item.medicineName,
-        quantity: 1,
-      }));
-
-      sessionStorage.setItem("prescriptionOrder", JSON.stringify({
-        items: orderItems,
-        prescriptionId: prescription._id,
-      }));
-      
-      router.push("/orders/new");
+      // Default behavior: matching products go in the cart
+      setOrdering(true);
+      try {
+        router.push(await orderPrescription(prescription));
+      } catch (error) {
+        toast.error("Failed to order medicines: " + getErrorMessage(error));
+      } finally {
+        setOrdering(false);
+      }
     }
   };
 
@@ -223,6 +211,9 @@ export default function PrescriptionModal({
                         <div>
                           <p className="text-xs text-gray-500">Frequency</p>
                           <p className="font-semibold text-gray-900">{item.frequency}</p>
+                          {describeFrequency(item.frequency) && (
+                            <p className="text-xs text-gray-500">{describeFrequency(item.frequency)}</p>
+                          )}
                         </div>
                         <div>
                           <p className="text-xs text-gray-500">Duration</p>
@@ -260,12 +251,13 @@ export default function PrescriptionModal({
           {prescription.items && prescription.items.length > 0 && (
             <button
               onClick={handleOrderMedicines}
-              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 shadow-sm transition-colors"
+              disabled={ordering}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 shadow-sm transition-colors disabled:opacity-50"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
               </svg>
-              Order Medicines
+              {ordering ? "Finding medicines..." : "Order Medicines"}
             </button>
           )}
           <button
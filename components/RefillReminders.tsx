@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { getErrorMessage } from "@/lib/errors";
+import { formatDateKey } from "@/lib/dates";
+import { addRefillToCart, useRefillReminders } from "@/lib/refills";
+import type { RefillReminder } from "@/lib/refills";
+
+interface RefillRemindersProps {
+  patientId: string;
+}
+
+function describeRunOut(reminder: RefillReminder): string {
+  if (reminder.daysLeft < 0) return `Ran out on ${formatDateKey(reminder.runOutKey, { month: "short", day: "numeric" })}`;
+  if (reminder.daysLeft === 0) return "Running out today";
+  return `Running out in ${reminder.daysLeft} day${reminder.daysLeft !== 1 ? "s" : ""}`;
+}
+
+// Medicines whose supply runs out within the warning window, each reorderable
+// in one tap from the pharmacy it was last bought from
+export default function RefillReminders({ patientId }: RefillRemindersProps) {
+  const router = useRouter();
+  const { reminders, lastPharmacyId } = useRefillReminders(patientId);
+  const [reordering, setReordering] = useState<string | null>(null);
+
+  if (reminders.length === 0) return null;
+
+  const handleReorder = async (selected: RefillReminder[], key: string) => {
+    setReordering(key);
+    try {
+      const { added, unmatched } = await addRefillToCart(
+        selected.map(({ plan, quantity }) => ({ medicineName: plan.medicineName, quantity })),
+        selected.find((reminder) => reminder.pharmacyId)?.pharmacyId ?? lastPharmacyId
+      );
+      if (added.length === 0) {
+        toast.error(`${unmatched.join(", ")} isn't available in the store right now`);
+        return;
+      }
+      if (unmatched.length > 0) {
+        toast(`Not available in the store: ${unmatched.join(", ")}`, { icon: "⚠️", duration: 6000 });
+      }
+      router.push("/cart");
+    } catch (error) {
+      toast.error("Failed to reorder: " + getErrorMessage(error));
+    } finally {
+      setReordering(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-orange-200 bg-white p-4 sm:p-6 shadow-sm">
+      <div className="mb-4 flex items-center justify-between gap-2">
+        <h2 className="text-base sm:text-lg font-bold text-gray-900">Refills Due</h2>
+        {reminders.length > 1 && (
+          <button
+            type="button"
+            onClick={() => handleReorder(reminders, "all")}
+            disabled={reordering !== null}
+            className="text-sm font-semibold text-blue-600 hover:text-blue-700 disabled:opacity-50"
+          >
+            Reorder all
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {reminders.map((reminder) => (
+          <li
+            key={reminder.plan.id}
+            className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 p-3"
+          >
+            <div className="min-w-0">
+              <p className="truncate font-semibold text-gray-900">{reminder.plan.medicineName}</p>
+              <p className={`text-xs ${reminder.daysLeft <= 2 ? "text-red-600" : "text-orange-700"}`}>
+                {describeRunOut(reminder)}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleReorder([reminder], reminder.plan.id)}
+              disabled={reordering !== null}
+              className="flex-shrink-0 rounded-lg bg-green-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-green-700 disabled:opacity-50"
+            >
+              {reordering === reminder.plan.id ? "Adding..." : `Reorder ${reminder.quantity}`}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { describeRefund, REFUND_STATUS_COLORS, REFUND_STATUS_LABELS } from "@/lib/refunds";
+import type { Refund } from "@/lib/types";
+
+interface RefundStatusProps {
+  refund: Refund;
+  className?: string;
+}
+
+export default function RefundStatus({ refund, className = "" }: RefundStatusProps) {
+  return (
+    <div className={`rounded-lg border px-3 py-2 text-xs sm:text-sm ${REFUND_STATUS_COLORS[refund.status]} ${className}`}>
+      <p className="font-semibold">💸 {REFUND_STATUS_LABELS[refund.status]}</p>
+      <p className="mt-0.5">{describeRefund(refund)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { Review } from "@/lib/types";
+
+interface ReviewListProps {
+  reviews: Review[];
+}
+
+export function Stars({ rating, className = "" }: { rating: number; className?: string }) {
+  const rounded = Math.round(rating);
+  return (
+    <span className={`text-amber-500 ${className}`} aria-label={`${rating} out of 5 stars`}>
+      {"★".repeat(rounded)}
+      <span className="text-gray-300">{"★".repeat(5 - rounded)}</span>
+    </span>
+  );
+}
+
+export default function ReviewList({ reviews }: ReviewListProps) {
+  if (reviews.length === 0) {
+    return <p className="text-sm text-gray-500">No reviews yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {reviews.map((review) => (
+        <li key={review._id} className="py-3 first:pt-0 last:pb-0">
+          <div className="flex items-center justify-between gap-2">
+            <Stars rating={review.rating} className="text-sm" />
+            <span className="text-[10px] sm:text-xs text-gray-500">
+              {new Date(review.createdAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })}
+            </span>
+          </div>
+          {review.tags && review.tags.length > 0 && (
+            <div className="mt-1.5 flex flex-wrap gap-1">
+              {review.tags.map((tag) => (
+                <span key={tag} className="rounded-full bg-blue-50 px-2 py-0.5 text-[10px] sm:text-xs text-blue-700">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+          {review.comment && <p className="mt-1.5 text-xs sm:text-sm text-gray-700">{review.comment}</p>}
+          <p className="mt-1 text-[10px] sm:text-xs text-gray-500">— {review.patientName || "Verified patient"}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
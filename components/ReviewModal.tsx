@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { getErrorMessage } from "@/lib/errors";
+import { deleteReview, RATING_LABELS, REVIEW_TAGS, saveReview } from "@/lib/reviews";
+import type { Appointment, Review } from "@/lib/types";
+
+interface ReviewModalProps {
+  appointment: Appointment;
+  // The patient's earlier review of this appointment, when editing
+  review?: Review;
+  onClose: () => void;
+}
+
+export default function ReviewModal({ appointment, review, onClose }: ReviewModalProps) {
+  const [rating, setRating] = useState(review?.rating ?? 0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [tags, setTags] = useState<string[]>(review?.tags ?? []);
+  const [comment, setComment] = useState(review?.comment ?? "");
+  const [saving, setSaving] = useState(false);
+  const shownRating = hoverRating || rating;
+
+  const toggleTag = (tag: string) => {
+    setTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
+  const handleSave = async () => {
+    if (rating === 0) {
+      toast.error("Please choose a star rating");
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveReview({ appointmentId: appointment._id, rating, tags, comment: comment.trim() || undefined }, review);
+      toast.success(review ? "Review updated" : "Thanks for your feedback!");
+      onClose();
+    } catch (error) {
+      toast.error("Failed to save review: " + getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!review || !window.confirm("Delete your review of this consultation?")) return;
+    setSaving(true);
+    try {
+      await deleteReview(review);
+      toast.success("Review deleted");
+      onClose();
+    } catch (error) {
+      toast.error("Failed to delete review: " + getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-3 sm:p-4 bg-black/50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full">
+        <div className="flex items-start justify-between p-4 sm:p-6 border-b border-gray-200">
+          <div className="min-w-0">
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900">
+              {review ? "Edit your review" : "How was your consultation?"}
+            </h2>
+            <p className="text-xs sm:text-sm text-gray-600 mt-1 truncate">
+              Dr. {appointment.doctor?.name || "Doctor"} ·{" "}
+              {new Date(appointment.scheduledAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-5">
+          <div className="text-center">
+            <div className="flex justify-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setRating(value)}
+                  onMouseEnter={() => setHoverRating(value)}
+                  className={`text-3xl sm:text-4xl transition-colors ${value <= shownRating ? "text-amber-500" : "text-gray-300"}`}
+                  aria-label={`${value} star${value === 1 ? "" : "s"}`}
+                >
+                  ★
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 h-5 text-sm font-medium text-gray-700">{RATING_LABELS[shownRating]}</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">What stood out?</p>
+            <div className="flex flex-wrap gap-2">
+              {REVIEW_TAGS.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={`rounded-full border px-3 py-1 text-xs sm:text-sm transition-colors ${
+                    tags.includes(tag)
+                      ? "border-blue-600 bg-blue-50 text-blue-700 font-semibold"
+                      : "border-gray-300 bg-white text-gray-700 hover:border-blue-300"
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Comment (optional)</label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="w-full rounded-md border border-gray-300 bg-white px-3 py-2.5 text-sm text-gray-900 focus:border-blue-600 focus:ring-1 focus:ring-blue-600 resize-none"
+              placeholder="Share anything that would help other patients"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 sm:p-6 border-t border-gray-200">
+          {review ? (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={saving}
+              className="text-sm font-semibold text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              Delete review
+            </button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              {review ? "Cancel" : "Not now"}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-lg bg-blue-900 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-800 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : review ? "Update Review" : "Submit Review"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
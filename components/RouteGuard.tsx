@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useSession } from "@/lib/session";
+import { getRouteAccess, loginUrl, safeReturnTo } from "@/lib/routes";
+
+// Client half of the route protection in proxy.ts: catches sessions that end while
+// the app is open (logout in another tab, rejected refresh) and stale marker cookies.
+export function RouteGuard({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const { status } = useSession();
+  const access = getRouteAccess(pathname || "/");
+
+  useEffect(() => {
+    if (access === "protected" && status === "unauthenticated") {
+      router.replace(loginUrl(window.location.pathname + window.location.search));
+    } else if (access === "guest" && status === "authenticated") {
+      router.replace(safeReturnTo(new URLSearchParams(window.location.search).get("returnTo")));
+    }
+  }, [access, status, router]);
+
+  const redirecting =
+    (access === "protected" && status !== "authenticated") || (access === "guest" && status === "authenticated");
+
+  if (redirecting) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { SearchIcon } from "./icons";
+import {
+  getSnippet,
+  highlightSegments,
+  SEARCH_DATE_RANGES,
+  SEARCH_TYPE_LABELS,
+  SEARCH_TYPES,
+  searchDocuments,
+  tokenize,
+  useSearchIndex,
+} from "@/lib/search";
+import type { SearchDateRange, SearchType } from "@/lib/search";
+
+interface SearchPaletteProps {
+  onClose: () => void;
+}
+
+const TYPE_ICONS: Record<SearchType, string> = {
+  message: "💬",
+  prescription: "💊",
+  notification: "🔔",
+};
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded bg-yellow-200 px-0.5 text-gray-900">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// Command palette over consultation messages, prescriptions and notifications
+export default function SearchPalette({ onClose }: SearchPaletteProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [type, setType] = useState<SearchType | undefined>(undefined);
+  const [dateRange, setDateRange] = useState<SearchDateRange>("any");
+  const [doctorId, setDoctorId] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { documents, doctors, isLoading } = useSearchIndex(true);
+
+  const terms = tokenize(query);
+  const results = searchDocuments(documents, query, { type, dateRange, doctorId: doctorId || undefined });
+  const active = Math.min(activeIndex, Math.max(results.length - 1, 0));
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    document.getElementById(`search-result-${active}`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const open = (href: string) => {
+    onClose();
+    router.push(href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex(Math.min(active + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex(Math.max(active - 1, 0));
+    } else if (e.key === "Enter" && results[active]) {
+      e.preventDefault();
+      open(results[active].href);
+    }
+  };
+
+  const selectClass =
+    "rounded-md border border-gray-300 bg-white px-2 py-1 text-xs sm:text-sm text-gray-700 focus:border-blue-600 focus:ring-1 focus:ring-blue-600";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 p-3 pt-[10vh]" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Search"
+        className="flex max-h-[75vh] w-full max-w-2xl flex-col overflow-hidden rounded-xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 border-b border-gray-200 px-4">
+          <SearchIcon className="h-5 w-5 flex-shrink-0 text-gray-400" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            placeholder="Search messages, prescriptions and notifications"
+            className="w-full border-0 py-4 text-base text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-0"
+            aria-label="Search"
+          />
+          <kbd className="hidden sm:inline rounded border border-gray-300 px-1.5 py-0.5 text-xs text-gray-500">Esc</kbd>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 border-b border-gray-100 bg-gray-50 px-4 py-2">
+          {[undefined, ...SEARCH_TYPES].map((value) => (
+            <button
+              key={value ?? "all"}
+              type="button"
+              onClick={() => {
+                setType(value);
+                setActiveIndex(0);
+              }}
+              className={`rounded-full border px-3 py-1 text-xs font-semibold transition-colors ${
+                type === value
+                  ? "border-blue-600 bg-blue-600 text-white"
+                  : "border-gray-300 bg-white text-gray-700 hover:border-blue-300"
+              }`}
+            >
+              {value ? SEARCH_TYPE_LABELS[value] : "All"}
+            </button>
+          ))}
+          <select
+            value={dateRange}
+            onChange={(e) => setDateRange(e.target.value as SearchDateRange)}
+            className={selectClass}
+            aria-label="Date"
+          >
+            {SEARCH_DATE_RANGES.map((range) => (
+              <option key={range.value} value={range.value}>
+                {range.label}
+              </option>
+            ))}
+          </select>
+          {doctors.length > 0 && type !== "notification" && (
+            <select value={doctorId} onChange={(e) => setDoctorId(e.target.value)} className={selectClass} aria-label="Doctor">
+              <option value="">Any doctor</option>
+              {doctors.map((doctor) => (
+                <option key={doctor.id} value={doctor.id}>
+                  Dr. {doctor.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {terms.length === 0 ? (
+            <p className="px-4 py-10 text-center text-sm text-gray-500">
+              Type to search, e.g. a medicine name or something your doctor said.
+            </p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-10 text-center text-sm text-gray-500">
+              {isLoading ? "Loading your records..." : `No results for “${query.trim()}”`}
+            </p>
+          ) : (
+            <ul className="py-2" role="listbox">
+              {results.map((result, index) => (
+                <li key={result.id} id={`search-result-${index}`} role="option" aria-selected={index === active}>
+                  <button
+                    type="button"
+                    onClick={() => open(result.href)}
+                    onMouseMove={() => setActiveIndex(index)}
+                    className={`flex w-full items-start gap-3 px-4 py-2.5 text-left ${index === active ? "bg-blue-50" : ""}`}
+                  >
+                    <span className="mt-0.5 text-lg">{TYPE_ICONS[result.type]}</span>
+                    <span className="min-w-0 flex-1">
+                      <span className="flex items-baseline justify-between gap-3">
+                        <span className="truncate text-sm font-semibold text-gray-900">
+                          <Highlighted text={result.title} terms={terms} />
+                        </span>
+                        <span className="flex-shrink-0 text-xs text-gray-500">
+                          {new Date(result.date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                        </span>
+                      </span>
+                      <span className="mt-0.5 block text-xs sm:text-sm text-gray-600 line-clamp-2">
+                        <Highlighted text={getSnippet(result.body, terms)} terms={terms} />
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="hidden sm:flex items-center gap-4 border-t border-gray-100 px-4 py-2 text-xs text-gray-500">
+          <span>↑↓ to navigate</span>
+          <span>↵ to open</span>
+          {results.length > 0 && <span className="ml-auto">{results.length} results</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   InvoicesIcon,
   RecordsIcon,
   NewsIcon,
+  ProfileIcon,
 } from "./icons";
 import MedicalStoreIcon from "./MedicalStoreIcon";
 
@@ -31,6 +32,7 @@ const navigation: NavItem[] = [
   { name: "Transcripts", href: "/transcripts", icon: TranscriptsIcon, description: "Consultation transcripts", section: "Records" },
   { name: "Records", href: "/records", icon: RecordsIcon, description: "Prescription records", section: "Records" },
   { name: "Notifications", href: "/news", icon: NewsIcon, description: "Updates and alerts", section: "Account" },
+  { name: "Profile", href: "/profile", icon: ProfileIcon, description: "Personal details and addresses", section: "Account" },
 ];
 
 interface SidebarProps {
@@ -0,0 +1,68 @@
+interface SlotHoldBannerProps {
+  slotTime: string;
+  secondsLeft: number;
+  expired: boolean;
+  recovering?: boolean;
+  onPickNearest: () => void;
+  onChooseAnother: () => void;
+}
+
+// Shown under the booking steps while a slot is held (countdown) or after the hold ran out
+export default function SlotHoldBanner({
+  slotTime,
+  secondsLeft,
+  expired,
+  recovering,
+  onPickNearest,
+  onChooseAnother,
+}: SlotHoldBannerProps) {
+  if (expired) {
+    return (
+      <div className="mb-4 rounded-lg border border-red-300 bg-red-50 p-4">
+        <p className="text-sm font-semibold text-red-800">Your hold on the {slotTime} slot has expired</p>
+        <p className="mt-1 text-xs sm:text-sm text-red-700">
+          The slot may now be booked by someone else. Grab the closest available time or choose another one.
+        </p>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={onPickNearest}
+            disabled={recovering}
+            className="rounded-md bg-red-600 px-3 py-1.5 text-xs sm:text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            {recovering ? "Finding a slot..." : "Hold nearest available slot"}
+          </button>
+          <button
+            type="button"
+            onClick={onChooseAnother}
+            className="rounded-md border border-red-300 bg-white px-3 py-1.5 text-xs sm:text-sm font-semibold text-red-700 hover:bg-red-100"
+          >
+            Choose another time
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = String(secondsLeft % 60).padStart(2, "0");
+  const urgent = secondsLeft <= 60;
+
+  return (
+    <div
+      className={`mb-4 flex items-center justify-between gap-3 rounded-lg border p-3 text-xs sm:text-sm ${
+        urgent ? "border-amber-300 bg-amber-50 text-amber-900" : "border-blue-200 bg-blue-50 text-blue-900"
+      }`}
+      role="timer"
+      aria-live={urgent ? "polite" : "off"}
+    >
+      <span>
+        ⏳ We&apos;re holding <span className="font-semibold">{slotTime}</span> for you. Complete your booking before the
+        timer runs out.
+      </span>
+      <span className="font-mono text-base sm:text-lg font-bold tabular-nums">
+        {minutes}:{seconds}
+      </span>
+    </div>
+  );
+}
@@ -3,21 +3,22 @@
 import { useEffect } from "react";
 import { usePathname } from "next/navigation";
 import { initializeSocket, disconnectSocket } from "@/lib/socket";
+import { useSession } from "@/lib/session";
 
 export function SocketProvider({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
+  const { status, accessToken } = useSession();
 
   useEffect(() => {
-    if (typeof window === "undefined") {
+    if (typeof window === "undefined" || status === "loading") {
       return;
     }
 
-    const token = localStorage.getItem("token");
-    
-    if (token) {
+    // A refreshed access token reconnects the socket with the new credentials
+    if (status === "authenticated") {
       try {
         setTimeout(() => {
-          initializeSocket(token);
+          initializeSocket(accessToken);
         }, 100);
       } catch (error) {
         console.warn("Failed to initialize socket:", error);
@@ -29,8 +30,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     return () => {
       disconnectSocket();
     };
-  }, [pathname]);
+  }, [pathname, status, accessToken]);
 
   return <>{children}</>;
 }
-
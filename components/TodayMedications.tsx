@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  ADHERENCE_DAYS,
+  formatDoseAmount,
+  formatDoseTime,
+  getAdherence,
+  useMedicationSchedule,
+  useReminderPermission,
+} from "@/lib/medications";
+import type { DoseStatus, ScheduledDose } from "@/lib/medications";
+
+interface TodayMedicationsProps {
+  patientId: string;
+}
+
+const STATUS_STYLES: Record<DoseStatus, string> = {
+  taken: "bg-green-100 text-green-800",
+  skipped: "bg-gray-100 text-gray-600",
+};
+
+// Today's doses from active prescriptions, with taken/skipped logging,
+// adherence over the last week and the browser reminder opt-in
+export default function TodayMedications({ patientId }: TodayMedicationsProps) {
+  const { plans, todayDoses, log, logDose, isLoading } = useMedicationSchedule(patientId);
+  const { permission, requestPermission } = useReminderPermission();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keeps the "due" markers current while the dashboard stays open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const adherence = getAdherence(plans, log, ADHERENCE_DAYS, now);
+
+  const renderActions = (dose: ScheduledDose) => {
+    const entry = log[dose.id];
+    if (entry) {
+      return (
+        <div className="flex items-center gap-2">
+          <span className={`rounded-full px-2 py-1 text-xs font-semibold ${STATUS_STYLES[entry.status]}`}>
+            {entry.status === "taken" ? "✓ Taken" : "Skipped"}
+          </span>
+          <button
+            type="button"
+            onClick={() => logDose(dose, null)}
+            className="text-xs font-semibold text-gray-500 hover:text-gray-700"
+          >
+            Undo
+          </button>
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => logDose(dose, "taken")}
+          className="rounded-lg bg-green-600 px-3 py-1 text-xs font-semibold text-white hover:bg-green-700"
+        >
+          Taken
+        </button>
+        <button
+          type="button"
+          onClick={() => logDose(dose, "skipped")}
+          className="rounded-lg border border-gray-300 bg-white px-3 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-50"
+        >
+          Skip
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4 sm:p-6 shadow-sm">
+      <div className="mb-4 flex items-center justify-between gap-2">
+        <h2 className="text-base sm:text-lg font-bold text-gray-900">Today&apos;s Medicines</h2>
+        {adherence.rate !== null && (
+          <span
+            className={`rounded-full px-2 py-1 text-xs font-semibold ${
+              adherence.rate >= 80 ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"
+            }`}
+            title={`Doses taken over the last ${ADHERENCE_DAYS} days`}
+          >
+            {adherence.rate}% this week
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="py-6 text-center text-sm text-gray-500">Loading your medicines...</p>
+      ) : todayDoses.length === 0 ? (
+        <div className="py-6 text-center">
+          <p className="text-sm text-gray-500">No medicines scheduled for today</p>
+          {plans.length > 0 && (
+            <Link href="/records" className="mt-2 inline-block text-sm font-semibold text-blue-600 hover:text-blue-700">
+              View prescriptions →
+            </Link>
+          )}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {todayDoses.map((dose) => {
+            const overdue = !log[dose.id] && dose.at <= now;
+            return (
+              <li
+                key={dose.id}
+                className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${
+                  overdue ? "border-orange-300 bg-orange-50" : "border-gray-200"
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="text-xs font-semibold text-gray-500">
+                    {formatDoseTime(dose.time)}
+                    {overdue && <span className="ml-2 text-orange-700">Due</span>}
+                  </p>
+                  <p className="truncate font-semibold text-gray-900">{dose.plan.medicineName}</p>
+                  {formatDoseAmount(dose) && <p className="truncate text-xs text-gray-600">{formatDoseAmount(dose)}</p>}
+                </div>
+                {renderActions(dose)}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {adherence.due > 0 && (
+        <div className="mt-4 grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-lg bg-green-50 p-2">
+            <p className="text-lg font-bold text-green-700">{adherence.taken}</p>
+            <p className="text-xs text-gray-600">Taken</p>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-2">
+            <p className="text-lg font-bold text-gray-700">{adherence.skipped}</p>
+            <p className="text-xs text-gray-600">Skipped</p>
+          </div>
+          <div className="rounded-lg bg-orange-50 p-2">
+            <p className="text-lg font-bold text-orange-700">{adherence.missed}</p>
+            <p className="text-xs text-gray-600">Missed</p>
+          </div>
+        </div>
+      )}
+
+      {plans.length > 0 && permission !== "unsupported" && (
+        <div className="mt-4 border-t border-gray-100 pt-3 text-xs text-gray-500">
+          {permission === "granted" ? (
+            <p>🔔 Dose reminders are on while the app is open</p>
+          ) : permission === "denied" ? (
+            <p>Reminders are blocked. Allow notifications for this site in your browser settings.</p>
+          ) : (
+            <button
+              type="button"
+              onClick={requestPermission}
+              className="font-semibold text-blue-600 hover:text-blue-700"
+            >
+              🔔 Turn on dose reminders
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
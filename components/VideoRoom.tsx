@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { runPreflight, stopStream, useVideoCall } from "@/lib/videoCall";
+import type { CallStatus, PreflightResult } from "@/lib/videoCall";
+
+interface VideoRoomProps {
+  appointmentId: string;
+  doctorName: string;
+}
+
+function StreamVideo({ stream, muted, className }: { stream: MediaStream | null; muted?: boolean; className?: string }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return <video ref={videoRef} autoPlay playsInline muted={muted} className={className} />;
+}
+
+const STATUS_MESSAGES: Partial<Record<CallStatus, string>> = {
+  connecting: "Connecting to your doctor...",
+  reconnecting: "Connection lost. Reconnecting...",
+};
+
+function ControlButton({
+  onClick,
+  active,
+  danger,
+  disabled,
+  label,
+  children,
+}: {
+  onClick: () => void;
+  active?: boolean;
+  danger?: boolean;
+  disabled?: boolean;
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={label}
+      aria-label={label}
+      aria-pressed={active}
+      className={`flex h-11 min-w-11 items-center justify-center gap-1.5 rounded-full px-4 text-sm font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+        danger
+          ? "bg-red-600 text-white hover:bg-red-700"
+          : active
+            ? "bg-white text-gray-900 hover:bg-gray-200"
+            : "bg-gray-700 text-white hover:bg-gray-600"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+// Video/audio room for VIDEO-channel appointments: device check, waiting room
+// until the doctor joins, then the call itself
+export default function VideoRoom({ appointmentId, doctorName }: VideoRoomProps) {
+  const call = useVideoCall(appointmentId);
+  const [preflight, setPreflight] = useState<PreflightResult | null>(null);
+  const [checking, setChecking] = useState(false);
+  // Preview stream not yet handed to the call; stopped if the patient never joins
+  const previewRef = useRef<MediaStream | null>(null);
+
+  useEffect(() => () => stopStream(previewRef.current), []);
+
+  const handleCheckDevices = async () => {
+    setChecking(true);
+    stopStream(previewRef.current);
+    const result = await runPreflight();
+    previewRef.current = result.stream;
+    setPreflight(result);
+    setChecking(false);
+  };
+
+  const handleJoin = () => {
+    if (!preflight?.stream) return;
+    previewRef.current = null;
+    call.join(preflight.stream);
+  };
+
+  const handleLeave = () => {
+    call.leave();
+    setPreflight(null);
+  };
+
+  const inCall = call.status !== "idle" && call.status !== "ended";
+
+  if (!inCall) {
+    return (
+      <div className="rounded-xl border-2 border-purple-200 bg-gradient-to-br from-purple-50 to-white p-4 sm:p-6 shadow-md">
+        <div className="flex items-center gap-2 mb-3">
+          <span className="text-2xl">📹</span>
+          <h3 className="text-lg font-bold text-gray-900">Video Consultation</h3>
+        </div>
+        {call.status === "ended" && !preflight && (
+          <p className="mb-3 text-sm text-gray-600">You left the call. You can rejoin while the consultation is open.</p>
+        )}
+
+        {!preflight ? (
+          <>
+            <p className="text-sm text-gray-700 mb-4">
+              Check your camera and microphone before joining. Dr. {doctorName} will be notified that you&apos;re waiting.
+            </p>
+            <button
+              type="button"
+              onClick={handleCheckDevices}
+              disabled={checking}
+              className="rounded-lg bg-purple-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-purple-700 disabled:opacity-50"
+            >
+              {checking ? "Checking devices..." : "Check camera & microphone"}
+            </button>
+          </>
+        ) : preflight.error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+            <p className="text-sm font-semibold text-red-800">We couldn&apos;t access your devices</p>
+            <p className="mt-1 text-sm text-red-700">{preflight.error}</p>
+            <button
+              type="button"
+              onClick={handleCheckDevices}
+              disabled={checking}
+              className="mt-3 rounded-lg bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {checking ? "Checking..." : "Try again"}
+            </button>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="aspect-video overflow-hidden rounded-lg bg-gray-900">
+              {preflight.hasCamera ? (
+                <StreamVideo stream={preflight.stream} muted className="h-full w-full object-cover -scale-x-100" />
+              ) : (
+                <div className="flex h-full items-center justify-center text-4xl">🎙️</div>
+              )}
+            </div>
+            <div className="flex flex-col justify-between gap-3">
+              <ul className="space-y-1 text-sm">
+                <li className="text-green-700">✓ Microphone ready</li>
+                <li className={preflight.hasCamera ? "text-green-700" : "text-amber-700"}>
+                  {preflight.hasCamera ? "✓ Camera ready" : "⚠ No camera found: you'll join with audio only"}
+                </li>
+              </ul>
+              <button
+                type="button"
+                onClick={handleJoin}
+                className="rounded-lg bg-purple-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-purple-700"
+              >
+                Join video consultation
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const hasLocalVideo = !!call.localStream?.getVideoTracks().length;
+  const statusMessage = STATUS_MESSAGES[call.status];
+
+  return (
+    <div className="overflow-hidden rounded-xl border-2 border-gray-800 bg-gray-900 shadow-lg">
+      <div className="relative aspect-video w-full bg-black">
+        {call.status === "waiting" || !call.remoteStream ? (
+          <div className="flex h-full flex-col items-center justify-center gap-3 px-4 text-center text-white">
+            {call.status === "waiting" ? (
+              <>
+                <div className="h-10 w-10 animate-pulse rounded-full bg-purple-500" />
+                <p className="text-base sm:text-lg font-semibold">Waiting for Dr. {doctorName} to join...</p>
+                <p className="text-xs sm:text-sm text-gray-400">Stay on this page. The call starts as soon as your doctor joins.</p>
+              </>
+            ) : call.status === "failed" ? (
+              <>
+                <p className="text-base font-semibold">The call couldn&apos;t connect</p>
+                {call.error && <p className="text-xs sm:text-sm text-gray-400">{call.error}</p>}
+                <button
+                  type="button"
+                  onClick={call.reconnect}
+                  className="rounded-lg bg-purple-600 px-4 py-2 text-sm font-semibold hover:bg-purple-700"
+                >
+                  Try again
+                </button>
+              </>
+            ) : (
+              <p className="text-sm sm:text-base">{statusMessage}</p>
+            )}
+          </div>
+        ) : (
+          <StreamVideo stream={call.remoteStream} className="h-full w-full object-contain" />
+        )}
+
+        {statusMessage && call.remoteStream && (
+          <div className="absolute inset-x-0 top-0 bg-amber-500/90 px-3 py-1.5 text-center text-xs sm:text-sm font-semibold text-white">
+            {statusMessage}
+          </div>
+        )}
+
+        <div className="absolute bottom-3 right-3 aspect-video w-28 sm:w-40 overflow-hidden rounded-lg border-2 border-gray-700 bg-gray-800 shadow-lg">
+          {hasLocalVideo && !call.cameraOff ? (
+            <StreamVideo stream={call.localStream} muted className="h-full w-full object-cover -scale-x-100" />
+          ) : (
+            <div className="flex h-full items-center justify-center text-xs text-gray-300">Camera off</div>
+          )}
+          {call.sharingScreen && (
+            <span className="absolute inset-x-0 bottom-0 bg-purple-600/90 py-0.5 text-center text-[10px] font-semibold text-white">
+              Sharing screen
+            </span>
+          )}
+        </div>
+      </div>
+
+      {call.error && call.status !== "failed" && (
+        <p className="bg-red-900/60 px-4 py-1.5 text-center text-xs text-red-100">{call.error}</p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-2 sm:gap-3 p-3">
+        <ControlButton onClick={call.toggleMute} active={call.muted} label={call.muted ? "Unmute" : "Mute"}>
+          {call.muted ? "🔇" : "🎙️"}
+          <span className="hidden sm:inline">{call.muted ? "Unmute" : "Mute"}</span>
+        </ControlButton>
+        <ControlButton
+          onClick={call.toggleCamera}
+          active={call.cameraOff}
+          disabled={!hasLocalVideo}
+          label={call.cameraOff ? "Turn camera on" : "Turn camera off"}
+        >
+          📷<span className="hidden sm:inline">{call.cameraOff ? "Camera on" : "Camera off"}</span>
+        </ControlButton>
+        <ControlButton
+          onClick={call.toggleScreenShare}
+          active={call.sharingScreen}
+          label={call.sharingScreen ? "Stop sharing" : "Share screen"}
+        >
+          🖥️<span className="hidden sm:inline">{call.sharingScreen ? "Stop sharing" : "Share screen"}</span>
+        </ControlButton>
+        <ControlButton onClick={handleLeave} danger label="Leave call">
+          📞<span className="hidden sm:inline">Leave</span>
+        </ControlButton>
+      </div>
+    </div>
+  );
+}
@@ -62,6 +62,14 @@ export const NewsIcon: React.FC<IconProps> = ({ className = "w-5 h-5" }) => {
   );
 };
 
+export const ProfileIcon: React.FC<IconProps> = ({ className = "w-5 h-5" }) => {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+    </svg>
+  );
+};
+
 export const MenuIcon: React.FC<IconProps> = ({ className = "w-6 h-6" }) => {
   return (
     <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -134,3 +142,11 @@ export const EyeIcon: React.FC<IconProps> = ({ className = "w-5 h-5" }) => {
     </svg>
   );
 };
+
+export const SearchIcon: React.FC<IconProps> = ({ className = "w-5 h-5" }) => {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+    </svg>
+  );
+};
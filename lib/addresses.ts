@@ -0,0 +1,89 @@
+"use client";
+
+import { addressesApi, queryKeys } from "./client";
+import type { AddressInput, OrderAddress } from "./client";
+import { invalidateQueries, useQuery } from "./queryCache";
+import { useSession } from "./session";
+import type { Address, AddressLabel } from "./types";
+
+// The patient's address book, shared by the profile page, checkout, new orders
+// and booking through the query cache.
+
+// Shared so callers can list the addresses as an effect dependency while loading
+const NO_ADDRESSES: Address[] = [];
+
+export function useAddresses() {
+  const { isAuthenticated } = useSession();
+  const { data, error, isLoading } = useQuery(isAuthenticated ? queryKeys.addresses() : null, () =>
+    addressesApi.list()
+  );
+  return { addresses: data ?? NO_ADDRESSES, error, isLoading };
+}
+
+export async function saveAddress(input: AddressInput, addressId?: string): Promise<Address> {
+  const saved = addressId ? await addressesApi.update(addressId, input) : await addressesApi.create(input);
+  invalidateQueries(queryKeys.addresses());
+  return saved;
+}
+
+export async function removeAddress(addressId: string): Promise<void> {
+  await addressesApi.remove(addressId);
+  invalidateQueries(queryKeys.addresses());
+}
+
+export function getDefaultAddress(addresses: Address[]): Address | undefined {
+  return addresses.find((address) => address.isDefault) ?? addresses[0];
+}
+
+const LABEL_NAMES: Record<AddressLabel, string> = {
+  HOME: "Home",
+  WORK: "Work",
+  OTHER: "Other",
+};
+
+export function getAddressName(address: Pick<Address, "label" | "name">): string {
+  return address.label === "OTHER" && address.name ? address.name : LABEL_NAMES[address.label];
+}
+
+// Single-line form for the legacy string fields (deliveryAddress, appointment address)
+export function formatAddress(address: Omit<Address, "_id">): string {
+  const cityLine = [address.city, address.state].filter(Boolean).join(", ");
+  return [
+    address.line1,
+    address.line2,
+    address.landmark ? `Near ${address.landmark}` : undefined,
+    address.postalCode ? `${cityLine} ${address.postalCode}` : cityLine,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function toAddressInput(address: Address): AddressInput {
+  return {
+    label: address.label,
+    name: address.name,
+    line1: address.line1,
+    line2: address.line2,
+    landmark: address.landmark,
+    city: address.city,
+    state: address.state,
+    postalCode: address.postalCode,
+    location: address.location,
+    isDefault: address.isDefault,
+  };
+}
+
+export function toOrderAddress(address: Address): OrderAddress {
+  return {
+    addressId: address._id,
+    label: address.label,
+    name: address.name,
+    line1: address.line1,
+    line2: address.line2,
+    landmark: address.landmark,
+    city: address.city,
+    state: address.state,
+    postalCode: address.postalCode,
+    location: address.location,
+  };
+}
@@ -1,14 +1,33 @@
 // API utility with automatic error handling
+import { ApiError, NetworkError } from "./errors";
+import { loginUrl } from "./routes";
+import { endSession, getAccessToken, hasSession, refreshSession } from "./session";
+
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE;
+const NETWORK_ERROR_MESSAGE = "Unable to connect to server. Please ensure the backend is running on http://localhost:4000";
+
+// Endpoints whose 401 means bad credentials rather than an expired session
+const AUTH_ENDPOINTS = [
+  "/api/users/login",
+  "/api/users/signup",
+  "/api/users/refresh-token",
+  "/api/users/otp/request",
+  "/api/users/otp/verify",
+  "/api/users/forgot-password",
+  "/api/users/reset-password",
+  "/api/users/verify-email",
+];
 
 export async function apiFetch(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  isRetry = false
 ): Promise<Response> {
-  const token = typeof window !== "undefined" ? localStorage.getItem("token") : null;
+  const token = typeof window !== "undefined" ? getAccessToken() : null;
 
   const headers: Record<string, string> = {
-    "Content-Type": "application/json",
+    // Multipart bodies need the browser-generated boundary header
+    ...(options.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
     ...(options.headers as Record<string, string>),
   };
 
@@ -24,47 +43,40 @@ export async function apiFetch(
       ...options,
       headers,
       credentials: "include",
-    }).catch((fetchError: any) => {
+    }).catch((fetchError: unknown) => {
       // Network error - backend not reachable
       console.error("[API] Fetch failed:", fetchError);
-      const networkError = new Error("Unable to connect to server. Please ensure the backend is running on http://localhost:4000");
-      (networkError as any).isNetworkError = true;
-      (networkError as any).originalError = fetchError;
-      throw networkError;
+      throw new NetworkError(NETWORK_ERROR_MESSAGE, fetchError);
     });
 
     console.log(`[API] Response status: ${response.status} for ${url}`);
 
-    // Handle authentication errors
+    // Expired access token: refresh once and replay the request
+    if (response.status === 401 && typeof window !== "undefined" && hasSession() && !AUTH_ENDPOINTS.includes(endpoint)) {
+      if (!isRetry && (await refreshSession())) {
+        return apiFetch(endpoint, options, true);
+      }
+      const errorData = await response.json().catch(() => ({}));
+      await endSession();
+      window.location.href = loginUrl(window.location.pathname + window.location.search);
+      throw new ApiError("Authentication failed", 401, errorData);
+    }
+
     if (response.status === 401) {
       const errorData = await response.json().catch(() => ({}));
-      if (errorData.message && (errorData.message.includes("Authentication") || errorData.message.includes("token") || errorData.message.includes("Unauthorized"))) {
-        if (typeof window !== "undefined") {
-          localStorage.removeItem("token");
-          localStorage.removeItem("user");
-          window.location.href = "/";
-        }
-        throw new Error("Authentication failed");
-      }
-      throw new Error(errorData.message || "Unauthorized");
+      throw new ApiError(errorData.message || "Unauthorized", 401, errorData);
     }
 
     return response;
-  } catch (error: any) {
-    if (error.message === "Authentication failed") {
-      throw error;
-    }
-    
-    // Re-throw network errors (already handled above)
-    if (error.isNetworkError) {
+  } catch (error) {
+    // Re-throw typed errors (already handled above)
+    if (error instanceof ApiError || error instanceof NetworkError) {
       throw error;
     }
     
     // Handle other fetch errors
-    if (error.name === "TypeError" || error.message === "Failed to fetch" || error.message?.includes("fetch")) {
-      const networkError = new Error("Unable to connect to server. Please ensure the backend is running on http://localhost:4000");
-      (networkError as any).isNetworkError = true;
-      throw networkError;
+    if (error instanceof Error && (error.name === "TypeError" || error.message.includes("fetch"))) {
+      throw new NetworkError(NETWORK_ERROR_MESSAGE, error);
     }
     
     console.error("[API] Error:", error);
@@ -72,23 +84,52 @@ export async function apiFetch(
   }
 }
 
+export async function toApiError(response: Response, fallback: string): Promise<ApiError> {
+  const errorData: { message?: string } = await response.json().catch(() => ({}));
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  return new ApiError(
+    errorData.message || `${fallback}: ${response.status}`,
+    response.status,
+    errorData,
+    retryAfter > 0 ? retryAfter : undefined
+  );
+}
+
+// Appends defined params as a query string: withQuery("/api/x", { a: 1, b: undefined }) -> "/api/x?a=1"
+export function withQuery(
+  endpoint: string,
+  params: Record<string, string | number | boolean | undefined | null>
+): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      query.append(key, String(value));
+    }
+  });
+  const qs = query.toString();
+  return qs ? `${endpoint}?${qs}` : endpoint;
+}
+
 export async function apiGet<T = unknown>(endpoint: string): Promise<T> {
   const response = await apiFetch(endpoint, { method: "GET" });
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error((errorData as any).message || `Failed to fetch: ${response.status}`);
+    throw await toApiError(response, "Failed to fetch");
   }
   return response.json() as Promise<T>;
 }
 
-export async function apiPost<T = unknown>(endpoint: string, data: unknown): Promise<T> {
+export async function apiPost<T = unknown>(
+  endpoint: string,
+  data: unknown,
+  headers?: Record<string, string>
+): Promise<T> {
   const response = await apiFetch(endpoint, {
     method: "POST",
     body: JSON.stringify(data),
+    headers,
   });
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error((errorData as any).message || `Failed to post: ${response.status}`);
+    throw await toApiError(response, "Failed to post");
   }
   return response.json() as Promise<T>;
 }
@@ -99,8 +140,7 @@ export async function apiPut<T = unknown>(endpoint: string, data: unknown): Prom
     body: JSON.stringify(data),
   });
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error((errorData as any).message || `Failed to update: ${response.status}`);
+    throw await toApiError(response, "Failed to update");
   }
   return response.json() as Promise<T>;
 }
@@ -111,8 +151,7 @@ export async function apiPatch<T = unknown>(endpoint: string, data?: unknown): P
     body: data ? JSON.stringify(data) : undefined,
   });
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error((errorData as any).message || `Failed to patch: ${response.status}`);
+    throw await toApiError(response, "Failed to patch");
   }
   return response.json() as Promise<T>;
 }
@@ -120,10 +159,65 @@ export async function apiPatch<T = unknown>(endpoint: string, data?: unknown): P
 export async function apiDelete<T = unknown>(endpoint: string): Promise<T> {
   const response = await apiFetch(endpoint, { method: "DELETE" });
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error((errorData as any).message || `Failed to delete: ${response.status}`);
+    throw await toApiError(response, "Failed to delete");
   }
   return response.json() as Promise<T>;
 }
 
 
+
+// Multipart POST over XHR, which (unlike fetch) reports upload progress as a
+// 0-1 fraction. Session refresh on 401 mirrors apiFetch.
+export function apiUpload<T = unknown>(
+  endpoint: string,
+  formData: FormData,
+  onProgress?: (fraction: number) => void,
+  fallback = "Failed to upload",
+  isRetry = false
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${API_BASE}${endpoint}`);
+    xhr.withCredentials = true;
+    const token = getAccessToken();
+    if (token) {
+      xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onerror = () => reject(new NetworkError(NETWORK_ERROR_MESSAGE));
+    xhr.onload = async () => {
+      let data: { message?: string } = {};
+      try {
+        data = xhr.responseText ? JSON.parse(xhr.responseText) : {};
+      } catch {
+        // Non-JSON body; fall back to the status text below
+      }
+
+      if (xhr.status === 401 && hasSession()) {
+        if (!isRetry && (await refreshSession())) {
+          apiUpload<T>(endpoint, formData, onProgress, fallback, true).then(resolve, reject);
+          return;
+        }
+        await endSession();
+        window.location.href = loginUrl(window.location.pathname + window.location.search);
+        reject(new ApiError("Authentication failed", 401, data));
+        return;
+      }
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const retryAfter = Number(xhr.getResponseHeader("Retry-After"));
+        reject(
+          new ApiError(data.message || `${fallback}: ${xhr.status}`, xhr.status, data, retryAfter > 0 ? retryAfter : undefined)
+        );
+        return;
+      }
+      resolve(data as T);
+    };
+
+    console.log(`[API] POST ${API_BASE}${endpoint} (upload)`);
+    xhr.send(formData);
+  });
+}
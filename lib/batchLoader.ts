@@ -0,0 +1,106 @@
+import { ApiError, ResponseValidationError } from "./errors";
+
+// Collects ids requested within the same tick and resolves them with one bulk
+// request. Loaders whose bulk endpoint is missing (or ignores the ids query)
+// switch to per-id requests for the rest of the page session.
+
+export interface BatchLoaderOptions<T> {
+  name: string;
+  loadMany: (ids: string[]) => Promise<T[]>;
+  loadOne: (id: string) => Promise<T>;
+  getId: (item: T) => string;
+}
+
+export interface BatchLoader<T> {
+  load(id: string): Promise<T>;
+}
+
+interface Pending<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+// Not found, method not allowed and not implemented mean there's no bulk
+// endpoint; auth, rate-limit and server errors are passed on to the callers
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+function isBulkUnsupported(error: unknown) {
+  return (
+    (error instanceof ApiError && UNSUPPORTED_STATUSES.includes(error.status)) ||
+    error instanceof ResponseValidationError
+  );
+}
+
+export function createBatchLoader<T>({ name, loadMany, loadOne, getId }: BatchLoaderOptions<T>): BatchLoader<T> {
+  let queue = new Map<string, Pending<T>>();
+  let scheduled = false;
+  let bulkSupported = true;
+
+  const loadEach = (batch: Map<string, Pending<T>>) => {
+    batch.forEach((pending, id) => {
+      loadOne(id).then(pending.resolve, pending.reject);
+    });
+  };
+
+  const flush = async () => {
+    const batch = queue;
+    queue = new Map();
+    scheduled = false;
+
+    if (!bulkSupported || batch.size === 1) {
+      loadEach(batch);
+      return;
+    }
+
+    try {
+      const items = await loadMany(Array.from(batch.keys()));
+      const byId = new Map(items.map((item) => [getId(item), item]));
+      const missing = new Map<string, Pending<T>>();
+      batch.forEach((pending, id) => {
+        const item = byId.get(id);
+        if (item !== undefined) {
+          pending.resolve(item);
+        } else {
+          missing.set(id, pending);
+        }
+      });
+      // Ids the bulk response left out get their own request so a partial or
+      // filtered bulk result never turns into a false "not found"
+      if (missing.size === batch.size) {
+        console.warn(`Bulk ${name} lookup ignored the requested ids, falling back to per-id requests`);
+        bulkSupported = false;
+      }
+      loadEach(missing);
+    } catch (error) {
+      if (!isBulkUnsupported(error)) {
+        batch.forEach((pending) => pending.reject(error));
+        return;
+      }
+      console.warn(`Bulk ${name} lookup unavailable, falling back to per-id requests:`, error);
+      bulkSupported = false;
+      loadEach(batch);
+    }
+  };
+
+  return {
+    load(id: string): Promise<T> {
+      const existing = queue.get(id);
+      if (existing) return existing.promise;
+
+      let resolve!: (value: T) => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      queue.set(id, { promise, resolve, reject });
+
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(flush, 0);
+      }
+      return promise;
+    },
+  };
+}
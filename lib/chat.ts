@@ -0,0 +1,421 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { conversationsApi } from "./client";
+import { emitSocketEvent, offSocketEvent, onSocketEvent } from "./socket";
+import type { Conversation, Message, MessageAttachment } from "./types";
+import { addToOutbox, getOutbox, isOffline } from "./outbox";
+import type { OutboxMessage } from "./outbox";
+import { getUploadKind } from "./uploads";
+
+// Consultation chat kept in sync over the socket instead of refetching.
+//
+// Sent messages show up straight away as "pending" and turn "sent" or "failed"
+// when the POST settles. `message:created` payloads are merged in (matched by
+// `_id`, or by `clientId` for our own echoes). Typing is announced with
+// `typing:start`/`typing:stop`, and `message:read` carries read receipts both
+// ways. Every payload carries the appointmentId.
+//
+// Attachments are uploaded first (tracking progress) and then sent as an
+// IMAGE, FILE or AUDIO message; until then they render from a local blob URL.
+//
+// Messages that can't go out for lack of a connection are "queued" in the
+// outbox (lib/outbox), and reloaded from it on mount; pass `deliverQueued` to
+// useOutboxFlush as the message sender.
+
+export type DeliveryStatus = "pending" | "queued" | "sent" | "failed";
+
+export interface ChatMessage extends Message {
+  status: DeliveryStatus;
+  // Attachment upload progress (0-1) while pending
+  progress?: number;
+}
+
+interface PendingFile {
+  blob: Blob;
+  name: string;
+  duration?: number;
+  previewUrl: string;
+}
+
+// Stop announcing typing after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+// Forget the other side is typing if their `typing:stop` never arrives
+const PEER_TYPING_TIMEOUT_MS = 6000;
+
+interface MessageEvent {
+  appointmentId?: string;
+  message?: Message;
+}
+
+interface PeerEvent {
+  appointmentId?: string;
+  userId?: string;
+  readAt?: string;
+}
+
+function newClientId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function describeAttachment(mimeType: string, name: string): { messageType: string; content: string } {
+  switch (getUploadKind(mimeType)) {
+    case "image":
+      return { messageType: "IMAGE", content: "📷 Photo" };
+    case "audio":
+      return { messageType: "AUDIO", content: "🎤 Voice note" };
+    default:
+      return { messageType: "FILE", content: `📄 ${name}` };
+  }
+}
+
+function isSameMessage(a: Message, b: Message): boolean {
+  if (a._id && b._id) return a._id === b._id;
+  if (a.clientId && b.clientId) return a.clientId === b.clientId;
+  return a.senderId === b.senderId && a.timestamp === b.timestamp && a.content === b.content;
+}
+
+// Server copy wins; local messages it doesn't have yet (unsent ones, and any
+// that arrived over the socket after it was fetched) stay on the end
+function mergeServerMessages(server: Message[], local: ChatMessage[]): ChatMessage[] {
+  const lastServerAt = server.length > 0 ? server[server.length - 1].timestamp : "";
+  const extra = local.filter(
+    (msg) =>
+      !server.some((saved) => isSameMessage(saved, msg)) && (msg.status !== "sent" || msg.timestamp > lastServerAt)
+  );
+  return [...server.map((msg): ChatMessage => ({ ...msg, status: "sent" })), ...extra];
+}
+
+interface ConsultationChatOptions {
+  appointmentId: string;
+  conversation: Conversation | null;
+  userId?: string;
+  // A message we can't place (no conversation loaded yet, or no payload) or a
+  // socket reconnect: the caller should refetch the conversation
+  onResync: () => void;
+  onIncoming?: (message: Message) => void;
+}
+
+export function useConsultationChat({ appointmentId, conversation, userId, onResync, onIncoming }: ConsultationChatOptions) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [syncedConversation, setSyncedConversation] = useState<Conversation | null>(null);
+  const [peerTyping, setPeerTyping] = useState(false);
+
+  const callbacksRef = useRef({ onResync, onIncoming });
+  const conversationIdRef = useRef<string | null>(null);
+  const typingRef = useRef(false);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const peerTypingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastReadSentRef = useRef("");
+  // Attachments not uploaded yet, by clientId; kept for retries
+  const pendingFilesRef = useRef(new Map<string, PendingFile>());
+
+  // A fetched conversation replaces what we have, keeping unsent messages
+  if (conversation !== syncedConversation) {
+    setSyncedConversation(conversation);
+    setMessages(conversation ? mergeServerMessages(conversation.messages, messages) : []);
+  }
+
+  useEffect(() => {
+    callbacksRef.current = { onResync, onIncoming };
+    conversationIdRef.current = conversation?._id ?? null;
+  });
+
+  const isMine = (msg: Message) => !!userId && String(msg.senderId) === String(userId);
+
+  useEffect(() => {
+    const clearPeerTyping = () => {
+      if (peerTypingTimerRef.current) clearTimeout(peerTypingTimerRef.current);
+      peerTypingTimerRef.current = null;
+      setPeerTyping(false);
+    };
+
+    const handleMessage = (data: MessageEvent) => {
+      if (data?.appointmentId !== appointmentId) return;
+      const incoming = data.message;
+      if (!incoming || !conversationIdRef.current) {
+        callbacksRef.current.onResync();
+        return;
+      }
+      const fromMe = !!userId && String(incoming.senderId) === String(userId);
+      if (!fromMe) {
+        clearPeerTyping();
+        callbacksRef.current.onIncoming?.(incoming);
+      }
+      setMessages((prev) => {
+        const index = prev.findIndex((msg) => isSameMessage(msg, incoming));
+        if (index === -1) {
+          // Our own echo without a matching clientId is already on screen
+          return fromMe ? prev : [...prev, { ...incoming, status: "sent" }];
+        }
+        const next = [...prev];
+        next[index] = { ...next[index], ...incoming, status: "sent" };
+        return next;
+      });
+    };
+
+    const handleTyping = (isTyping: boolean) => (data: PeerEvent) => {
+      if (data?.appointmentId !== appointmentId || (userId && data.userId === userId)) return;
+      if (!isTyping) {
+        clearPeerTyping();
+        return;
+      }
+      setPeerTyping(true);
+      if (peerTypingTimerRef.current) clearTimeout(peerTypingTimerRef.current);
+      peerTypingTimerRef.current = setTimeout(clearPeerTyping, PEER_TYPING_TIMEOUT_MS);
+    };
+    const handleTypingStart = handleTyping(true);
+    const handleTypingStop = handleTyping(false);
+
+    // The doctor has read everything we sent up to `readAt`
+    const handleRead = (data: PeerEvent) => {
+      if (data?.appointmentId !== appointmentId || (userId && data.userId === userId)) return;
+      const readAt = data.readAt || new Date().toISOString();
+      setMessages((prev) =>
+        prev.map((msg) =>
+          String(msg.senderId) === String(userId) && msg.status === "sent" && !msg.readAt && msg.timestamp <= readAt
+            ? { ...msg, readAt }
+            : msg
+        )
+      );
+    };
+
+    const handleReconnect = () => callbacksRef.current.onResync();
+
+    onSocketEvent("message:created", handleMessage);
+    onSocketEvent("typing:start", handleTypingStart);
+    onSocketEvent("typing:stop", handleTypingStop);
+    onSocketEvent("message:read", handleRead);
+    onSocketEvent("connect", handleReconnect);
+
+    return () => {
+      offSocketEvent("message:created", handleMessage);
+      offSocketEvent("typing:start", handleTypingStart);
+      offSocketEvent("typing:stop", handleTypingStop);
+      offSocketEvent("message:read", handleRead);
+      offSocketEvent("connect", handleReconnect);
+      if (peerTypingTimerRef.current) clearTimeout(peerTypingTimerRef.current);
+    };
+  }, [appointmentId, userId]);
+
+  // Send a read receipt for the doctor's latest message while the page is visible
+  useEffect(() => {
+    const sendReadReceipt = () => {
+      if (document.visibilityState !== "visible" || !conversationIdRef.current) return;
+      const latest = [...messages].reverse().find((msg) => !userId || String(msg.senderId) !== String(userId));
+      if (!latest || latest.timestamp <= lastReadSentRef.current) return;
+      if (emitSocketEvent("message:read", { appointmentId, conversationId: conversationIdRef.current, readAt: latest.timestamp })) {
+        lastReadSentRef.current = latest.timestamp;
+      }
+    };
+
+    sendReadReceipt();
+    document.addEventListener("visibilitychange", sendReadReceipt);
+    return () => document.removeEventListener("visibilitychange", sendReadReceipt);
+  }, [appointmentId, messages, userId]);
+
+  const stopTyping = () => {
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    typingTimerRef.current = null;
+    if (typingRef.current) {
+      typingRef.current = false;
+      emitSocketEvent("typing:stop", { appointmentId });
+    }
+  };
+
+  // Don't leave the doctor seeing "typing..." after leaving the page
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => stopTyping, []);
+
+  // Show what's still in the outbox from an earlier visit
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    getOutbox(appointmentId, userId)
+      .then((entries) => {
+        if (cancelled) return;
+        const queued = entries.flatMap((entry): ChatMessage[] => {
+          if (entry.kind !== "message") return [];
+          let attachment = entry.attachment;
+          if (entry.file) {
+            const previewUrl = URL.createObjectURL(entry.file.blob);
+            pendingFilesRef.current.set(entry.clientId, { ...entry.file, previewUrl });
+            attachment = {
+              url: previewUrl,
+              name: entry.file.name,
+              mimeType: entry.file.blob.type,
+              size: entry.file.blob.size,
+              duration: entry.file.duration,
+            };
+          }
+          return [
+            {
+              clientId: entry.clientId,
+              senderId: userId,
+              senderRole: "PATIENT",
+              content: entry.content,
+              messageType: entry.messageType,
+              timestamp: entry.timestamp,
+              attachment,
+              status: "queued",
+            },
+          ];
+        });
+        setMessages((prev) => [...prev, ...queued.filter((msg) => !prev.some((m) => isSameMessage(m, msg)))]);
+      })
+      .catch((error) => console.error("Failed to read the outbox:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, userId]);
+
+  useEffect(() => {
+    const pendingFiles = pendingFilesRef.current;
+    return () => pendingFiles.forEach((file) => URL.revokeObjectURL(file.previewUrl));
+  }, []);
+
+  // Call on every keystroke in the composer
+  const notifyTyping = () => {
+    if (!typingRef.current) {
+      typingRef.current = emitSocketEvent("typing:start", { appointmentId });
+    }
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    typingTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const updateMessage = (clientId: string | undefined, changes: Partial<ChatMessage>) =>
+    setMessages((prev) => prev.map((m) => (m.clientId === clientId ? { ...m, ...changes } : m)));
+
+  // Uploads the attachment file (if there is one still to upload), then sends
+  type Outgoing = Pick<ChatMessage, "clientId" | "content" | "messageType" | "attachment">;
+  const transmit = async (conversationId: string, msg: Outgoing, file?: OutboxMessage["file"]) => {
+    let attachment = msg.attachment;
+    if (file) {
+      const uploaded = await conversationsApi.uploadAttachment(conversationId, file.blob, file.name, (progress) =>
+        updateMessage(msg.clientId, { progress })
+      );
+      attachment = { ...uploaded, duration: uploaded.duration ?? file.duration };
+      const pendingFile = pendingFilesRef.current.get(msg.clientId!);
+      if (pendingFile) URL.revokeObjectURL(pendingFile.previewUrl);
+      pendingFilesRef.current.delete(msg.clientId!);
+      updateMessage(msg.clientId, { attachment, progress: undefined });
+    }
+    await conversationsApi.sendMessage(conversationId, {
+      content: msg.content,
+      messageType: msg.messageType,
+      clientId: msg.clientId,
+      attachment,
+    });
+  };
+
+  const queue = async (conversationId: string, msg: Outgoing, file?: OutboxMessage["file"]) => {
+    await addToOutbox({
+      kind: "message",
+      userId: userId!,
+      appointmentId,
+      conversationId,
+      clientId: msg.clientId!,
+      content: msg.content,
+      messageType: msg.messageType,
+      timestamp: new Date().toISOString(),
+      // A local preview URL means the file itself has to go in the outbox
+      attachment: file ? undefined : msg.attachment,
+      file,
+      createdAt: new Date().toISOString(),
+    });
+    updateMessage(msg.clientId, { status: "queued", progress: undefined });
+  };
+
+  const deliver = async (msg: ChatMessage) => {
+    const conversationId = conversationIdRef.current;
+    if (!conversationId) {
+      updateMessage(msg.clientId, { status: "failed" });
+      return;
+    }
+    const pendingFile = pendingFilesRef.current.get(msg.clientId!);
+    const file = pendingFile && { blob: pendingFile.blob, name: pendingFile.name, duration: pendingFile.duration };
+    try {
+      // Don't jump ahead of anything already waiting to go out
+      const hasQueued = await getOutbox(appointmentId, userId!).then((entries) => entries.length > 0, () => false);
+      if (isOffline() || hasQueued) {
+        await queue(conversationId, msg, file);
+        return;
+      }
+      await transmit(conversationId, msg, file);
+      updateMessage(msg.clientId, { status: "sent" });
+    } catch (error) {
+      if (isOffline(error)) {
+        try {
+          await queue(conversationId, msg, file);
+          return;
+        } catch (queueError) {
+          console.error("Failed to queue message:", queueError);
+        }
+      }
+      console.error("Failed to send message:", error);
+      updateMessage(msg.clientId, { status: "failed", progress: undefined });
+    }
+  };
+
+  // Outbox sender for queued messages; throws so the outbox can tell whether to
+  // keep the entry
+  const deliverQueued = async (entry: OutboxMessage) => {
+    updateMessage(entry.clientId, { status: "pending" });
+    try {
+      await transmit(entry.conversationId, entry, entry.file);
+      updateMessage(entry.clientId, { status: "sent" });
+    } catch (error) {
+      updateMessage(entry.clientId, { status: isOffline(error) ? "queued" : "failed", progress: undefined });
+      throw error;
+    }
+  };
+
+  const sendMessage = (content: string, messageType = "TEXT") => {
+    if (!userId) return;
+    stopTyping();
+    const msg: ChatMessage = {
+      clientId: newClientId(),
+      senderId: userId,
+      senderRole: "PATIENT",
+      content,
+      messageType,
+      timestamp: new Date().toISOString(),
+      status: "pending",
+    };
+    setMessages((prev) => [...prev, msg]);
+    return deliver(msg);
+  };
+
+  // `file` must already have passed validateUpload
+  const sendAttachment = (file: Blob, name: string, duration?: number) => {
+    if (!userId) return;
+    const clientId = newClientId();
+    const previewUrl = URL.createObjectURL(file);
+    pendingFilesRef.current.set(clientId, { blob: file, name, duration, previewUrl });
+    const attachment: MessageAttachment = { url: previewUrl, name, mimeType: file.type, size: file.size, duration };
+    const msg: ChatMessage = {
+      clientId,
+      senderId: userId,
+      senderRole: "PATIENT",
+      ...describeAttachment(file.type, name),
+      timestamp: new Date().toISOString(),
+      attachment,
+      status: "pending",
+      progress: 0,
+    };
+    setMessages((prev) => [...prev, msg]);
+    return deliver(msg);
+  };
+
+  const retryMessage = (clientId: string) => {
+    const msg = messages.find((m) => m.clientId === clientId && m.status === "failed");
+    if (!msg) return;
+    setMessages((prev) => prev.map((m) => (m.clientId === clientId ? { ...m, status: "pending" } : m)));
+    return deliver(msg);
+  };
+
+  return { messages, peerTyping, isMine, sendMessage, sendAttachment, retryMessage, notifyTyping, deliverQueued };
+}
@@ -0,0 +1,25 @@
+import * as s from "../schema";
+import type { Address } from "../types";
+import { address } from "./schemas";
+import { get, patch, post, send } from "./request";
+
+export type AddressInput = Omit<Address, "_id">;
+
+export const addressesApi = {
+  list(): Promise<Address[]> {
+    return get("/api/users/me/addresses", s.list(address));
+  },
+
+  // Saving with isDefault clears the flag on the previous default server-side
+  create(input: AddressInput): Promise<Address> {
+    return post("/api/users/me/addresses", input, address);
+  },
+
+  update(addressId: string, input: Partial<AddressInput>): Promise<Address> {
+    return patch(`/api/users/me/addresses/${addressId}`, input, address);
+  },
+
+  remove(addressId: string): Promise<void> {
+    return send("DELETE", `/api/users/me/addresses/${addressId}`);
+  },
+};
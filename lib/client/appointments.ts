@@ -0,0 +1,56 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { Appointment, AppointmentChannel } from "../types";
+import { appointment } from "./schemas";
+import { get, send } from "./request";
+
+export interface CreateAppointmentInput {
+  hospitalId: string;
+  doctorId: string;
+  patientId: string;
+  scheduledAt: string;
+  patientName: string;
+  age: number;
+  address: string;
+  issue: string;
+  channel: AppointmentChannel;
+  slotId?: string;
+  // Converts the patient's hold on slotId into the booking
+  slotHoldId?: string;
+  paymentIntentId?: string;
+}
+
+export const appointmentsApi = {
+  list(params: { patientId: string }): Promise<Appointment[]> {
+    return get(withQuery("/api/appointments", params), s.list(appointment));
+  },
+
+  get(appointmentId: string): Promise<Appointment> {
+    return get(`/api/appointments/${appointmentId}`, appointment);
+  },
+
+  getMany(appointmentIds: string[]): Promise<Appointment[]> {
+    return get(withQuery("/api/appointments", { ids: appointmentIds.join(",") }), s.list(appointment));
+  },
+
+  // Reuse the payment's idempotency key so a retried submit can't book twice
+  create(input: CreateAppointmentInput, idempotencyKey?: string): Promise<void> {
+    return send("POST", "/api/appointments", input, idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined);
+  },
+
+  cancel(appointmentId: string, cancellationReason: string): Promise<void> {
+    return send("PATCH", `/api/appointments/${appointmentId}/cancel`, { cancellationReason });
+  },
+
+  updateStatus(appointmentId: string, status: string): Promise<void> {
+    return send("PATCH", `/api/appointments/${appointmentId}/status`, { status });
+  },
+
+  reschedule(appointmentId: string, input: { scheduledAt: string; reason: string }): Promise<void> {
+    return send("PATCH", `/api/appointments/${appointmentId}/reschedule`, input);
+  },
+
+  remove(appointmentId: string): Promise<void> {
+    return send("DELETE", `/api/appointments/${appointmentId}`);
+  },
+};
@@ -0,0 +1,69 @@
+import * as s from "../schema";
+import type { User } from "../types";
+import { user } from "./schemas";
+import { post, send } from "./request";
+
+export interface AuthResponse {
+  user: User;
+  token?: string;
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+// Tokens are absent in cookie mode, where the backend sets them as httpOnly cookies
+const authResponse = s.object<AuthResponse>({
+  user,
+  token: s.optional(s.string),
+  accessToken: s.optional(s.string),
+  refreshToken: s.optional(s.string),
+});
+
+export type OtpTarget = { channel: "phone"; phone: string } | { channel: "email"; email: string };
+
+export interface OtpChallenge {
+  // Seconds until another code may be requested / until this one expires
+  resendAfter?: number;
+  expiresIn?: number;
+}
+
+const verifyEmailResponse = s.object<{ user?: User }>({
+  user: s.optional(user),
+});
+
+const otpChallenge = s.object<OtpChallenge>({
+  resendAfter: s.optional(s.number),
+  expiresIn: s.optional(s.number),
+});
+
+export const authApi = {
+  login(credentials: { email: string; password: string }): Promise<AuthResponse> {
+    return post("/api/users/login", credentials, authResponse);
+  },
+
+  requestOtp(target: OtpTarget): Promise<OtpChallenge> {
+    return post("/api/users/otp/request", target, otpChallenge);
+  },
+
+  verifyOtp(target: OtpTarget, code: string): Promise<AuthResponse> {
+    return post("/api/users/otp/verify", { ...target, code }, authResponse);
+  },
+
+  // Always succeeds for well-formed emails so the form can't be used to probe accounts
+  forgotPassword(email: string): Promise<void> {
+    return send("POST", "/api/users/forgot-password", { email });
+  },
+
+  resetPassword(token: string, password: string): Promise<void> {
+    return send("POST", "/api/users/reset-password", { token, password });
+  },
+
+  // The backend may return the updated user when the link is opened while signed in
+  async verifyEmail(token: string): Promise<User | undefined> {
+    const data = await post("/api/users/verify-email", { token }, verifyEmailResponse);
+    return data.user;
+  },
+
+  resendVerificationEmail(): Promise<void> {
+    return send("POST", "/api/users/verify-email/resend");
+  },
+};
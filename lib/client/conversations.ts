@@ -0,0 +1,54 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { Conversation, MessageAttachment } from "../types";
+import { conversation, messageAttachment } from "./schemas";
+import { get, post, send, uploadWithProgress } from "./request";
+
+export type ConversationType = "ONLINE" | "OFFLINE";
+
+export interface SendMessageInput {
+  content: string;
+  messageType: string;
+  clientId?: string;
+  attachment?: MessageAttachment;
+}
+
+export const conversationsApi = {
+  list(params: { patientId: string }): Promise<Conversation[]> {
+    return get(withQuery("/api/conversations", params), s.list(conversation));
+  },
+
+  byAppointment(appointmentId: string): Promise<Conversation> {
+    return get(`/api/conversations/by-appointment/${appointmentId}`, conversation);
+  },
+
+  create(input: { appointmentId: string; conversationType: ConversationType }): Promise<Conversation> {
+    return post("/api/conversations", input, conversation);
+  },
+
+  sendMessage(conversationId: string, input: SendMessageInput): Promise<void> {
+    return send("POST", `/api/conversations/${conversationId}/messages`, input);
+  },
+
+  // Stores the file; the returned attachment is then sent with sendMessage
+  uploadAttachment(
+    conversationId: string,
+    file: Blob,
+    name: string,
+    onProgress?: (fraction: number) => void
+  ): Promise<MessageAttachment> {
+    const formData = new FormData();
+    formData.append("file", file, name);
+    return uploadWithProgress(
+      `/api/conversations/${conversationId}/attachments`,
+      formData,
+      messageAttachment,
+      onProgress,
+      "Failed to upload attachment"
+    );
+  },
+
+  remove(conversationId: string): Promise<void> {
+    return send("DELETE", `/api/conversations/${conversationId}`);
+  },
+};
@@ -0,0 +1,24 @@
+import * as s from "../schema";
+import type { Dependent } from "../types";
+import { dependent } from "./schemas";
+import { get, patch, post, send } from "./request";
+
+export type DependentInput = Omit<Dependent, "_id">;
+
+export const dependentsApi = {
+  list(): Promise<Dependent[]> {
+    return get("/api/users/me/dependents", s.list(dependent));
+  },
+
+  create(input: DependentInput): Promise<Dependent> {
+    return post("/api/users/me/dependents", input, dependent);
+  },
+
+  update(dependentId: string, input: Partial<DependentInput>): Promise<Dependent> {
+    return patch(`/api/users/me/dependents/${dependentId}`, input, dependent);
+  },
+
+  remove(dependentId: string): Promise<void> {
+    return send("DELETE", `/api/users/me/dependents/${dependentId}`);
+  },
+};
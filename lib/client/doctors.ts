@@ -0,0 +1,81 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { AppointmentChannel, Doctor, DoctorSummary, Hospital, HospitalSummary, Review } from "../types";
+import { doctor, doctorSummary, hospital, hospitalSummary, review } from "./schemas";
+import { get } from "./request";
+
+const doctorRecord = s.object<DoctorSummary & { _id: string }>({
+  _id: s.id,
+  name: s.string,
+  specialization: s.optional(s.string),
+});
+
+export const DOCTOR_SORTS = ["relevance", "fee_asc", "fee_desc", "rating", "experience", "next_available"] as const;
+export type DoctorSort = (typeof DOCTOR_SORTS)[number];
+
+export interface DoctorQuery {
+  search?: string;
+  specialization?: string;
+  hospitalId?: string;
+  minFee?: number;
+  maxFee?: number;
+  channel?: AppointmentChannel;
+  // Only doctors with a free slot today (in the clinic's timezone)
+  availableToday?: boolean;
+  sort?: DoctorSort;
+  limit?: number;
+  skip?: number;
+}
+
+export interface DoctorPage {
+  doctors: Doctor[];
+  total: number;
+}
+
+const doctorPage = s.object<DoctorPage>({
+  doctors: s.array(doctor),
+  total: s.number,
+});
+
+const reviewPage = s.object<{ reviews: Review[]; hasMore?: boolean }>({
+  reviews: s.array(review),
+  hasMore: s.optional(s.boolean),
+});
+
+export const doctorsApi = {
+  directory(query: DoctorQuery): Promise<DoctorPage> {
+    return get(withQuery("/api/public/doctors/directory", { ...query }), doctorPage);
+  },
+
+  // Public profile, with the hospital joined in
+  get(doctorId: string): Promise<Doctor> {
+    return get(`/api/public/doctors/${doctorId}`, doctor);
+  },
+
+  reviews(doctorId: string, params: { limit?: number; skip?: number } = {}): Promise<{ reviews: Review[]; hasMore?: boolean }> {
+    return get(withQuery(`/api/public/doctors/${doctorId}/reviews`, params), reviewPage);
+  },
+
+  // Doctor profile from the users collection (name/specialization only)
+  summary(doctorId: string): Promise<DoctorSummary> {
+    return get(`/api/users/${doctorId}`, doctorSummary);
+  },
+
+  summaries(doctorIds: string[]): Promise<Array<DoctorSummary & { _id: string }>> {
+    return get(withQuery("/api/users", { ids: doctorIds.join(",") }), s.list(doctorRecord));
+  },
+};
+
+export const hospitalsApi = {
+  list(): Promise<Hospital[]> {
+    return get("/api/public/hospitals", s.list(hospital));
+  },
+
+  summary(hospitalId: string): Promise<HospitalSummary> {
+    return get(`/api/master/hospitals/${hospitalId}`, hospitalSummary);
+  },
+
+  getMany(hospitalIds: string[]): Promise<Hospital[]> {
+    return get(withQuery("/api/master/hospitals", { ids: hospitalIds.join(",") }), s.list(hospital));
+  },
+};
@@ -0,0 +1,10 @@
+import { withQuery } from "../api";
+import type { FinanceSummary } from "../types";
+import { financeSummary } from "./schemas";
+import { get } from "./request";
+
+export const financeApi = {
+  summary(params: { patientId: string }): Promise<FinanceSummary> {
+    return get(withQuery("/api/finance/summary", params), financeSummary);
+  },
+};
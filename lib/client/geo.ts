@@ -0,0 +1,19 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { GeoPoint } from "../types";
+import { get } from "./request";
+
+export type GeocodeResult = GeoPoint & { displayName?: string };
+
+const geocodeResult = s.object<GeocodeResult>({
+  latitude: s.number,
+  longitude: s.number,
+  displayName: s.optional(s.string),
+});
+
+export const geoApi = {
+  // Backend-proxied geocoder; best matches first
+  geocode(query: string): Promise<GeocodeResult[]> {
+    return get(withQuery("/api/geo/geocode", { q: query }), s.list(geocodeResult));
+  },
+};
@@ -0,0 +1,36 @@
+// Typed resource client: one module per backend resource, responses
+// validated against the shared types in lib/types.ts
+export { addressesApi } from "./addresses";
+export type { AddressInput } from "./addresses";
+export { appointmentsApi } from "./appointments";
+export type { CreateAppointmentInput } from "./appointments";
+export { authApi } from "./auth";
+export type { AuthResponse, OtpChallenge, OtpTarget } from "./auth";
+export { conversationsApi } from "./conversations";
+export type { ConversationType, SendMessageInput } from "./conversations";
+export { dependentsApi } from "./dependents";
+export type { DependentInput } from "./dependents";
+export { DOCTOR_SORTS, doctorsApi, hospitalsApi } from "./doctors";
+export type { DoctorPage, DoctorQuery, DoctorSort } from "./doctors";
+export { financeApi } from "./finance";
+export { geoApi } from "./geo";
+export type { GeocodeResult } from "./geo";
+export { invoicesApi } from "./invoices";
+export { queryKeys } from "./keys";
+export { appointmentLoader, doctorLoader, hospitalLoader, pharmacyLoader } from "./loaders";
+export { notificationsApi } from "./notifications";
+export { ordersApi } from "./orders";
+export type { CreateMedicineOrderInput, CreateOrderInput, OrderAddress } from "./orders";
+export { paymentsApi } from "./payments";
+export type { CreatePaymentIntentInput, PaymentConfirmation } from "./payments";
+export { pharmaciesApi } from "./pharmacies";
+export { prescriptionsApi } from "./prescriptions";
+export { productsApi } from "./products";
+export type { ProductQuery } from "./products";
+export { profileApi } from "./profile";
+export type { UpdateProfileInput } from "./profile";
+export { reportRequestsApi } from "./reportRequests";
+export { reviewsApi } from "./reviews";
+export type { ReviewInput } from "./reviews";
+export { schedulesApi } from "./schedules";
+export { uploadsApi } from "./uploads";
@@ -0,0 +1,7 @@
+import { download } from "./request";
+
+export const invoicesApi = {
+  orderInvoice(orderId: string): Promise<Blob> {
+    return download(`/api/invoices/order/${orderId}`, "Failed to generate invoice");
+  },
+};
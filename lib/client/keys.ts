@@ -0,0 +1,23 @@
+import { withQuery } from "../api";
+import type { DoctorQuery } from "./doctors";
+
+// Cache keys for lib/queryCache: the endpoint each query reads, so socket
+// invalidation in lib/socket.ts can target a resource by path prefix
+export const queryKeys = {
+  notifications: () => "/api/notifications/my",
+  profile: () => "/api/users/me",
+  dependents: () => "/api/users/me/dependents",
+  addresses: () => "/api/users/me/addresses",
+  appointments: (patientId: string) => withQuery("/api/appointments", { patientId }),
+  prescriptions: (params: { patientId?: string; appointmentId?: string }) =>
+    withQuery("/api/prescriptions", params),
+  conversations: (patientId: string) => withQuery("/api/conversations", { patientId }),
+  orders: (patientId: string) => withQuery("/api/orders", { patientId }),
+  doctorDirectory: (query: DoctorQuery) => withQuery("/api/public/doctors/directory", { ...query }),
+  doctor: (doctorId: string) => `/api/public/doctors/${doctorId}`,
+  doctorReviews: (doctorId: string) => `/api/public/doctors/${doctorId}/reviews`,
+  myReviews: () => "/api/reviews/my",
+  hospitals: () => "/api/public/hospitals",
+  availability: (params: { doctorId: string; from: string; to: string; hospitalId?: string }) =>
+    withQuery("/api/schedules/availability", params),
+};
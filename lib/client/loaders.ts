@@ -0,0 +1,36 @@
+import { createBatchLoader } from "../batchLoader";
+import type { Appointment, DoctorSummary, HospitalSummary, Pharmacy } from "../types";
+import { appointmentsApi } from "./appointments";
+import { doctorsApi, hospitalsApi } from "./doctors";
+import { pharmaciesApi } from "./pharmacies";
+
+// Batched lookups for enriching lists (records, transcripts, orders) with
+// related entities in one request per entity type instead of one per row
+
+export const doctorLoader = createBatchLoader<DoctorSummary & { _id?: string }>({
+  name: "doctor",
+  loadMany: (ids) => doctorsApi.summaries(ids),
+  loadOne: (id) => doctorsApi.summary(id).then((doctor) => ({ ...doctor, _id: id })),
+  getId: (doctor) => doctor._id ?? "",
+});
+
+export const appointmentLoader = createBatchLoader<Appointment>({
+  name: "appointment",
+  loadMany: (ids) => appointmentsApi.getMany(ids),
+  loadOne: (id) => appointmentsApi.get(id),
+  getId: (appointment) => appointment._id,
+});
+
+export const hospitalLoader = createBatchLoader<HospitalSummary & { _id?: string }>({
+  name: "hospital",
+  loadMany: (ids) => hospitalsApi.getMany(ids),
+  loadOne: (id) => hospitalsApi.summary(id).then((hospital) => ({ ...hospital, _id: id })),
+  getId: (hospital) => hospital._id ?? "",
+});
+
+export const pharmacyLoader = createBatchLoader<Pharmacy>({
+  name: "pharmacy",
+  loadMany: (ids) => pharmaciesApi.getMany(ids),
+  loadOne: (id) => pharmaciesApi.get(id),
+  getId: (pharmacy) => pharmacy._id,
+});
@@ -0,0 +1,14 @@
+import * as s from "../schema";
+import type { Notification } from "../types";
+import { notification } from "./schemas";
+import { get, send } from "./request";
+
+export const notificationsApi = {
+  mine(): Promise<Notification[]> {
+    return get("/api/notifications/my", s.list(notification));
+  },
+
+  markAsRead(notificationId: string): Promise<void> {
+    return send("PATCH", `/api/notifications/${notificationId}/read`);
+  },
+};
@@ -0,0 +1,75 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { Address, DeliveryType, GeoPoint, Order, OrderItem, PaymentMethod } from "../types";
+import { order } from "./schemas";
+import { get, post, send } from "./request";
+
+export interface CreateOrderInput {
+  pharmacyId: string;
+  prescriptionId?: string;
+  patientId: string;
+  items: OrderItem[];
+  deliveryType: DeliveryType;
+  patientLocation?: GeoPoint;
+}
+
+// Structured copy of the delivery address sent alongside the display string
+export type OrderAddress = Omit<Address, "_id" | "isDefault"> & { addressId?: string };
+
+export interface CreateMedicineOrderInput {
+  patientId?: string;
+  pharmacyId: string;
+  items: OrderItem[];
+  status?: string;
+  deliveryType: DeliveryType;
+  deliveryAddress?: string;
+  deliveryAddressDetails?: OrderAddress;
+  address?: string;
+  phoneNumber: string;
+  totalAmount: number;
+  deliveryCharge: number;
+  prescriptionImageUrl?: string | null;
+  patientLocation?: GeoPoint;
+  pharmacyLocation?: GeoPoint;
+  paymentMethod?: PaymentMethod;
+  // Absent for cash orders, which are paid on delivery/pickup
+  paymentIntentId?: string;
+}
+
+// The create endpoints only promise an id back
+const createdOrder = s.object<{ _id?: string; id?: string }>({
+  _id: s.optional(s.id),
+  id: s.optional(s.id),
+});
+
+export const ordersApi = {
+  mine(): Promise<Order[]> {
+    return get("/api/orders/my", s.list(order));
+  },
+
+  list(params: { patientId: string }): Promise<Order[]> {
+    return get(withQuery("/api/orders", params), s.list(order));
+  },
+
+  get(orderId: string): Promise<Order> {
+    return get(`/api/orders/${orderId}`, order);
+  },
+
+  create(input: CreateOrderInput): Promise<void> {
+    return send("POST", "/api/orders", input);
+  },
+
+  async createMedicineOrder(input: CreateMedicineOrderInput, idempotencyKey?: string): Promise<string | undefined> {
+    const created = await post(
+      "/api/orders/medicine-order",
+      input,
+      createdOrder,
+      idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined
+    );
+    return created._id || created.id;
+  },
+
+  remove(orderId: string): Promise<void> {
+    return send("DELETE", `/api/orders/${orderId}`);
+  },
+};
@@ -0,0 +1,48 @@
+import { apiFetch, toApiError } from "../api";
+import type { PaymentIntent, PaymentMethod, PaymentPurpose, PaymentStatus } from "../types";
+import { paymentIntent } from "./schemas";
+import { get, post } from "./request";
+
+export interface CreatePaymentIntentInput {
+  provider: string;
+  purpose: PaymentPurpose;
+  amount: number;
+  currency?: string;
+  method?: PaymentMethod;
+  patientId?: string;
+}
+
+// What the provider reported back to the page; the backend verifies it with
+// the gateway before moving the intent on
+export interface PaymentConfirmation {
+  status: Extract<PaymentStatus, "SUCCEEDED" | "PENDING" | "FAILED">;
+  providerReference?: string;
+  failureReason?: string;
+}
+
+export const paymentsApi = {
+  // Replaying the same Idempotency-Key returns the original intent instead of a new one
+  createIntent(input: CreatePaymentIntentInput, idempotencyKey: string): Promise<PaymentIntent> {
+    return post("/api/payments/intents", input, paymentIntent, { "Idempotency-Key": idempotencyKey });
+  },
+
+  get(intentId: string): Promise<PaymentIntent> {
+    return get(`/api/payments/intents/${intentId}`, paymentIntent);
+  },
+
+  confirm(intentId: string, confirmation: PaymentConfirmation): Promise<PaymentIntent> {
+    return post(`/api/payments/intents/${intentId}/confirm`, confirmation, paymentIntent);
+  },
+
+  // Voids an intent nothing was booked against; the backend refunds it when it
+  // was already captured. keepalive lets it finish while the page is closing.
+  async cancel(intentId: string, options: { keepalive?: boolean } = {}): Promise<void> {
+    const response = await apiFetch(`/api/payments/intents/${intentId}/cancel`, {
+      method: "POST",
+      keepalive: options.keepalive,
+    });
+    if (!response.ok && response.status !== 404) {
+      throw await toApiError(response, "Failed to cancel payment");
+    }
+  },
+};
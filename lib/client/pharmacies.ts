@@ -0,0 +1,19 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { Pharmacy } from "../types";
+import { pharmacy } from "./schemas";
+import { get } from "./request";
+
+export const pharmaciesApi = {
+  list(): Promise<Pharmacy[]> {
+    return get("/api/public/pharmacies", s.list(pharmacy));
+  },
+
+  get(pharmacyId: string): Promise<Pharmacy> {
+    return get(`/api/master/pharmacies/${pharmacyId}`, pharmacy);
+  },
+
+  getMany(pharmacyIds: string[]): Promise<Pharmacy[]> {
+    return get(withQuery("/api/master/pharmacies", { ids: pharmacyIds.join(",") }), s.list(pharmacy));
+  },
+};
@@ -0,0 +1,27 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { Prescription, PrescriptionDocument } from "../types";
+import { prescription, prescriptionDocument } from "./schemas";
+import { get, send } from "./request";
+
+export const prescriptionsApi = {
+  list(params: { patientId?: string; appointmentId?: string }): Promise<Prescription[]> {
+    return get(withQuery("/api/prescriptions", params), s.list(prescription));
+  },
+
+  listByPatient(patientId: string): Promise<Prescription[]> {
+    return get(`/api/prescriptions/by-patient/${patientId}`, s.list(prescription));
+  },
+
+  get(prescriptionId: string): Promise<Prescription> {
+    return get(`/api/prescriptions/${prescriptionId}`, prescription);
+  },
+
+  document(prescriptionId: string, hospitalId?: string): Promise<PrescriptionDocument> {
+    return get(withQuery(`/api/prescriptions/${prescriptionId}/document`, { hospitalId }), prescriptionDocument);
+  },
+
+  remove(prescriptionId: string): Promise<void> {
+    return send("DELETE", `/api/prescriptions/${prescriptionId}`);
+  },
+};
@@ -0,0 +1,42 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { CompositionSearchResult, Product, ProductCategory } from "../types";
+import { compositionSearchResult, product, productCategory } from "./schemas";
+import { get } from "./request";
+
+export interface ProductQuery {
+  category?: string;
+  search?: string;
+  minPrice?: string;
+  maxPrice?: string;
+  prescriptionRequired?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  limit?: number;
+  skip?: number;
+}
+
+const productPage = s.object<{ products: Product[]; hasMore?: boolean }>({
+  products: s.array(product),
+  hasMore: s.optional(s.boolean),
+});
+
+const categoryList = s.object<{ categories: ProductCategory[] }>({
+  categories: s.array(productCategory),
+});
+
+export const productsApi = {
+  list(query: ProductQuery): Promise<{ products: Product[]; hasMore?: boolean }> {
+    return get(withQuery("/api/public/products", { ...query }), productPage);
+  },
+
+  async categories(): Promise<ProductCategory[]> {
+    const data = await get("/api/public/products/categories/list", categoryList);
+    return data.categories;
+  },
+
+  byComposition(query: { search: string; latitude?: number; longitude?: number; radius?: number }): Promise<CompositionSearchResult> {
+    return get(withQuery("/api/public/products/by-composition", query), compositionSearchResult);
+  },
+};
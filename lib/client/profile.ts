@@ -0,0 +1,17 @@
+import type { PatientProfile } from "../types";
+import { patientProfile } from "./schemas";
+import { get, patch } from "./request";
+
+export type UpdateProfileInput = Partial<
+  Pick<PatientProfile, "name" | "phone" | "dateOfBirth" | "gender" | "bloodGroup" | "allergies">
+>;
+
+export const profileApi = {
+  get(): Promise<PatientProfile> {
+    return get("/api/users/me", patientProfile);
+  },
+
+  update(input: UpdateProfileInput): Promise<PatientProfile> {
+    return patch("/api/users/me", input, patientProfile);
+  },
+};
@@ -0,0 +1,17 @@
+import { withQuery } from "../api";
+import * as s from "../schema";
+import type { ReportRequest } from "../types";
+import { reportRequest } from "./schemas";
+import { get, upload } from "./request";
+
+export const reportRequestsApi = {
+  list(params: { patientId: string }): Promise<ReportRequest[]> {
+    return get(withQuery("/api/report-requests", params), s.list(reportRequest));
+  },
+
+  async upload(requestId: string, file: File): Promise<void> {
+    const formData = new FormData();
+    formData.append("file", file);
+    await upload("PATCH", `/api/report-requests/${requestId}/upload`, formData, s.unknown, "Failed to upload report");
+  },
+};
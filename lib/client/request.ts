@@ -0,0 +1,82 @@
+// Validated wrappers around the lib/api helpers
+import { apiDelete, apiFetch, apiGet, apiPatch, apiPost, apiPut, apiUpload, toApiError } from "../api";
+import { parse, Schema } from "../schema";
+
+export async function get<T>(endpoint: string, schema: Schema<T>): Promise<T> {
+  return parse(schema, await apiGet(endpoint), endpoint);
+}
+
+export async function post<T>(
+  endpoint: string,
+  body: unknown,
+  schema: Schema<T>,
+  headers?: Record<string, string>
+): Promise<T> {
+  return parse(schema, await apiPost(endpoint, body, headers), endpoint);
+}
+
+export async function put<T>(endpoint: string, body: unknown, schema: Schema<T>): Promise<T> {
+  return parse(schema, await apiPut(endpoint, body), endpoint);
+}
+
+export async function patch<T>(endpoint: string, body: unknown, schema: Schema<T>): Promise<T> {
+  return parse(schema, await apiPatch(endpoint, body), endpoint);
+}
+
+// Mutations whose response body pages don't read. Headers only apply to POST,
+// the one method that creates resources (and so takes an Idempotency-Key).
+export async function send(
+  method: "POST" | "PATCH" | "PUT" | "DELETE",
+  endpoint: string,
+  body?: unknown,
+  headers?: Record<string, string>
+): Promise<void> {
+  switch (method) {
+    case "POST":
+      await apiPost(endpoint, body, headers);
+      break;
+    case "PATCH":
+      await apiPatch(endpoint, body);
+      break;
+    case "PUT":
+      await apiPut(endpoint, body);
+      break;
+    case "DELETE":
+      await apiDelete(endpoint);
+      break;
+  }
+}
+
+// Multipart uploads (apiFetch lets the browser set the FormData boundary)
+export async function upload<T>(
+  method: "POST" | "PATCH",
+  endpoint: string,
+  formData: FormData,
+  schema: Schema<T>,
+  fallback = "Failed to upload"
+): Promise<T> {
+  const response = await apiFetch(endpoint, { method, body: formData });
+  if (!response.ok) {
+    throw await toApiError(response, fallback);
+  }
+  return parse(schema, await response.json().catch(() => ({})), endpoint);
+}
+
+// POST-only multipart upload that reports progress (0-1) as it goes
+export async function uploadWithProgress<T>(
+  endpoint: string,
+  formData: FormData,
+  schema: Schema<T>,
+  onProgress?: (fraction: number) => void,
+  fallback = "Failed to upload"
+): Promise<T> {
+  return parse(schema, await apiUpload(endpoint, formData, onProgress, fallback), endpoint);
+}
+
+export async function download(endpoint: string, fallback = "Failed to download"): Promise<Blob> {
+  const response = await apiFetch(endpoint, { method: "GET" });
+  if (!response.ok) {
+    throw await toApiError(response, fallback);
+  }
+  return response.blob();
+}
@@ -0,0 +1,31 @@
+import * as s from "../schema";
+import type { Review } from "../types";
+import { review } from "./schemas";
+import { get, patch, post, send } from "./request";
+
+export interface ReviewInput {
+  appointmentId: string;
+  rating: number;
+  tags?: string[];
+  comment?: string;
+}
+
+export const reviewsApi = {
+  // Reviews written by the signed-in account, for itself and its family members
+  mine(): Promise<Review[]> {
+    return get("/api/reviews/my", s.list(review));
+  },
+
+  // Only COMPLETED appointments can be reviewed, once each (409 otherwise)
+  create(input: ReviewInput): Promise<Review> {
+    return post("/api/reviews", input, review);
+  },
+
+  update(reviewId: string, input: Partial<Omit<ReviewInput, "appointmentId">>): Promise<Review> {
+    return patch(`/api/reviews/${reviewId}`, input, review);
+  },
+
+  remove(reviewId: string): Promise<void> {
+    return send("DELETE", `/api/reviews/${reviewId}`);
+  },
+};
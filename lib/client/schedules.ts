@@ -0,0 +1,32 @@
+import { apiFetch, toApiError, withQuery } from "../api";
+import * as s from "../schema";
+import type { DayAvailability, Slot, SlotHold } from "../types";
+import { dayAvailability, slot, slotHold } from "./schemas";
+import { get, post } from "./request";
+
+export const schedulesApi = {
+  availableSlots(params: { doctorId: string; date: string; hospitalId?: string }): Promise<Slot[]> {
+    return get(withQuery("/api/schedules/slots/available", params), s.list(slot));
+  },
+
+  // Per-day slot counts for `from`..`to` (inclusive "YYYY-MM-DD" days)
+  availability(params: { doctorId: string; from: string; to: string; hospitalId?: string }): Promise<DayAvailability[]> {
+    return get(withQuery("/api/schedules/availability", params), s.list(dayAvailability));
+  },
+
+  // Fails with 409 when the slot is already booked or held by someone else
+  holdSlot(slotId: string, params: { patientId?: string } = {}): Promise<SlotHold> {
+    return post(`/api/schedules/slots/${slotId}/hold`, params, slotHold);
+  },
+
+  // keepalive lets the release finish while the page is being closed
+  async releaseHold(holdId: string, options: { keepalive?: boolean } = {}): Promise<void> {
+    const response = await apiFetch(`/api/schedules/holds/${holdId}`, {
+      method: "DELETE",
+      keepalive: options.keepalive,
+    });
+    if (!response.ok && response.status !== 404) {
+      throw await toApiError(response, "Failed to release slot");
+    }
+  },
+};
@@ -0,0 +1,419 @@
+// Response schemas for the domain types in lib/types.ts
+import * as s from "../schema";
+import type {
+  Address,
+  Appointment,
+  CompositionBrand,
+  CompositionMatch,
+  CompositionSearchResult,
+  Conversation,
+  DayAvailability,
+  Dependent,
+  Doctor,
+  DoctorSummary,
+  FinanceEntry,
+  FinanceSummary,
+  GeoPoint,
+  Hospital,
+  HospitalSummary,
+  Message,
+  MessageAttachment,
+  Notification,
+  NotificationMetadata,
+  Order,
+  OrderItem,
+  PatientProfile,
+  PaymentIntent,
+  Pharmacy,
+  Prescription,
+  PrescriptionDocument,
+  PrescriptionItem,
+  Product,
+  ProductCategory,
+  ProductPharmacy,
+  Refund,
+  ReportRequest,
+  Review,
+  Slot,
+  SlotHold,
+  User,
+} from "../types";
+import { ADDRESS_LABELS, APPOINTMENT_CHANNELS, BLOOD_GROUPS, GENDERS, PAYMENT_METHODS, PAYMENT_PURPOSES, PAYMENT_STATUSES, REFUND_STATUSES, RELATIONSHIPS } from "../types";
+
+export const user = s.object<User>({
+  id: s.optional(s.id),
+  _id: s.optional(s.id),
+  name: s.string,
+  email: s.string,
+  role: s.optional(s.string),
+  phone: s.optional(s.string),
+  phoneVerified: s.optional(s.boolean),
+  emailVerified: s.optional(s.boolean),
+});
+
+export const patientProfile = s.object<PatientProfile>({
+  id: s.optional(s.id),
+  _id: s.optional(s.id),
+  name: s.string,
+  email: s.string,
+  role: s.optional(s.string),
+  phone: s.optional(s.string),
+  phoneVerified: s.optional(s.boolean),
+  emailVerified: s.optional(s.boolean),
+  dateOfBirth: s.optional(s.string),
+  gender: s.optional(s.oneOf(GENDERS)),
+  bloodGroup: s.optional(s.oneOf(BLOOD_GROUPS)),
+  allergies: s.optional(s.array(s.string)),
+});
+
+export const dependent = s.object<Dependent>({
+  _id: s.id,
+  name: s.string,
+  relationship: s.oneOf(RELATIONSHIPS),
+  dateOfBirth: s.optional(s.string),
+  gender: s.optional(s.oneOf(GENDERS)),
+  bloodGroup: s.optional(s.oneOf(BLOOD_GROUPS)),
+  allergies: s.optional(s.array(s.string)),
+});
+
+export const geoPoint = s.object<GeoPoint>({
+  latitude: s.number,
+  longitude: s.number,
+});
+
+export const address = s.object<Address>({
+  _id: s.id,
+  label: s.oneOf(ADDRESS_LABELS),
+  name: s.optional(s.string),
+  line1: s.string,
+  line2: s.optional(s.string),
+  landmark: s.optional(s.string),
+  city: s.string,
+  state: s.optional(s.string),
+  postalCode: s.string,
+  location: s.optional(geoPoint),
+  isDefault: s.optional(s.boolean),
+});
+
+export const doctorSummary = s.object<DoctorSummary>({
+  name: s.string,
+  specialization: s.optional(s.string),
+});
+
+export const hospitalSummary = s.object<HospitalSummary>({
+  name: s.string,
+  address: s.optional(s.string),
+  timezone: s.optional(s.string),
+});
+
+export const hospital = s.object<Hospital>({
+  _id: s.id,
+  name: s.string,
+  address: s.optional(s.string),
+  timezone: s.optional(s.string),
+});
+
+export const doctor = s.object<Doctor>({
+  _id: s.id,
+  id: s.optional(s.id),
+  name: s.string,
+  specialization: s.optional(s.string),
+  qualification: s.optional(s.string),
+  serviceCharge: s.optional(s.number),
+  hospitalId: s.optional(s.id),
+  channels: s.optional(s.array(s.oneOf(APPOINTMENT_CHANNELS))),
+  experienceYears: s.optional(s.number),
+  languages: s.optional(s.array(s.string)),
+  about: s.optional(s.string),
+  rating: s.optional(s.number),
+  reviewCount: s.optional(s.number),
+  nextAvailableAt: s.optional(s.string),
+  hospital: s.optional(hospitalSummary),
+});
+
+export const review = s.object<Review>({
+  _id: s.id,
+  doctorId: s.id,
+  appointmentId: s.id,
+  patientId: s.id,
+  patientName: s.optional(s.string),
+  rating: s.number,
+  tags: s.optional(s.array(s.string)),
+  comment: s.optional(s.string),
+  createdAt: s.string,
+  updatedAt: s.optional(s.string),
+});
+
+export const refund = s.object<Refund>({
+  _id: s.id,
+  status: s.oneOf(REFUND_STATUSES),
+  amount: s.number,
+  currency: s.optional(s.string),
+  paymentIntentId: s.optional(s.id),
+  reason: s.optional(s.string),
+  failureReason: s.optional(s.string),
+  initiatedAt: s.optional(s.string),
+  completedAt: s.optional(s.string),
+  expectedBy: s.optional(s.string),
+});
+
+export const appointment = s.object<Appointment>({
+  _id: s.id,
+  hospitalId: s.optional(s.id),
+  doctorId: s.id,
+  patientId: s.id,
+  status: s.string,
+  patientName: s.optional(s.string),
+  age: s.optional(s.number),
+  address: s.optional(s.string),
+  issue: s.optional(s.string),
+  scheduledAt: s.string,
+  channel: s.string,
+  doctor: s.optional(doctorSummary),
+  hospital: s.optional(hospitalSummary),
+  paymentStatus: s.optional(s.oneOf(PAYMENT_STATUSES)),
+  refund: s.optional(refund),
+});
+
+export const slot = s.object<Slot>({
+  _id: s.id,
+  startTime: s.string,
+  endTime: s.string,
+  isBooked: s.boolean,
+  date: s.string,
+});
+
+export const dayAvailability = s.object<DayAvailability>({
+  date: s.string,
+  totalSlots: s.number,
+  availableSlots: s.number,
+});
+
+export const slotHold = s.object<SlotHold>({
+  _id: s.id,
+  slotId: s.id,
+  expiresAt: s.string,
+  ttlSeconds: s.optional(s.number),
+});
+
+export const prescriptionItem = s.object<PrescriptionItem>({
+  medicineName: s.string,
+  dosage: s.string,
+  frequency: s.string,
+  duration: s.string,
+  notes: s.optional(s.string),
+});
+
+export const prescription = s.object<Prescription>({
+  _id: s.id,
+  appointmentId: s.id,
+  doctorId: s.id,
+  patientId: s.optional(s.id),
+  items: s.array(prescriptionItem),
+  suggestions: s.optional(s.string),
+  notes: s.optional(s.string),
+  createdAt: s.string,
+});
+
+export const prescriptionDocument = s.object<PrescriptionDocument>({
+  rendered: s.string,
+  template: s.string,
+});
+
+export const messageAttachment = s.object<MessageAttachment>({
+  url: s.string,
+  name: s.string,
+  mimeType: s.string,
+  size: s.number,
+  duration: s.optional(s.number),
+});
+
+export const message = s.object<Message>({
+  _id: s.optional(s.id),
+  clientId: s.optional(s.string),
+  senderId: s.id,
+  senderRole: s.string,
+  content: s.string,
+  messageType: s.string,
+  timestamp: s.string,
+  readAt: s.optional(s.string),
+  attachment: s.optional(messageAttachment),
+});
+
+export const conversation = s.object<Conversation>({
+  _id: s.id,
+  appointmentId: s.id,
+  messages: s.array(message),
+  summary: s.optional(s.string),
+  startedAt: s.string,
+  endedAt: s.optional(s.string),
+  isActive: s.optional(s.boolean),
+});
+
+export const reportRequest = s.object<ReportRequest>({
+  _id: s.id,
+  reportType: s.string,
+  description: s.optional(s.string),
+  requestedAt: s.string,
+  status: s.string,
+});
+
+export const notificationMetadata = s.object<NotificationMetadata>({
+  appointmentId: s.optional(s.id),
+  prescriptionId: s.optional(s.id),
+  orderId: s.optional(s.id),
+  amount: s.optional(s.number),
+});
+
+export const notification = s.object<Notification>({
+  _id: s.id,
+  type: s.string,
+  title: s.string,
+  message: s.string,
+  patientId: s.optional(s.id),
+  createdAt: s.string,
+  metadata: s.optional(notificationMetadata),
+  status: s.optional(s.string),
+});
+
+export const pharmacy = s.object<Pharmacy>({
+  _id: s.id,
+  name: s.string,
+  address: s.string,
+  phone: s.optional(s.string),
+  latitude: s.optional(s.number),
+  longitude: s.optional(s.number),
+  distance: s.optional(s.number),
+});
+
+
+export const orderItem = s.object<OrderItem>({
+  medicineName: s.string,
+  quantity: s.number,
+});
+
+export const order = s.object<Order>({
+  _id: s.id,
+  patientId: s.optional(s.id),
+  pharmacyId: s.id,
+  status: s.string,
+  items: s.array(orderItem),
+  totalAmount: s.optional(s.number),
+  deliveryCharge: s.optional(s.number),
+  deliveryType: s.string,
+  deliveryAddress: s.optional(s.string),
+  phoneNumber: s.optional(s.string),
+  createdAt: s.string,
+  deliveryLocation: s.optional(
+    s.object<GeoPoint & { timestamp?: string }>({
+      latitude: s.number,
+      longitude: s.number,
+      timestamp: s.optional(s.string),
+    })
+  ),
+  pharmacyLocation: s.optional(geoPoint),
+  patientLocation: s.optional(geoPoint),
+  deliveryPersonName: s.optional(s.string),
+  deliveryPersonPhone: s.optional(s.string),
+  estimatedDeliveryTime: s.optional(s.string),
+  deliveredAt: s.optional(s.string),
+  pharmacy: s.optional(
+    s.object<{ name: string; address?: string }>({
+      name: s.string,
+      address: s.optional(s.string),
+    })
+  ),
+  paymentMethod: s.optional(s.oneOf(PAYMENT_METHODS)),
+  paymentStatus: s.optional(s.oneOf(PAYMENT_STATUSES)),
+  refund: s.optional(refund),
+});
+
+export const paymentIntent = s.object<PaymentIntent>({
+  _id: s.id,
+  provider: s.string,
+  purpose: s.oneOf(PAYMENT_PURPOSES),
+  amount: s.number,
+  currency: s.string,
+  status: s.oneOf(PAYMENT_STATUSES),
+  method: s.optional(s.oneOf(PAYMENT_METHODS)),
+  clientSecret: s.optional(s.string),
+  providerReference: s.optional(s.string),
+  failureReason: s.optional(s.string),
+  createdAt: s.optional(s.string),
+});
+
+export const financeEntry = s.object<FinanceEntry>({
+  _id: s.id,
+  type: s.string,
+  amount: s.number,
+  occurredAt: s.string,
+  patientId: s.optional(s.id),
+  direction: s.optional(s.oneOf(["DEBIT", "CREDIT"] as const)),
+  meta: s.optional(
+    s.object<NonNullable<FinanceEntry["meta"]>>({
+      orderId: s.optional(s.id),
+      appointmentId: s.optional(s.id),
+      refundId: s.optional(s.id),
+      refundStatus: s.optional(s.oneOf(REFUND_STATUSES)),
+    })
+  ),
+});
+
+export const financeSummary = s.object<FinanceSummary>({
+  entries: s.optional(s.array(financeEntry)),
+});
+
+export const productPharmacy = s.object<ProductPharmacy>({
+  _id: s.id,
+  name: s.string,
+  address: s.optional(s.string),
+  phone: s.optional(s.string),
+  distance: s.optional(s.number),
+});
+
+export const product = s.object<Product>({
+  _id: s.id,
+  medicineName: s.string,
+  composition: s.string,
+  brandName: s.optional(s.string),
+  category: s.optional(s.string),
+  sellingPrice: s.number,
+  mrp: s.optional(s.number),
+  discount: s.optional(s.number),
+  quantity: s.number,
+  imageUrl: s.optional(s.string),
+  description: s.optional(s.string),
+  prescriptionRequired: s.optional(s.boolean),
+  daysUntilExpiry: s.optional(s.number),
+  pharmacy: s.optional(productPharmacy),
+});
+
+export const productCategory = s.object<ProductCategory>({
+  value: s.string,
+  label: s.string,
+  icon: s.string,
+  description: s.string,
+});
+
+const compositionBrand = s.object<CompositionBrand>({
+  inventoryItemId: s.id,
+  brandName: s.string,
+  batchNumber: s.optional(s.string),
+  expiryDate: s.optional(s.string),
+  daysUntilExpiry: s.optional(s.number),
+  availableQuantity: s.number,
+  sellingPrice: s.number,
+  mrp: s.number,
+  pharmacy: s.optional(productPharmacy),
+});
+
+const compositionMatch = s.object<CompositionMatch>({
+  composition: s.string,
+  medicineName: s.string,
+  brands: s.array(compositionBrand),
+});
+
+export const compositionSearchResult = s.object<CompositionSearchResult>({
+  compositions: s.array(compositionMatch),
+  query: s.string,
+});
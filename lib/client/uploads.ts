@@ -0,0 +1,17 @@
+import * as s from "../schema";
+import { upload } from "./request";
+
+const uploadedFile = s.object<{ url?: string; fileUrl?: string }>({
+  url: s.optional(s.string),
+  fileUrl: s.optional(s.string),
+});
+
+export const uploadsApi = {
+  // Returns the stored file URL, or null when the backend doesn't report one
+  async prescription(file: File): Promise<string | null> {
+    const formData = new FormData();
+    formData.append("file", file);
+    const data = await upload("POST", "/api/public/upload/prescription", formData, uploadedFile, "Failed to upload prescription");
+    return data.url || data.fileUrl || null;
+  },
+};
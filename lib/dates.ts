@@ -0,0 +1,82 @@
+// Calendar-day helpers for booking. Days are "YYYY-MM-DD" keys in a given
+// timezone: toISOString() gives the UTC day, which is off by one for anyone
+// far enough east or west of UTC, and new Date("YYYY-MM-DD") parses as UTC
+// midnight for the same reason.
+
+export function getPatientTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// The calendar day `date` falls on in `timeZone` (the browser's by default)
+export function toDateKey(date: Date, timeZone?: string): string {
+  return date.toLocaleDateString("en-CA", { timeZone });
+}
+
+export function todayKey(): string {
+  return toDateKey(new Date());
+}
+
+// Local midnight of the day, for date arithmetic and display
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+// Whole days from one day key to another; negative when `toKey` is earlier
+export function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export function formatDateKey(key: string, options: Intl.DateTimeFormatOptions): string {
+  return parseDateKey(key).toLocaleDateString("en-US", options);
+}
+
+// "YYYY-MM" month the day belongs to
+export function toMonthKey(key: string): string {
+  return key.slice(0, 7);
+}
+
+export function addMonths(monthKey: string, months: number): string {
+  const [year, month] = monthKey.split("-").map(Number);
+  return toDateKey(new Date(year, month - 1 + months, 1)).slice(0, 7);
+}
+
+// Day keys for a Sunday-first month grid, padded with the neighbouring
+// months' days so every week is complete
+export function getMonthGrid(monthKey: string): string[][] {
+  const first = parseDateKey(`${monthKey}-01`);
+  let day = addDays(`${monthKey}-01`, -first.getDay());
+  const weeks: string[][] = [];
+  do {
+    const week: string[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(day);
+      day = addDays(day, 1);
+    }
+    weeks.push(week);
+  } while (toMonthKey(day) === monthKey);
+  return weeks;
+}
+
+export function formatTime(iso: string, timeZone?: string): string {
+  return new Date(iso).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", timeZone });
+}
+
+// Short zone label such as "IST" or "GMT+5:30"
+export function formatTimeZoneName(timeZone: string, at: Date = new Date()): string {
+  const part = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(at)
+    .find((p) => p.type === "timeZoneName");
+  return part?.value ?? timeZone;
+}
+
+// Whether two zones currently show the same wall-clock time
+export function isSameTimeZone(a: string, b: string, at: Date = new Date()): boolean {
+  return formatTime(at.toISOString(), a) === formatTime(at.toISOString(), b);
+}
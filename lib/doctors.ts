@@ -0,0 +1,97 @@
+"use client";
+
+import { doctorsApi, hospitalsApi, queryKeys } from "./client";
+import type { DoctorQuery, DoctorSort } from "./client";
+import { addDays, formatDateKey, formatTime, toDateKey, todayKey } from "./dates";
+import { useQuery } from "./queryCache";
+import type { Doctor, Hospital } from "./types";
+
+// Common specializations, offered as quick filters in the directory
+export const SPECIALIZATIONS = [
+  "Cardiologist",
+  "Dermatologist",
+  "Neurologist",
+  "Orthopedic",
+  "Pediatrician",
+  "Gynecologist",
+  "Psychiatrist",
+  "General Physician",
+  "Dentist",
+  "Ophthalmologist",
+  "ENT Specialist",
+  "Gastroenterologist",
+  "Urologist",
+  "Oncologist",
+  "Endocrinologist",
+];
+
+export const DOCTOR_SORT_LABELS: Record<DoctorSort, string> = {
+  relevance: "Relevance",
+  fee_asc: "Fee: low to high",
+  fee_desc: "Fee: high to low",
+  rating: "Highest rated",
+  experience: "Most experienced",
+  next_available: "Earliest available",
+};
+
+// Used when a doctor record has no fee set
+export const DEFAULT_CONSULTATION_FEE = 500;
+
+const NO_HOSPITALS: Hospital[] = [];
+
+// Hospitals change rarely; one list serves the directory filter and the name
+// lookups for every doctor card
+export function useHospitals() {
+  const { data, isLoading } = useQuery(queryKeys.hospitals(), () => hospitalsApi.list(), {
+    staleTime: 10 * 60 * 1000,
+  });
+  return { hospitals: data ?? NO_HOSPITALS, isLoading };
+}
+
+export function useDoctorDirectory(query: DoctorQuery) {
+  const { data, error, isLoading } = useQuery(queryKeys.doctorDirectory(query), () => doctorsApi.directory(query));
+  return { doctors: data?.doctors, total: data?.total ?? 0, error, isLoading };
+}
+
+export function useDoctor(doctorId: string | null) {
+  const { data, error, isLoading, refetch } = useQuery(doctorId ? queryKeys.doctor(doctorId) : null, () =>
+    doctorsApi.get(doctorId!)
+  );
+  return { doctor: data, error, isLoading, refetch };
+}
+
+export function useDoctorReviews(doctorId: string | null) {
+  const { data, isLoading } = useQuery(doctorId ? queryKeys.doctorReviews(doctorId) : null, () =>
+    doctorsApi.reviews(doctorId!, { limit: 20 })
+  );
+  return { reviews: data?.reviews, hasMore: data?.hasMore ?? false, isLoading };
+}
+
+// Fills in `hospital` from the hospital list for records that only carry hospitalId
+export function withHospital(doctor: Doctor, hospitals: Hospital[]): Doctor {
+  if (doctor.hospital || !doctor.hospitalId) return doctor;
+  const hospital = hospitals.find((h) => h._id === doctor.hospitalId);
+  return hospital ? { ...doctor, hospital } : doctor;
+}
+
+export function getConsultationFee(doctor: Doctor): number {
+  return doctor.serviceCharge || DEFAULT_CONSULTATION_FEE;
+}
+
+export function formatRating(doctor: Doctor): string | null {
+  if (!doctor.rating || !doctor.reviewCount) return null;
+  return `${doctor.rating.toFixed(1)} (${doctor.reviewCount} ${doctor.reviewCount === 1 ? "review" : "reviews"})`;
+}
+
+// "Today, 10:30 AM", "Tomorrow, 09:00 AM" or "Wed, Oct 23, 04:15 PM"
+export function formatNextAvailable(iso: string): string {
+  const day = toDateKey(new Date(iso));
+  const today = todayKey();
+  const label =
+    day === today
+      ? "Today"
+      : day === addDays(today, 1)
+        ? "Tomorrow"
+        : formatDateKey(day, { weekday: "short", month: "short", day: "numeric" });
+  return `${label}, ${formatTime(iso)}`;
+}
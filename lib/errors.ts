@@ -0,0 +1,71 @@
+// Typed errors thrown by the API layer
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly data: unknown;
+  // Seconds from the Retry-After header, when the backend sends one
+  readonly retryAfter?: number;
+
+  constructor(message: string, status: number, data?: unknown, retryAfter?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+    this.retryAfter = retryAfter;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  // e.g. the slot was booked or held by someone else first
+  get isConflict(): boolean {
+    return this.status === 409;
+  }
+}
+
+export class NetworkError extends Error {
+  readonly isNetworkError = true;
+  readonly originalError: unknown;
+
+  constructor(message: string, originalError?: unknown) {
+    super(message);
+    this.name = "NetworkError";
+    this.originalError = originalError;
+  }
+}
+
+// Thrown when a response does not match the shape the client expects,
+// so backend changes surface here instead of as undefined fields in pages.
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(endpoint: string, path: string, expected: string, received: unknown) {
+    super(`Unexpected response from ${endpoint}: expected ${expected} at ${path}, got ${describe(received)}`);
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export function getErrorMessage(error: unknown, fallback = "Unknown error"): string {
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
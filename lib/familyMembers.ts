@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { dependentsApi, queryKeys } from "./client";
+import type { DependentInput } from "./client";
+import { getAge, useProfile } from "./profile";
+import { invalidateQueries, useQuery } from "./queryCache";
+import { useSession } from "./session";
+import type { BloodGroup, Dependent, Gender, Relationship } from "./types";
+
+// The account holder plus their dependents, and which of them the history pages
+// (records, appointments, transcripts) are currently showing. The selection is
+// remembered per browser; an id that no longer matches a member falls back to self.
+
+export interface FamilyMember {
+  // patientId for this member's appointments, prescriptions and orders
+  id: string;
+  name: string;
+  relationship: Relationship | "Self";
+  isSelf: boolean;
+  dateOfBirth?: string;
+  gender?: Gender;
+  bloodGroup?: BloodGroup;
+  allergies?: string[];
+}
+
+const ACTIVE_MEMBER_KEY = "activeMemberId";
+
+let activeMemberId: string | null | undefined;
+const listeners = new Set<() => void>();
+
+function getActiveMemberId(): string | null {
+  if (typeof window === "undefined") return null;
+  if (activeMemberId === undefined) {
+    activeMemberId = localStorage.getItem(ACTIVE_MEMBER_KEY);
+  }
+  return activeMemberId;
+}
+
+export function setActiveMemberId(memberId: string | null) {
+  activeMemberId = memberId;
+  if (memberId) {
+    localStorage.setItem(ACTIVE_MEMBER_KEY, memberId);
+  } else {
+    localStorage.removeItem(ACTIVE_MEMBER_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function toMember(dependent: Dependent): FamilyMember {
+  return { ...dependent, id: dependent._id, isSelf: false };
+}
+
+export function getMemberAge(member: FamilyMember | null | undefined): number | null {
+  return getAge(member?.dateOfBirth);
+}
+
+/** Self first, then dependents in the order the backend returns them. */
+export function useFamilyMembers() {
+  const { user, isAuthenticated } = useSession();
+  const { profile } = useProfile();
+  const { data: dependents, error, isLoading } = useQuery(isAuthenticated ? queryKeys.dependents() : null, () =>
+    dependentsApi.list()
+  );
+
+  const members = useMemo<FamilyMember[]>(() => {
+    const self = profile ?? user;
+    if (!self || !user) return [];
+    return [
+      {
+        id: user.id,
+        name: self.name,
+        relationship: "Self",
+        isSelf: true,
+        dateOfBirth: profile?.dateOfBirth,
+        gender: profile?.gender,
+        bloodGroup: profile?.bloodGroup,
+        allergies: profile?.allergies,
+      },
+      ...(dependents ?? []).map(toMember),
+    ];
+  }, [profile, user, dependents]);
+
+  return { members, dependents: dependents ?? [], isLoading, error };
+}
+
+/** The member whose history is being viewed, with a setter for the switcher. */
+export function useActiveMember() {
+  const { members, isLoading } = useFamilyMembers();
+  const selectedId = useSyncExternalStore(subscribe, getActiveMemberId, () => null);
+
+  // Wait for the dependents before falling back to self, so pages don't load the
+  // account holder's history first and then swap to the selected member's
+  const activeMember =
+    selectedId && isLoading ? null : (members.find((member) => member.id === selectedId) ?? members[0] ?? null);
+
+  const setActiveMember = useCallback((memberId: string) => {
+    const isSelf = members[0]?.id === memberId;
+    setActiveMemberId(isSelf ? null : memberId);
+  }, [members]);
+
+  return { activeMember, members, isLoading, setActiveMember };
+}
+
+export async function saveDependent(input: DependentInput, dependentId?: string): Promise<Dependent> {
+  const saved = dependentId ? await dependentsApi.update(dependentId, input) : await dependentsApi.create(input);
+  invalidateQueries(queryKeys.dependents());
+  return saved;
+}
+
+export async function removeDependent(dependentId: string): Promise<void> {
+  await dependentsApi.remove(dependentId);
+  if (getActiveMemberId() === dependentId) {
+    setActiveMemberId(null);
+  }
+  invalidateQueries(queryKeys.dependents());
+}
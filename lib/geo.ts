@@ -0,0 +1,52 @@
+import type { GeoPoint } from "./types";
+
+// Map and distance helpers for delivery locations. Map math follows the Web
+// Mercator tiling used by OpenStreetMap: at zoom z the world is 256 * 2^z px wide.
+
+export const TILE_SIZE = 256;
+
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const R = 6371; // Radius of the Earth in km
+  const dLat = ((to.latitude - from.latitude) * Math.PI) / 180;
+  const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((from.latitude * Math.PI) / 180) *
+      Math.cos((to.latitude * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Pixel position of a point in the whole-world image at the given zoom
+export function toWorldPixel(point: GeoPoint, zoom: number): { x: number; y: number } {
+  const size = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((point.latitude * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function fromWorldPixel(x: number, y: number, zoom: number): GeoPoint {
+  const size = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n))),
+    longitude: (x / size) * 360 - 180,
+  };
+}
+
+export function getCurrentLocation(): Promise<GeoPoint> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      reject(new Error("Location is not available in this browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      (error) => reject(new Error(error.code === error.PERMISSION_DENIED ? "Location access denied" : error.message)),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import { useCallback } from "react";
+import { prescriptionsApi, queryKeys } from "./client";
+import type { CartItem } from "./cart";
+import { addDays, toDateKey, todayKey } from "./dates";
+import { useFamilyMembers } from "./familyMembers";
+import { parseDurationDays } from "./medications";
+import { useProfile } from "./profile";
+import { invalidateQueries, useQuery } from "./queryCache";
+import { REFILL_SUPPLY_DAYS } from "./refills";
+import { getSalts } from "./salts";
+import { useSession } from "./session";
+import type { Prescription } from "./types";
+
+// Local safety checks over what's in the cart, what the patient is currently
+// prescribed and their recorded allergies. The rule table is a short list of
+// well-known interactions, not a substitute for a pharmacist: it only has to
+// catch the common combinations before an order is placed.
+
+export const INTERACTION_SEVERITIES = ["contraindicated", "major", "moderate"] as const;
+export type InteractionSeverity = (typeof INTERACTION_SEVERITIES)[number];
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  contraindicated: "Do not combine",
+  major: "Serious",
+  moderate: "Caution",
+};
+
+// Contraindicated findings block checkout; major ones need acknowledging
+export function isBlocking(severity: InteractionSeverity): boolean {
+  return severity === "contraindicated";
+}
+
+export function needsAcknowledgement(severity: InteractionSeverity): boolean {
+  return severity === "major";
+}
+
+const NSAIDS = ["ibuprofen", "diclofenac", "naproxen", "aceclofenac", "ketorolac", "aspirin", "mefenamic acid", "etoricoxib"];
+const SSRIS = ["fluoxetine", "sertraline", "escitalopram", "citalopram", "paroxetine"];
+const ACE_INHIBITORS = ["lisinopril", "enalapril", "ramipril", "perindopril"];
+const POTASSIUM_SPARING = ["spironolactone", "eplerenone", "potassium chloride"];
+const NITRATES = ["nitroglycerin", "isosorbide mononitrate", "isosorbide dinitrate"];
+const PDE5_INHIBITORS = ["sildenafil", "tadalafil", "vardenafil"];
+const FLUOROQUINOLONES = ["ciprofloxacin", "levofloxacin", "ofloxacin", "norfloxacin", "moxifloxacin"];
+const MINERAL_ANTACIDS = ["aluminium hydroxide", "magnesium hydroxide", "calcium carbonate", "ferrous sulphate"];
+const MACROLIDE_INHIBITORS = ["clarithromycin", "erythromycin", "ketoconazole", "itraconazole"];
+
+interface InteractionRule {
+  a: string[];
+  b: string[];
+  severity: InteractionSeverity;
+  effect: string;
+}
+
+const INTERACTION_RULES: InteractionRule[] = [
+  { a: PDE5_INHIBITORS, b: NITRATES, severity: "contraindicated", effect: "Can cause a dangerous drop in blood pressure." },
+  {
+    a: ["domperidone"],
+    b: MACROLIDE_INHIBITORS,
+    severity: "contraindicated",
+    effect: "Raises domperidone levels and the risk of heart rhythm problems.",
+  },
+  {
+    a: ["simvastatin"],
+    b: MACROLIDE_INHIBITORS,
+    severity: "contraindicated",
+    effect: "Raises statin levels and the risk of severe muscle damage.",
+  },
+  { a: ["warfarin"], b: NSAIDS, severity: "major", effect: "Increases the risk of serious bleeding." },
+  { a: ["warfarin"], b: ["fluconazole", "metronidazole"], severity: "major", effect: "Boosts warfarin's effect and the risk of bleeding." },
+  { a: SSRIS, b: ["tramadol"], severity: "major", effect: "Risk of serotonin syndrome and seizures." },
+  { a: ACE_INHIBITORS, b: POTASSIUM_SPARING, severity: "major", effect: "Can push potassium to dangerous levels." },
+  { a: ["methotrexate"], b: ["trimethoprim", "sulfamethoxazole"], severity: "major", effect: "Increases methotrexate toxicity." },
+  { a: ["digoxin"], b: ["amiodarone", "clarithromycin"], severity: "major", effect: "Raises digoxin to toxic levels." },
+  { a: ["theophylline"], b: ["ciprofloxacin"], severity: "major", effect: "Raises theophylline to toxic levels." },
+  { a: ["atorvastatin"], b: ["clarithromycin"], severity: "major", effect: "Raises statin levels and the risk of muscle damage." },
+  { a: NSAIDS, b: NSAIDS, severity: "moderate", effect: "Two anti-inflammatory painkillers add up stomach and kidney side effects." },
+  { a: ["clopidogrel"], b: ["omeprazole", "esomeprazole"], severity: "moderate", effect: "Can make clopidogrel less effective." },
+  { a: FLUOROQUINOLONES, b: MINERAL_ANTACIDS, severity: "moderate", effect: "Reduces antibiotic absorption; take them at least 2 hours apart." },
+  { a: ["levothyroxine"], b: MINERAL_ANTACIDS, severity: "moderate", effect: "Reduces thyroid hormone absorption; take them 4 hours apart." },
+];
+
+// Allergy entries that stand for a whole drug family
+const ALLERGY_GROUPS: Record<string, string[]> = {
+  penicillin: ["penicillin", "amoxicillin", "ampicillin", "cloxacillin", "piperacillin"],
+  cephalosporin: ["cephalexin", "cefixime", "cefuroxime", "cefpodoxime", "ceftriaxone"],
+  sulfa: ["sulfamethoxazole", "sulfasalazine"],
+  nsaid: NSAIDS,
+};
+
+// What a check runs over; cart lines carry their product id so the UI can
+// point at them
+export interface MedicineSource {
+  name: string;
+  salts: string[];
+  origin: "cart" | "prescription";
+  productId?: string;
+}
+
+export interface InteractionWarning {
+  // The finding: one salt pair, duplicated salt or product allergy
+  id: string;
+  kind: "interaction" | "duplicate" | "allergy";
+  severity: InteractionSeverity;
+  title: string;
+  detail: string;
+  // Cart products involved
+  productIds: string[];
+}
+
+export interface InteractionCheckInput {
+  cart: CartItem[];
+  // Items of the patient's current prescriptions
+  prescribed: { medicineName: string }[];
+  allergies: string[];
+}
+
+function cartSources(cart: CartItem[]): MedicineSource[] {
+  return cart.map((item) => ({
+    name: item.brandName || item.medicineName,
+    salts: getSalts(item.composition || item.medicineName),
+    origin: "cart",
+    productId: item.productId,
+  }));
+}
+
+function describeSource(source: MedicineSource): string {
+  return source.origin === "prescription" ? `${source.name} (your prescription)` : source.name;
+}
+
+function productIdsOf(...sources: MedicineSource[]): string[] {
+  return sources.flatMap((source) => (source.productId ? [source.productId] : []));
+}
+
+function findRule(left: string, right: string): InteractionRule | undefined {
+  return INTERACTION_RULES.find(
+    (rule) =>
+      left !== right &&
+      ((rule.a.includes(left) && rule.b.includes(right)) || (rule.a.includes(right) && rule.b.includes(left)))
+  );
+}
+
+function allergyMatches(allergy: string, salt: string): boolean {
+  // "Co-trimoxazole" is an allergy to each of its salts
+  return getSalts(allergy).some((allergen) => {
+    const normalized = allergen.replace(/s$/, "");
+    if (normalized.length < 4) return false;
+    // "Penicillins", "Sulfa drugs", "NSAIDs"
+    const group = Object.keys(ALLERGY_GROUPS).find((key) => normalized.startsWith(key));
+    return group ? ALLERGY_GROUPS[group].includes(salt) : salt.includes(normalized);
+  });
+}
+
+function hasSameSalts(a: MedicineSource, b: MedicineSource): boolean {
+  return a.salts.length === b.salts.length && a.salts.every((salt) => b.salts.includes(salt));
+}
+
+export function checkInteractions({ cart, prescribed, allergies }: InteractionCheckInput): InteractionWarning[] {
+  const fromCart = cartSources(cart);
+  const fromPrescriptions: MedicineSource[] = prescribed.map((item) => ({
+    name: item.medicineName,
+    salts: getSalts(item.medicineName),
+    origin: "prescription",
+  }));
+  // One warning per finding; further products with the same finding join it
+  const found = new Map<string, InteractionWarning>();
+  const add = (warning: InteractionWarning) => {
+    const existing = found.get(warning.id);
+    if (existing) {
+      existing.productIds = [...new Set([...existing.productIds, ...warning.productIds])];
+    } else {
+      found.set(warning.id, warning);
+    }
+  };
+
+  // Interactions: cart against cart, and cart against current prescriptions
+  fromCart.forEach((source, index) => {
+    [...fromCart.slice(index + 1), ...fromPrescriptions].forEach((other) => {
+      source.salts.forEach((salt) => {
+        other.salts.forEach((otherSalt) => {
+          const rule = findRule(salt, otherSalt);
+          if (!rule) return;
+          add({
+            id: `interaction:${[salt, otherSalt].sort().join("+")}`,
+            kind: "interaction",
+            severity: rule.severity,
+            title: `${describeSource(source)} and ${describeSource(other)}`,
+            detail: `${salt} with ${otherSalt}: ${rule.effect}`,
+            productIds: productIdsOf(source, other),
+          });
+        });
+      });
+    });
+  });
+
+  // Duplicates: the same salt from two products in the cart, or from a cart
+  // product and a different prescribed medicine (buying the prescribed
+  // medicine itself is a refill, not a duplicate)
+  fromCart.forEach((source, index) => {
+    [...fromCart.slice(index + 1), ...fromPrescriptions.filter((other) => !hasSameSalts(source, other))].forEach(
+      (other) => {
+        source.salts
+          .filter((salt) => other.salts.includes(salt))
+          .forEach((salt) => {
+            add({
+              id: `duplicate:${salt}`,
+              kind: "duplicate",
+              severity: "major",
+              title: `${source.name} and ${describeSource(other)} both contain ${salt}`,
+              detail: "Taking both doubles the dose. Keep only one unless your doctor prescribed both.",
+              productIds: productIdsOf(source, other),
+            });
+          });
+      }
+    );
+  });
+
+  // Allergies recorded on the patient's profile
+  fromCart.forEach((source) => {
+    allergies.forEach((allergy) => {
+      const salt = source.salts.find((candidate) => allergyMatches(allergy, candidate));
+      if (!salt) return;
+      add({
+        id: `allergy:${source.productId}:${allergy}`,
+        kind: "allergy",
+        severity: "contraindicated",
+        title: `${source.name} contains ${salt}`,
+        detail: `Your profile lists an allergy to ${allergy}.`,
+        productIds: productIdsOf(source),
+      });
+    });
+  });
+
+  return [...found.values()].sort(
+    (a, b) => INTERACTION_SEVERITIES.indexOf(a.severity) - INTERACTION_SEVERITIES.indexOf(b.severity)
+  );
+}
+
+// Items still being taken: within their duration, or prescribed in the last
+// month when the duration can't be read
+export function getCurrentPrescriptionItems(prescriptions: Prescription[], today = todayKey()) {
+  return prescriptions.flatMap((prescription) => {
+    const startKey = toDateKey(new Date(prescription.createdAt));
+    return prescription.items.filter((item) => {
+      const days = parseDurationDays(item.duration) ?? REFILL_SUPPLY_DAYS;
+      return !Number.isFinite(days) || addDays(startKey, days - 1) >= today;
+    });
+  });
+}
+
+const NO_PRESCRIPTIONS: Prescription[] = [];
+const NO_WARNINGS: InteractionWarning[] = [];
+
+// Runs the checks for `patientId` (the account holder or a family member) once
+// their prescriptions and allergies have loaded. Until then `isLoading` is set,
+// and `error` when either can't be loaded: the findings would be incomplete,
+// so checkout waits rather than treating them as "no warnings".
+export function useInteractionCheck(cart: CartItem[], patientId: string | undefined) {
+  const { user } = useSession();
+  const { profile, error: profileError, refetch: refetchProfile } = useProfile();
+  const { members, error: membersError, isLoading: membersLoading } = useFamilyMembers();
+  const prescriptionsQuery = useQuery(patientId ? queryKeys.prescriptions({ patientId }) : null, () =>
+    prescriptionsApi.list({ patientId })
+  );
+
+  // The account holder's allergies come from their profile, a dependent's from the dependents list
+  const isSelf = !!patientId && patientId === user?.id;
+  const allergiesLoaded = isSelf ? profile !== undefined : !membersLoading && !membersError;
+  const loaded = !!patientId && prescriptionsQuery.data !== undefined && allergiesLoaded;
+  const error = loaded
+    ? undefined
+    : (prescriptionsQuery.data === undefined ? prescriptionsQuery.error : undefined) ??
+      (isSelf ? profileError : membersError);
+  const allergies = members.find((member) => member.id === patientId)?.allergies ?? [];
+
+  const warnings = loaded
+    ? checkInteractions({
+        cart,
+        prescribed: getCurrentPrescriptionItems(prescriptionsQuery.data ?? NO_PRESCRIPTIONS),
+        allergies,
+      })
+    : NO_WARNINGS;
+
+  const { refetch: refetchPrescriptions } = prescriptionsQuery;
+  const retry = useCallback(() => {
+    refetchPrescriptions().catch(() => {});
+    refetchProfile().catch(() => {});
+    invalidateQueries(queryKeys.dependents());
+  }, [refetchPrescriptions, refetchProfile]);
+
+  return {
+    warnings,
+    blocking: warnings.filter((warning) => isBlocking(warning.severity)),
+    toAcknowledge: warnings.filter((warning) => needsAcknowledgement(warning.severity)),
+    // Changes whenever the set of findings does, so an acknowledgement only
+    // covers what the patient actually saw
+    warningsKey: warnings.map((warning) => warning.id).join("|"),
+    isLoading: !loaded && !error,
+    error,
+    retry,
+  };
+}
@@ -0,0 +1,459 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import toast from "react-hot-toast";
+import { prescriptionsApi, queryKeys } from "./client";
+import { addDays, daysBetween, parseDateKey, toDateKey, todayKey } from "./dates";
+import { useQuery } from "./queryCache";
+import type { Prescription } from "./types";
+
+// Dose schedules derived from prescription items. Frequencies are free text
+// written by doctors ("1-0-1", "twice daily", "every 8 hours"), so parsing is
+// best effort: anything unrecognised, and "as needed" medicines, simply get no
+// timetable. Taken/skipped doses are logged per patient in this browser.
+
+export interface DoseTime {
+  // "HH:MM", local time
+  time: string;
+  // Units per dose, e.g. 0.5 for "½-0-½"
+  amount: number;
+}
+
+export interface DoseTimetable {
+  times: DoseTime[];
+  // 1 for daily, 2 for alternate days, 7 for weekly
+  everyDays: number;
+}
+
+// Default clock times when the frequency only gives a count
+const TIMES_BY_COUNT: Record<number, string[]> = {
+  1: ["08:00"],
+  2: ["08:00", "20:00"],
+  3: ["08:00", "14:00", "20:00"],
+  4: ["08:00", "12:00", "16:00", "20:00"],
+};
+
+// "morning-afternoon-night" patterns; a fourth part adds an evening dose
+const TIMES_BY_PATTERN: Record<number, string[]> = {
+  3: ["08:00", "14:00", "21:00"],
+  4: ["08:00", "13:00", "18:00", "21:00"],
+};
+
+const TIMES_OF_DAY: [RegExp, string][] = [
+  [/\b(morning|breakfast)\b/, "08:00"],
+  [/\b(noon|afternoon|lunch)\b/, "13:00"],
+  [/\b(evening)\b/, "18:00"],
+  [/\b(night|bedtime|bed time|hs|dinner)\b/, "21:00"],
+];
+
+const COUNT_WORDS: Record<string, number> = {
+  once: 1,
+  one: 1,
+  twice: 2,
+  two: 2,
+  thrice: 3,
+  three: 3,
+  four: 4,
+};
+
+const ABBREVIATIONS: Record<string, number> = {
+  od: 1,
+  qd: 1,
+  bd: 2,
+  bid: 2,
+  tds: 3,
+  tid: 3,
+  qid: 4,
+  qds: 4,
+};
+
+const AS_NEEDED = /\b(sos|prn|as needed|as required|when needed|if needed|if required)\b/;
+
+function parseAmount(value: string): number {
+  const trimmed = value.trim();
+  if (trimmed === "½" || trimmed === "1/2") return 0.5;
+  return Number(trimmed);
+}
+
+function timetable(times: string[], everyDays = 1, amounts?: number[]): DoseTimetable {
+  return { times: times.map((time, index) => ({ time, amount: amounts?.[index] ?? 1 })), everyDays };
+}
+
+export function parseFrequency(frequency: string): DoseTimetable | null {
+  const text = frequency.toLowerCase().replace(/\s+/g, " ").trim();
+  if (!text || AS_NEEDED.test(text)) return null;
+
+  const pattern = text.match(/^([\d.½/]+)(\s*-\s*[\d.½/]+){2,3}/);
+  if (pattern) {
+    const amounts = pattern[0].split("-").map(parseAmount);
+    if (amounts.some((amount) => Number.isNaN(amount))) return null;
+    const slots = TIMES_BY_PATTERN[amounts.length];
+    const times = slots.filter((_, index) => amounts[index] > 0);
+    return times.length > 0 ? timetable(times, 1, amounts.filter((amount) => amount > 0)) : null;
+  }
+
+  const hourly = text.match(/\b(?:every|each|q) ?(\d+) ?(?:h|hr|hrs|hour|hours)\b/);
+  if (hourly) {
+    const hours = Number(hourly[1]);
+    if (hours <= 0) return null;
+    if (hours >= 24) return timetable(["08:00"], Math.round(hours / 24));
+    const times: string[] = [];
+    for (let hour = 8; hour < 8 + 24; hour += hours) {
+      times.push(`${String(hour % 24).padStart(2, "0")}:00`);
+    }
+    return timetable(times.sort());
+  }
+
+  let everyDays = 1;
+  const everyNDays = text.match(/\bevery (\d+) days?\b/);
+  if (everyNDays) everyDays = Math.max(1, Number(everyNDays[1]));
+  else if (/\b(alternate days?|every other day)\b/.test(text)) everyDays = 2;
+  else if (/\b(weekly|a week|per week|every week)\b/.test(text)) everyDays = 7;
+
+  const countMatch =
+    text.match(/\b(\d+|once|one|twice|two|thrice|three|four) ?(?:times?|x)?\b ?(?:a|per|\/)? ?(?:day|daily|week|weekly)\b/) ??
+    text.match(/\b(once|twice|thrice)\b/);
+  const abbreviation = text.split(/[^a-z]+/).find((word) => word in ABBREVIATIONS);
+  const count = countMatch
+    ? (COUNT_WORDS[countMatch[1]] ?? Number(countMatch[1]))
+    : abbreviation
+      ? ABBREVIATIONS[abbreviation]
+      : undefined;
+
+  // "Twice a week" is every 3-4 days rather than two doses on one day
+  if (everyDays === 7 && count && count > 1) return timetable(["08:00"], Math.max(1, Math.round(7 / count)));
+
+  const named = TIMES_OF_DAY.filter(([regex]) => regex.test(text)).map(([, time]) => time);
+  if (named.length > 0 && (!count || count === named.length)) return timetable(named, everyDays);
+
+  if (count) {
+    const times = TIMES_BY_COUNT[count];
+    return times ? timetable(times, everyDays) : null;
+  }
+  if (/\b(daily|every day|a day|per day)\b/.test(text) || everyDays > 1) return timetable(["08:00"], everyDays);
+  return null;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const DAYS_PER_UNIT: [RegExp, number][] = [
+  [/^(d|days?)$/, 1],
+  [/^(w|wks?|weeks?)$/, 7],
+  [/^(m|mo|mths?|months?)$/, 30],
+];
+
+// Course length in days; Infinity for ongoing medication, null when unknown
+export function parseDurationDays(duration: string): number | null {
+  const text = duration.toLowerCase().trim();
+  if (/\b(ongoing|continue|continuous|long term|lifelong|till further)\b/.test(text)) return Infinity;
+  if (/^\d+$/.test(text)) return Number(text) || null;
+  for (const match of text.matchAll(/\b(?:(\d+(?:\.\d+)?) ?|(an?|one|two|three|four|five|six|seven|eight|nine|ten) )([a-z]+)/g)) {
+    const value = match[1] ? Number(match[1]) : NUMBER_WORDS[match[2]];
+    const unit = DAYS_PER_UNIT.find(([regex]) => regex.test(match[3]));
+    if (unit && value) return Math.round(value * unit[1]);
+  }
+  return null;
+}
+
+export interface MedicationPlan {
+  // `${prescriptionId}:${itemIndex}`
+  id: string;
+  prescriptionId: string;
+  medicineName: string;
+  dosage: string;
+  frequency: string;
+  notes?: string;
+  timetable: DoseTimetable;
+  // Day keys; endKey is the last day, or null while ongoing
+  startKey: string;
+  endKey: string | null;
+  // Doses due before the prescription was written don't count
+  startsAt: number;
+}
+
+export function buildMedicationPlans(prescriptions: Prescription[]): MedicationPlan[] {
+  return prescriptions.flatMap((prescription) =>
+    prescription.items.flatMap((item, index) => {
+      const schedule = parseFrequency(item.frequency);
+      const days = parseDurationDays(item.duration);
+      if (!schedule || !days) return [];
+      const startsAt = new Date(prescription.createdAt);
+      const startKey = toDateKey(startsAt);
+      return [
+        {
+          id: `${prescription._id}:${index}`,
+          prescriptionId: prescription._id,
+          medicineName: item.medicineName,
+          dosage: item.dosage,
+          frequency: item.frequency,
+          notes: item.notes,
+          timetable: schedule,
+          startKey,
+          endKey: Number.isFinite(days) ? addDays(startKey, days - 1) : null,
+          startsAt: startsAt.getTime(),
+        },
+      ];
+    })
+  );
+}
+
+export interface ScheduledDose extends DoseTime {
+  // `${planId}:${dayKey}:${time}`
+  id: string;
+  plan: MedicationPlan;
+  dayKey: string;
+  // Local timestamp the dose is due
+  at: number;
+}
+
+export function getDosesForDay(plans: MedicationPlan[], dayKey: string): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+  plans.forEach((plan) => {
+    if (dayKey < plan.startKey || (plan.endKey && dayKey > plan.endKey)) return;
+    if (daysBetween(plan.startKey, dayKey) % plan.timetable.everyDays !== 0) return;
+    plan.timetable.times.forEach((doseTime) => {
+      const [hours, minutes] = doseTime.time.split(":").map(Number);
+      const due = parseDateKey(dayKey);
+      due.setHours(hours, minutes);
+      if (due.getTime() < plan.startsAt) return;
+      doses.push({ ...doseTime, id: `${plan.id}:${dayKey}:${doseTime.time}`, plan, dayKey, at: due.getTime() });
+    });
+  });
+  return doses.sort((a, b) => a.at - b.at || a.plan.medicineName.localeCompare(b.plan.medicineName));
+}
+
+// "500mg", or "½ × 500mg" when the pattern asks for part of a unit
+export function formatDoseAmount(dose: ScheduledDose): string {
+  if (dose.amount === 1) return dose.plan.dosage;
+  const amount = dose.amount === 0.5 ? "½" : String(dose.amount);
+  return dose.plan.dosage ? `${amount} × ${dose.plan.dosage}` : amount;
+}
+
+export function formatDoseTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
+
+// "Daily at 8:00 AM, 8:00 PM", for showing next to the frequency as written;
+// null when the frequency has no schedule
+export function describeFrequency(frequency: string): string | null {
+  const schedule = parseFrequency(frequency);
+  if (!schedule) return null;
+  const times = schedule.times.map(({ time }) => formatDoseTime(time)).join(", ");
+  if (schedule.everyDays === 1) return `Daily at ${times}`;
+  if (schedule.everyDays === 7) return `Weekly at ${times}`;
+  return `Every ${schedule.everyDays} days at ${times}`;
+}
+
+// ---- Dose log ----
+
+export type DoseStatus = "taken" | "skipped";
+
+export interface DoseLogEntry {
+  status: DoseStatus;
+  dayKey: string;
+  loggedAt: string;
+}
+
+export type DoseLog = Record<string, DoseLogEntry>;
+
+const DOSE_LOG_KEY = "medication_dose_log";
+// Older entries are dropped so the log doesn't grow forever
+const DOSE_LOG_RETENTION_DAYS = 90;
+const EMPTY_LOG: DoseLog = {};
+
+const doseLogs = new Map<string, DoseLog>();
+const logListeners = new Set<() => void>();
+
+function readDoseLog(patientId: string): DoseLog {
+  if (typeof window === "undefined") return EMPTY_LOG;
+  let log = doseLogs.get(patientId);
+  if (!log) {
+    try {
+      log = JSON.parse(localStorage.getItem(`${DOSE_LOG_KEY}:${patientId}`) || "{}") as DoseLog;
+    } catch {
+      log = {};
+    }
+    doseLogs.set(patientId, log);
+  }
+  return log;
+}
+
+// Pass null to clear the entry (undo)
+export function setDoseStatus(patientId: string, dose: ScheduledDose, status: DoseStatus | null) {
+  const cutoff = addDays(todayKey(), -DOSE_LOG_RETENTION_DAYS);
+  const log: DoseLog = {};
+  Object.entries(readDoseLog(patientId)).forEach(([id, entry]) => {
+    if (entry.dayKey >= cutoff && id !== dose.id) log[id] = entry;
+  });
+  if (status) log[dose.id] = { status, dayKey: dose.dayKey, loggedAt: new Date().toISOString() };
+
+  doseLogs.set(patientId, log);
+  localStorage.setItem(`${DOSE_LOG_KEY}:${patientId}`, JSON.stringify(log));
+  logListeners.forEach((listener) => listener());
+}
+
+function subscribeDoseLog(listener: () => void) {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+}
+
+export function useDoseLog(patientId: string | undefined): DoseLog {
+  return useSyncExternalStore(
+    subscribeDoseLog,
+    () => (patientId ? readDoseLog(patientId) : EMPTY_LOG),
+    () => EMPTY_LOG
+  );
+}
+
+// ---- Adherence ----
+
+export const ADHERENCE_DAYS = 7;
+
+export interface Adherence {
+  taken: number;
+  skipped: number;
+  // Due and never logged
+  missed: number;
+  due: number;
+  // Percentage of due doses taken; null when nothing was due
+  rate: number | null;
+}
+
+// Over the last `days` days including today, counting only doses already due
+export function getAdherence(plans: MedicationPlan[], log: DoseLog, days = ADHERENCE_DAYS, now = Date.now()): Adherence {
+  const today = toDateKey(new Date(now));
+  let taken = 0;
+  let skipped = 0;
+  let missed = 0;
+  for (let i = 0; i < days; i++) {
+    getDosesForDay(plans, addDays(today, -i)).forEach((dose) => {
+      if (dose.at > now) return;
+      const status = log[dose.id]?.status;
+      if (status === "taken") taken++;
+      else if (status === "skipped") skipped++;
+      else missed++;
+    });
+  }
+  const due = taken + skipped + missed;
+  return { taken, skipped, missed, due, rate: due > 0 ? Math.round((taken / due) * 100) : null };
+}
+
+// ---- Hooks ----
+
+const NO_PRESCRIPTIONS: Prescription[] = [];
+
+function msUntilTomorrow(): number {
+  return parseDateKey(addDays(todayKey(), 1)).getTime() - Date.now();
+}
+
+// The patient's plans and today's doses; the day rolls over at local midnight
+export function useMedicationSchedule(patientId: string | undefined) {
+  const prescriptionsQuery = useQuery(patientId ? queryKeys.prescriptions({ patientId }) : null, () =>
+    prescriptionsApi.list({ patientId })
+  );
+  const [today, setToday] = useState(todayKey);
+  const log = useDoseLog(patientId);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setToday(todayKey()), msUntilTomorrow() + 1000);
+    return () => clearTimeout(timer);
+  }, [today]);
+
+  const plans = buildMedicationPlans(prescriptionsQuery.data ?? NO_PRESCRIPTIONS);
+
+  const logDose = useCallback(
+    (dose: ScheduledDose, status: DoseStatus | null) => {
+      if (patientId) setDoseStatus(patientId, dose, status);
+    },
+    [patientId]
+  );
+
+  return {
+    plans,
+    today,
+    todayDoses: getDosesForDay(plans, today),
+    log,
+    logDose,
+    isLoading: prescriptionsQuery.isLoading,
+  };
+}
+
+// ---- Reminders ----
+
+export type ReminderPermission = NotificationPermission | "unsupported";
+
+const permissionListeners = new Set<() => void>();
+
+function getReminderPermission(): ReminderPermission {
+  return typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+}
+
+function subscribePermission(listener: () => void) {
+  permissionListeners.add(listener);
+  return () => {
+    permissionListeners.delete(listener);
+  };
+}
+
+export function useReminderPermission() {
+  const permission = useSyncExternalStore(subscribePermission, getReminderPermission, (): ReminderPermission => "default");
+
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === "undefined") return;
+    await Notification.requestPermission();
+    permissionListeners.forEach((listener) => listener());
+  }, []);
+
+  return { permission, requestPermission };
+}
+
+function remind(dose: ScheduledDose) {
+  const title = `Time for ${dose.plan.medicineName}`;
+  const body = [formatDoseAmount(dose), formatDoseTime(dose.time)].filter(Boolean).join(" · ");
+  if (getReminderPermission() === "granted") {
+    const notification = new Notification(title, { body, tag: dose.id });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } else {
+    toast(`💊 ${title} (${body})`, { duration: 10000 });
+  }
+}
+
+// Fires a reminder at each of today's remaining doses that hasn't been logged
+// yet. Reminders only fire while the app is open in some tab.
+export function useDoseReminders(patientId: string | undefined) {
+  const { todayDoses, log } = useMedicationSchedule(patientId);
+  const pending = todayDoses.filter((dose) => !log[dose.id]);
+  const pendingRef = useRef(pending);
+  const pendingKey = pending.map((dose) => dose.id).join(",");
+
+  useEffect(() => {
+    pendingRef.current = pending;
+  });
+
+  useEffect(() => {
+    const now = Date.now();
+    const timers = pendingRef.current
+      .filter((dose) => dose.at > now)
+      .map((dose) => setTimeout(() => remind(dose), dose.at - now));
+    return () => timers.forEach(clearTimeout);
+  }, [pendingKey]);
+}
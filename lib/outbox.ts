@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { NetworkError } from "./errors";
+import { offSocketEvent, onSocketEvent } from "./socket";
+import type { MessageAttachment } from "./types";
+
+// Consultation work the patient did while offline, kept in IndexedDB so it
+// survives a reload. Entries go out strictly in the order they were queued
+// once the connection is back (socket reconnect or the browser's `online`).
+// Entries belong to the account that queued them and are cleared on logout, so
+// a shared device never sends one patient's work from another's session.
+
+const DB_NAME = "patient-outbox";
+const DB_VERSION = 1;
+const STORE = "entries";
+
+interface OutboxBase {
+  // Assigned by IndexedDB; also the send order
+  id?: number;
+  // Account that queued it; only that account's session reads or sends it
+  userId: string;
+  appointmentId: string;
+  createdAt: string;
+}
+
+export interface OutboxMessage extends OutboxBase {
+  kind: "message";
+  conversationId: string;
+  clientId: string;
+  content: string;
+  messageType: string;
+  timestamp: string;
+  attachment?: MessageAttachment;
+  // An attachment that still has to be uploaded
+  file?: { blob: Blob; name: string; duration?: number };
+}
+
+export interface OutboxReport extends OutboxBase {
+  kind: "report";
+  requestId: string;
+  reportType?: string;
+  file: File;
+}
+
+export type OutboxEntry = OutboxMessage | OutboxReport;
+
+export type OutboxSenders = {
+  [K in OutboxEntry["kind"]]: (entry: Extract<OutboxEntry, { kind: K }>) => Promise<void>;
+};
+
+// True when a failure is down to connectivity, so the work should be queued
+// rather than reported as failed
+export function isOffline(error?: unknown): boolean {
+  return error instanceof NetworkError || (typeof navigator !== "undefined" && !navigator.onLine);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("Offline storage isn't available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+        store.createIndex("appointmentId", "appointmentId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function addToOutbox(entry: OutboxEntry): Promise<number> {
+  const id = await withStore("readwrite", (store) => store.add(entry));
+  return Number(id);
+}
+
+// The user's entries for the appointment, oldest first
+export async function getOutbox(appointmentId: string, userId: string): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.index("appointmentId").getAll(appointmentId));
+  return entries.filter((entry) => entry.userId === userId).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function removeFromOutbox(id: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// Drops everything queued on this device; called when the session ends
+export async function clearOutbox(): Promise<void> {
+  await withStore("readwrite", (store) => store.clear());
+}
+
+// One flush per user and appointment at a time; entries queued mid-flush are
+// picked up by the running one
+const flushing = new Set<string>();
+
+export async function flushOutbox(appointmentId: string, userId: string, senders: OutboxSenders): Promise<void> {
+  const flushKey = `${userId}:${appointmentId}`;
+  if (flushing.has(flushKey) || isOffline()) return;
+  flushing.add(flushKey);
+  try {
+    for (;;) {
+      const [entry] = await getOutbox(appointmentId, userId);
+      if (!entry) return;
+      try {
+        if (entry.kind === "message") await senders.message(entry);
+        else await senders.report(entry);
+      } catch (error) {
+        // Still offline: keep it and everything behind it for the next attempt.
+        // Anything else the sender has already surfaced, so drop the entry.
+        if (isOffline(error)) return;
+      }
+      await removeFromOutbox(entry.id!);
+    }
+  } catch (error) {
+    console.error("Failed to flush the outbox:", error);
+  } finally {
+    flushing.delete(flushKey);
+  }
+}
+
+// Flushes the signed-in user's entries on mount, whenever the socket reconnects
+// and when the browser comes back online
+export function useOutboxFlush(appointmentId: string, userId: string | undefined, senders: OutboxSenders) {
+  const sendersRef = useRef(senders);
+
+  useEffect(() => {
+    sendersRef.current = senders;
+  });
+
+  useEffect(() => {
+    if (!userId || !appointmentId) return;
+    const flush = () => {
+      flushOutbox(appointmentId, userId, {
+        message: (entry) => sendersRef.current.message(entry),
+        report: (entry) => sendersRef.current.report(entry),
+      });
+    };
+
+    flush();
+    onSocketEvent("connect", flush);
+    window.addEventListener("online", flush);
+    return () => {
+      offSocketEvent("connect", flush);
+      window.removeEventListener("online", flush);
+    };
+  }, [appointmentId, userId]);
+}
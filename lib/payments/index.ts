@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { paymentsApi } from "../client";
+import type { CreatePaymentIntentInput } from "../client";
+import { useSession } from "../session";
+import type { PaymentIntent } from "../types";
+import { mockPaymentProvider } from "./mockProvider";
+import { getPaymentProvider, paymentProviderName, registerPaymentProvider } from "./provider";
+
+export { registerPaymentProvider } from "./provider";
+export type { PaymentProvider } from "./provider";
+
+registerPaymentProvider(mockPaymentProvider);
+
+// Pages show a "no money moves" notice while the mock gateway is active
+export const isMockPayments = paymentProviderName === mockPaymentProvider.name;
+
+export interface PaymentCallbacks {
+  onSuccess?: (intent: PaymentIntent) => void;
+  // The gateway accepted the payment but hasn't settled it (UPI collect, bank
+  // transfer); the backend confirms the appointment/order once it clears
+  onPending?: (intent: PaymentIntent) => void;
+  onFailure?: (intent: PaymentIntent, reason: string) => void;
+}
+
+export type PaymentRequest = Omit<CreatePaymentIntentInput, "provider">;
+
+// Payments currently running, by idempotency key, so a double-click joins the
+// attempt already in flight instead of charging twice
+const inFlight = new Map<string, Promise<PaymentIntent>>();
+
+async function runPayment(request: PaymentRequest, idempotencyKey: string): Promise<PaymentIntent> {
+  const provider = getPaymentProvider();
+  const intent = await paymentsApi.createIntent({ ...request, provider: provider.name }, idempotencyKey);
+
+  // A replayed key hands back an intent that was already paid or is settling
+  if (intent.status !== "REQUIRES_PAYMENT") return intent;
+
+  const confirmation = await provider.pay(intent);
+  return paymentsApi.confirm(intent._id, confirmation);
+}
+
+// Creates the payment intent, collects it through the configured provider and
+// reports the outcome. Resolves with the settled intent; callers commit the
+// appointment/order (referencing intent._id) only when it isn't FAILED.
+export async function collectPayment(
+  request: PaymentRequest,
+  idempotencyKey: string,
+  callbacks: PaymentCallbacks = {}
+): Promise<PaymentIntent> {
+  let attempt = inFlight.get(idempotencyKey);
+  if (!attempt) {
+    attempt = runPayment(request, idempotencyKey).finally(() => inFlight.delete(idempotencyKey));
+    inFlight.set(idempotencyKey, attempt);
+  }
+
+  const intent = await attempt;
+  switch (intent.status) {
+    case "SUCCEEDED":
+      callbacks.onSuccess?.(intent);
+      break;
+    case "PENDING":
+      callbacks.onPending?.(intent);
+      break;
+    default:
+      callbacks.onFailure?.(intent, intent.failureReason || "Payment was not completed");
+  }
+  return intent;
+}
+
+export function isPaymentAccepted(intent: PaymentIntent): boolean {
+  return intent.status === "SUCCEEDED" || intent.status === "PENDING";
+}
+
+// A payment collected for an appointment/order that then failed to be created
+// (slot taken, hold expired, server error). The next attempt for the same
+// patient books against it instead of charging again; if the patient leaves
+// without booking, or the account signs out, it's cancelled so the backend
+// voids or refunds it.
+interface KeptPayment {
+  intent: PaymentIntent;
+  // Who it was paid for: the account holder or a family member
+  patientId: string;
+}
+
+export function useUnusedPayment() {
+  const { user } = useSession();
+  const [kept, setKept] = useState<KeptPayment | null>(null);
+  // Read by the unmount/pagehide cleanup, which can't see current state
+  const keptRef = useRef<KeptPayment | null>(null);
+
+  const store = useCallback((next: KeptPayment | null) => {
+    keptRef.current = next;
+    setKept(next);
+  }, []);
+
+  useEffect(() => {
+    const cancelOnExit = () => {
+      const current = keptRef.current;
+      if (!current) return;
+      keptRef.current = null;
+      paymentsApi.cancel(current.intent._id, { keepalive: true }).catch(() => {});
+    };
+    window.addEventListener("pagehide", cancelOnExit);
+    return () => {
+      window.removeEventListener("pagehide", cancelOnExit);
+      cancelOnExit();
+    };
+  }, [user?.id]);
+
+  // Whether the kept payment covers `amount` for `patientId`
+  const covers = useCallback(
+    (amount: number, patientId: string | undefined) =>
+      !!kept && kept.intent.amount === amount && kept.patientId === patientId,
+    [kept]
+  );
+
+  // The kept intent when it was paid for this patient and amount; any other
+  // one is cancelled so a fresh payment can be collected
+  const take = useCallback(
+    (amount: number, patientId: string): PaymentIntent | null => {
+      const current = keptRef.current;
+      if (!current) return null;
+      if (current.intent.amount === amount && current.patientId === patientId) return current.intent;
+      store(null);
+      paymentsApi.cancel(current.intent._id).catch((error) => {
+        console.warn("Failed to cancel payment:", error);
+      });
+      return null;
+    },
+    [store]
+  );
+
+  return {
+    covers,
+    take,
+    // Payment went through but the booking didn't: keep it for the retry
+    keep: useCallback((intent: PaymentIntent, patientId: string) => store({ intent, patientId }), [store]),
+    // The appointment/order was created against it
+    consume: useCallback(() => store(null), [store]),
+  };
+}
+
+function newIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// One key per checkout attempt. `scope` describes what is being paid for
+// (e.g. doctor + slot + amount); changing it starts a new attempt, and so does
+// rotate() after a failed payment. Resubmitting the same attempt reuses the
+// key, which the backend uses to return the original intent/booking.
+export function useIdempotencyKey(scope: string) {
+  const [attempt, setAttempt] = useState(() => ({ scope, key: newIdempotencyKey() }));
+
+  let current = attempt;
+  if (attempt.scope !== scope) {
+    current = { scope, key: newIdempotencyKey() };
+    setAttempt(current);
+  }
+
+  const rotate = useCallback(() => setAttempt((prev) => ({ scope: prev.scope, key: newIdempotencyKey() })), []);
+  return { idempotencyKey: current.key, rotate };
+}
@@ -0,0 +1,26 @@
+import type { PaymentConfirmation } from "../client";
+import type { PaymentProvider } from "./provider";
+
+const MOCK_DELAY_MS = 1500;
+
+// Set NEXT_PUBLIC_MOCK_PAYMENT_OUTCOME to "FAILED" or "PENDING" to exercise
+// those paths locally; anything else succeeds
+function mockOutcome(): PaymentConfirmation["status"] {
+  const outcome = process.env.NEXT_PUBLIC_MOCK_PAYMENT_OUTCOME;
+  return outcome === "FAILED" || outcome === "PENDING" ? outcome : "SUCCEEDED";
+}
+
+// Local development gateway: no money moves, the intent settles after a short delay
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+
+  async pay(intent) {
+    await new Promise((resolve) => setTimeout(resolve, MOCK_DELAY_MS));
+    const status = mockOutcome();
+    return {
+      status,
+      providerReference: `mock_${intent._id}`,
+      failureReason: status === "FAILED" ? "Payment declined by the mock gateway" : undefined,
+    };
+  },
+};
@@ -0,0 +1,27 @@
+import type { PaymentConfirmation } from "../client";
+import type { PaymentIntent } from "../types";
+
+// A payment gateway integration. The backend creates the intent (amount,
+// currency, gateway secrets); the provider only runs the client-side step -
+// redirect, SDK sheet, UPI collect - and reports how it ended.
+export interface PaymentProvider {
+  readonly name: string;
+  pay(intent: PaymentIntent): Promise<PaymentConfirmation>;
+}
+
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+// NEXT_PUBLIC_PAYMENT_PROVIDER picks the gateway; development uses the mock
+export const paymentProviderName = process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || "mock";
+
+export function getPaymentProvider(): PaymentProvider {
+  const provider = providers.get(paymentProviderName);
+  if (!provider) {
+    throw new Error(`Payment provider "${paymentProviderName}" is not registered`);
+  }
+  return provider;
+}
@@ -0,0 +1,207 @@
+// Minimal PDF writer for client-side exports: wrapped text and rules on A4
+// pages in the standard Helvetica fonts, with a running header and a
+// "Page n of N" footer. The standard fonts only cover Latin-1, so anything
+// else (emoji, most non-Latin scripts) is transliterated or dropped.
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  // Extra left offset in points
+  indent?: number;
+  // Space above the block in points
+  spaceBefore?: number;
+}
+
+export interface PdfWriterOptions {
+  title: string;
+  // Lines drawn at the top of every page
+  header?: { text: string; options?: PdfTextOptions }[];
+  // Left part of the footer; the page number goes on the right
+  footer?: string;
+}
+
+export interface PdfWriter {
+  text(value: string, options?: PdfTextOptions): void;
+  rule(spaceBefore?: number): void;
+  // Starts a new page unless `height` points still fit on this one
+  keepTogether(height: number): void;
+  toBlob(): Blob;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_Y = 30;
+const LINE_HEIGHT = 1.35;
+const GRAY: PdfColor = [0.45, 0.45, 0.45];
+const BLACK: PdfColor = [0, 0, 0];
+
+const REPLACEMENTS: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "…": "...",
+  "•": "·",
+  "₹": "Rs.",
+};
+
+function toLatin1(value: string): string {
+  return Array.from(value)
+    .map((char) => REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 0xff ? char : ""))
+    .join("")
+    .replace(/[\t\r]/g, " ");
+}
+
+// Rough Helvetica advance widths (in ems); close enough to wrap lines safely
+function charWidth(char: string): number {
+  if ("iIjl.,;:!|'()[] ".includes(char)) return 0.28;
+  if ("MWmw".includes(char)) return 0.85;
+  if (char >= "A" && char <= "Z") return 0.68;
+  return 0.56;
+}
+
+function textWidth(value: string, size: number, bold: boolean): number {
+  let width = 0;
+  for (const char of value) width += charWidth(char);
+  return width * size * (bold ? 1.06 : 1);
+}
+
+function wrap(value: string, maxWidth: number, size: number, bold: boolean): string[] {
+  const lines: string[] = [];
+  value.split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph.split(" ").forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      // Break words (URLs, ids) that don't fit on a line by themselves
+      line = "";
+      for (const char of word) {
+        if (textWidth(line + char, size, bold) > maxWidth) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+function escape(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+function textOp(value: string, x: number, y: number, size: number, bold: boolean, color: PdfColor): string {
+  return `BT /${bold ? "F2" : "F1"} ${size} Tf ${color.join(" ")} rg ${x.toFixed(2)} ${y.toFixed(2)} Td (${escape(value)}) Tj ET`;
+}
+
+export function createPdfWriter({ title, header = [], footer = "" }: PdfWriterOptions): PdfWriter {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const startPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+    header.forEach(({ text, options }) => write(text, options));
+    if (header.length > 0) drawRule(6);
+    y -= 8;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (pages.length === 0 || y - height < MARGIN) startPage();
+  };
+
+  const write = (value: string, options: PdfTextOptions = {}) => {
+    const { size = 10, bold = false, color = BLACK, indent = 0, spaceBefore = 0 } = options;
+    const x = MARGIN + indent;
+    const lineHeight = size * LINE_HEIGHT;
+    y -= spaceBefore;
+    wrap(toLatin1(value), PAGE_WIDTH - MARGIN - x, size, bold).forEach((line) => {
+      if (y - lineHeight < MARGIN) startPage();
+      y -= lineHeight;
+      if (line) ops.push(textOp(line, x, y + size * 0.25, size, bold, color));
+    });
+  };
+
+  const drawRule = (spaceBefore = 4) => {
+    y -= spaceBefore;
+    ops.push(`${GRAY.join(" ")} RG 0.5 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+    y -= 4;
+  };
+
+  return {
+    text(value, options) {
+      ensureSpace(0);
+      write(value, options);
+    },
+
+    rule(spaceBefore) {
+      ensureSpace(12);
+      drawRule(spaceBefore);
+    },
+
+    keepTogether(height) {
+      ensureSpace(height);
+    },
+
+    toBlob() {
+      if (pages.length === 0) startPage();
+
+      const objects: string[] = [];
+      const pageIds: number[] = [];
+      // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content per page
+      const font = (name: string) => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+      objects[3] = font("Helvetica");
+      objects[4] = font("Helvetica-Bold");
+
+      pages.forEach((pageOps, index) => {
+        const footerOps = [
+          textOp(toLatin1(footer), MARGIN, FOOTER_Y, 8, false, GRAY),
+          textOp(`Page ${index + 1} of ${pages.length}`, PAGE_WIDTH - MARGIN - 60, FOOTER_Y, 8, false, GRAY),
+        ];
+        const content = [...pageOps, ...footerOps].join("\n");
+        const pageId = 5 + index * 2;
+        pageIds.push(pageId);
+        objects[pageId] =
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+        objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+      });
+      objects[1] = `<< /Type /Catalog /Pages 2 0 R >>`;
+      objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+      const infoId = objects.length;
+      objects[infoId] = `<< /Title (${escape(toLatin1(title))}) /Producer (Patient Portal) >>`;
+
+      // Every character is a single Latin-1 byte, so string offsets are byte offsets
+      let output = "%PDF-1.4\n";
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = output.length;
+        output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+      const xrefAt = output.length;
+      output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) {
+        output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+      }
+      output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefAt}\n%%EOF`;
+
+      const bytes = new Uint8Array(output.length);
+      for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+      return new Blob([bytes], { type: "application/pdf" });
+    },
+  };
+}
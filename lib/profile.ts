@@ -0,0 +1,40 @@
+"use client";
+
+import { profileApi, queryKeys } from "./client";
+import type { UpdateProfileInput } from "./client";
+import { setQueryData, useQuery } from "./queryCache";
+import { updateSessionUser, useSession } from "./session";
+import type { PatientProfile } from "./types";
+
+// The signed-in patient's full profile, shared through the query cache so the
+// profile page, booking and checkout all read (and prefill from) the same record.
+export function useProfile() {
+  const { isAuthenticated } = useSession();
+  const { data, error, isLoading, refetch } = useQuery(isAuthenticated ? queryKeys.profile() : null, () =>
+    profileApi.get()
+  );
+  return { profile: data, error, isLoading, refetch };
+}
+
+export async function saveProfile(changes: UpdateProfileInput): Promise<PatientProfile> {
+  const profile = await profileApi.update(changes);
+  setQueryData(queryKeys.profile(), profile);
+  // Navbar and other tabs read name/phone from the session
+  updateSessionUser({ name: profile.name, phone: profile.phone, phoneVerified: profile.phoneVerified });
+  return profile;
+}
+
+// Whole years between the date of birth and today, or null when unknown
+export function getAge(dateOfBirth: string | undefined): number | null {
+  // Read the calendar date directly: new Date("YYYY-MM-DD") is UTC midnight and
+  // can land on the previous day in western timezones
+  const [year, month, day] = (dateOfBirth ?? "").slice(0, 10).split("-").map(Number);
+  if (!year || !month || !day) return null;
+
+  const today = new Date();
+  let age = today.getFullYear() - year;
+  const hadBirthday =
+    today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  if (!hadBirthday) age -= 1;
+  return age >= 0 ? age : null;
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+
+// Shared cache for GET requests. Keys are the endpoint paths (see queryKeys in
+// lib/client) so socket events can invalidate everything under a resource prefix.
+
+interface CacheEntry {
+  data?: unknown;
+  error?: unknown;
+  updatedAt: number;
+  stale: boolean;
+  promise?: Promise<unknown>;
+}
+
+interface QueryOptions {
+  // How long a response is served without revalidating, in ms
+  staleTime?: number;
+  force?: boolean;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+const cache = new Map<string, CacheEntry>();
+const listeners = new Map<string, Set<() => void>>();
+// Last fetcher registered for a key by a mounted useQuery, used to revalidate on invalidation
+const fetchers = new Map<string, () => Promise<unknown>>();
+
+function update(key: string, patch: Partial<CacheEntry>) {
+  const previous = cache.get(key) ?? { updatedAt: 0, stale: true };
+  cache.set(key, { ...previous, ...patch });
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+function matches(key: string, prefix: string) {
+  return key === prefix || key.startsWith(prefix + "/") || key.startsWith(prefix + "?");
+}
+
+export function getQueryData<T>(key: string): T | undefined {
+  return cache.get(key)?.data as T | undefined;
+}
+
+export function setQueryData<T>(key: string, updater: T | ((previous: T | undefined) => T)) {
+  const data =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T)(getQueryData<T>(key))
+      : updater;
+  update(key, { data, error: undefined, updatedAt: Date.now(), stale: false });
+}
+
+// Resolves from cache when fresh, joins an in-flight request for the same key, otherwise
+// fetches. `force` always starts a new request.
+export function fetchQuery<T>(key: string, fetcher: () => Promise<T>, options: QueryOptions = {}): Promise<T> {
+  const entry = cache.get(key);
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+
+  if (!options.force && entry?.promise) {
+    return entry.promise as Promise<T>;
+  }
+  if (!options.force && entry && entry.data !== undefined && !entry.stale && Date.now() - entry.updatedAt < staleTime) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  // Only the latest request for a key writes back; one superseded by a forced
+  // request or by clearQueryCache (e.g. on logout) is dropped
+  const isCurrent = () => cache.get(key)?.promise === promise;
+  const promise: Promise<T> = fetcher().then(
+    (data) => {
+      if (isCurrent()) update(key, { data, error: undefined, updatedAt: Date.now(), stale: false, promise: undefined });
+      return data;
+    },
+    (error) => {
+      if (isCurrent()) update(key, { error, promise: undefined });
+      throw error;
+    }
+  );
+  update(key, { promise });
+  return promise;
+}
+
+// Marks every key under the prefix stale; keys with mounted subscribers refetch right away
+export function invalidateQueries(prefix: string) {
+  cache.forEach((entry, key) => {
+    if (!matches(key, prefix)) return;
+    update(key, { stale: true });
+
+    const fetcher = fetchers.get(key);
+    if (fetcher && listeners.get(key)?.size) {
+      fetchQuery(key, fetcher, { force: true }).catch((error) => {
+        console.warn(`Failed to revalidate ${key}:`, error);
+      });
+    }
+  });
+}
+
+export function clearQueryCache() {
+  cache.clear();
+  fetchers.clear();
+  listeners.forEach((keyListeners) => keyListeners.forEach((listener) => listener()));
+}
+
+function subscribe(key: string, listener: () => void) {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  keyListeners.add(listener);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(key);
+      fetchers.delete(key);
+    }
+  };
+}
+
+const noop = () => {};
+
+/**
+ * Reads a cached query and keeps it fresh: cached data is returned immediately
+ * and revalidated in the background when stale. Pass a null key to skip fetching
+ * (e.g. until the user is known).
+ */
+export function useQuery<T>(key: string | null, fetcher: () => Promise<T>, options: QueryOptions = {}) {
+  const fetcherRef = useRef(fetcher);
+  const staleTime = options.staleTime;
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const entry = useSyncExternalStore(
+    useCallback((listener: () => void) => (key ? subscribe(key, listener) : noop), [key]),
+    () => (key ? cache.get(key) : undefined),
+    () => undefined
+  );
+
+  useEffect(() => {
+    if (!key) return;
+    const run = () => fetcherRef.current();
+    fetchers.set(key, run);
+    fetchQuery(key, run, { staleTime }).catch((error) => {
+      console.warn(`Failed to fetch ${key}:`, error);
+    });
+  }, [key, staleTime]);
+
+  const refetch = useCallback(async (): Promise<T | undefined> => {
+    if (!key) return undefined;
+    return fetchQuery(key, () => fetcherRef.current(), { force: true });
+  }, [key]);
+
+  return {
+    data: entry?.data as T | undefined,
+    error: entry?.error,
+    isLoading: key !== null && entry?.data === undefined && entry?.error === undefined,
+    isValidating: Boolean(entry?.promise),
+    refetch,
+  };
+}
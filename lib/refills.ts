@@ -0,0 +1,257 @@
+"use client";
+
+import toast from "react-hot-toast";
+import { ordersApi, productsApi, queryKeys } from "./client";
+import { cartUtils } from "./cart";
+import type { CartItem } from "./cart";
+import { addDays, daysBetween, toDateKey, todayKey } from "./dates";
+import { parseDurationDays, parseFrequency, useMedicationSchedule } from "./medications";
+import type { DoseTimetable, MedicationPlan } from "./medications";
+import { useQuery } from "./queryCache";
+import { getSalts } from "./salts";
+import type { CompositionBrand, Order, PrescriptionItem } from "./types";
+
+// How much of each prescribed medicine to buy, when the patient will run out,
+// and turning either into cart lines from the product catalogue.
+
+// Supply bought at a time for medicines with no end date
+export const REFILL_SUPPLY_DAYS = 30;
+// Refill reminders start this many days before the supply runs out
+export const REFILL_WARNING_DAYS = 7;
+
+const COUNTABLE_UNITS = /^(tab|tablet|cap|capsule|pill|puff|drop|sachet|unit|injection)s?\b/;
+
+// Units taken per dose: "2 tablets" is 2, "500mg" is one tablet of 500mg.
+// Liquids ("10 ml") can't be counted this way, so they're null.
+function unitsPerDose(dosage: string): number | null {
+  const text = dosage.toLowerCase().trim();
+  const match = text.match(/^(\d+(?:\.\d+)?|½)\s*([a-z]+)/);
+  if (match && COUNTABLE_UNITS.test(match[2])) return match[1] === "½" ? 0.5 : Number(match[1]);
+  if (/\d\s*ml\b/.test(text)) return null;
+  return 1;
+}
+
+function unitsPerDay(schedule: DoseTimetable, dosage: string): number | null {
+  const perDose = unitsPerDose(dosage);
+  if (perDose === null) return null;
+  const perCycle = schedule.times.reduce((sum, { amount }) => sum + amount, 0);
+  return (perCycle * perDose) / schedule.everyDays;
+}
+
+// Units covering `days` of treatment; one pack when the item can't be counted
+function quantityForDays(item: Pick<PrescriptionItem, "dosage" | "frequency">, days: number): number {
+  const schedule = parseFrequency(item.frequency);
+  const perDay = schedule && unitsPerDay(schedule, item.dosage);
+  return perDay ? Math.max(1, Math.ceil(perDay * days)) : 1;
+}
+
+// dosage × frequency × duration, capped at a month's supply for ongoing medicines
+export function getCourseQuantity(item: PrescriptionItem): number {
+  const days = parseDurationDays(item.duration);
+  if (!days) return 1;
+  return quantityForDays(item, Number.isFinite(days) ? days : REFILL_SUPPLY_DAYS);
+}
+
+// A prescribed name and a catalogue or order name are the same medicine when
+// they come down to the same salts, ignoring strengths, dosage forms and
+// punctuation: "Dolo 650" matches "Dolo-650 Tablet", but "Paracetamol" doesn't
+// match "Paracetamol + Caffeine" and "Zinc" doesn't match "Zincovit"
+export function isSameMedicine(a: string, b: string): boolean {
+  const left = getSalts(a);
+  const right = getSalts(b);
+  return left.length > 0 && left.length === right.length && left.every((salt) => right.includes(salt));
+}
+
+// ---- Catalogue matching ----
+
+export interface RefillRequest {
+  medicineName: string;
+  quantity: number;
+}
+
+interface BrandCandidate {
+  request: RefillRequest;
+  composition: string;
+  medicineName: string;
+  brand: CompositionBrand & { pharmacy: NonNullable<CompositionBrand["pharmacy"]> };
+}
+
+async function findCandidates(request: RefillRequest): Promise<BrandCandidate[]> {
+  const result = await productsApi.byComposition({ search: request.medicineName });
+  return result.compositions.flatMap((match) =>
+    match.brands.flatMap((brand) => {
+      const matches =
+        isSameMedicine(request.medicineName, match.medicineName) ||
+        isSameMedicine(request.medicineName, match.composition) ||
+        isSameMedicine(request.medicineName, brand.brandName);
+      if (!matches || !brand.pharmacy || brand.availableQuantity <= 0) return [];
+      return [
+        {
+          request,
+          composition: match.composition,
+          medicineName: match.medicineName,
+          brand: { ...brand, pharmacy: brand.pharmacy },
+        },
+      ];
+    })
+  );
+}
+
+// Enough stock first, then the cheapest
+function pickBrand(candidates: BrandCandidate[]): BrandCandidate {
+  return [...candidates].sort(
+    (a, b) =>
+      Number(b.brand.availableQuantity >= b.request.quantity) - Number(a.brand.availableQuantity >= a.request.quantity) ||
+      a.brand.sellingPrice - b.brand.sellingPrice
+  )[0];
+}
+
+export interface RefillCartResult {
+  added: CartItem[];
+  // Medicine names nothing in the catalogue matched
+  unmatched: string[];
+}
+
+// Puts catalogue products for the requested medicines in the cart. Each item
+// comes from `preferredPharmacyId` when it stocks it, otherwise from the
+// pharmacy that can supply the most of the list, so checkout stays in as few
+// orders as possible.
+export async function addRefillToCart(requests: RefillRequest[], preferredPharmacyId?: string): Promise<RefillCartResult> {
+  const candidates = await Promise.all(requests.map((request) => findCandidates(request).catch(() => [])));
+
+  const coverage = new Map<string, number>();
+  candidates.forEach((forItem) => {
+    new Set(forItem.map((candidate) => candidate.brand.pharmacy._id)).forEach((pharmacyId) => {
+      coverage.set(pharmacyId, (coverage.get(pharmacyId) ?? 0) + 1);
+    });
+  });
+  const rank = (pharmacyId: string) => (pharmacyId === preferredPharmacyId ? Infinity : (coverage.get(pharmacyId) ?? 0));
+
+  const added: CartItem[] = [];
+  const unmatched: string[] = [];
+  candidates.forEach((forItem, index) => {
+    if (forItem.length === 0) {
+      unmatched.push(requests[index].medicineName);
+      return;
+    }
+    const bestRank = Math.max(...forItem.map((candidate) => rank(candidate.brand.pharmacy._id)));
+    const { brand, composition, medicineName, request } = pickBrand(
+      forItem.filter((candidate) => rank(candidate.brand.pharmacy._id) === bestRank)
+    );
+    const item: CartItem = {
+      productId: brand.inventoryItemId,
+      medicineName: medicineName || composition,
+      composition,
+      brandName: brand.brandName,
+      quantity: Math.min(request.quantity, brand.availableQuantity),
+      price: brand.sellingPrice,
+      mrp: brand.mrp,
+      pharmacyId: brand.pharmacy._id,
+      pharmacyName: brand.pharmacy.name,
+      availableQuantity: brand.availableQuantity,
+    };
+    cartUtils.addToCart(item);
+    added.push(item);
+  });
+
+  return { added, unmatched };
+}
+
+// Every prescription item at its course quantity
+export function prescriptionRefillRequests(items: PrescriptionItem[]): RefillRequest[] {
+  return items.map((item) => ({ medicineName: item.medicineName, quantity: getCourseQuantity(item) }));
+}
+
+// Adds a prescription to the cart at course quantities and returns where to go
+// next: the cart, or the manual order form (prefilled with the same quantities)
+// when nothing in it is stocked
+export async function orderPrescription(prescription: { _id: string; items: PrescriptionItem[] }): Promise<string> {
+  const requests = prescriptionRefillRequests(prescription.items);
+  const { added, unmatched } = await addRefillToCart(requests);
+
+  if (added.length === 0) {
+    sessionStorage.setItem("prescriptionOrder", JSON.stringify({ items: requests, prescriptionId: prescription._id }));
+    return "/orders/new";
+  }
+  toast.success(`Added ${added.length} medicine${added.length !== 1 ? "s" : ""} to your cart`);
+  if (unmatched.length > 0) {
+    toast(`Not available in the store: ${unmatched.join(", ")}`, { icon: "⚠️", duration: 6000 });
+  }
+  return "/cart";
+}
+
+// ---- Refill prediction ----
+
+export interface RefillReminder {
+  plan: MedicationPlan;
+  // Day the current supply runs out
+  runOutKey: string;
+  // Negative once it has run out
+  daysLeft: number;
+  // Units to reorder: the rest of the course, or a month for ongoing medicines
+  quantity: number;
+  // Where this medicine was last ordered from
+  pharmacyId?: string;
+}
+
+const NO_ORDERS: Order[] = [];
+
+// Supply comes from the latest non-cancelled order of the medicine after the
+// prescription; without one the patient is assumed to have bought the course
+// (or a month of an ongoing medicine) when it was prescribed.
+export function getRefillReminders(plans: MedicationPlan[], orders: Order[], today = todayKey()): RefillReminder[] {
+  const ordersNewestFirst = orders
+    .filter((order) => order.status !== "CANCELLED")
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+
+  return plans.flatMap((plan) => {
+    if (plan.endKey && plan.endKey < today) return [];
+    const item = { dosage: plan.dosage, frequency: plan.frequency };
+    const perDay = unitsPerDay(plan.timetable, plan.dosage);
+    if (!perDay) return [];
+
+    const lastOrder = ordersNewestFirst.find(
+      (order) =>
+        Date.parse(order.createdAt) >= plan.startsAt &&
+        order.items.some((orderItem) => isSameMedicine(orderItem.medicineName, plan.medicineName))
+    );
+    let runOutKey: string;
+    if (lastOrder) {
+      const ordered = lastOrder.items
+        .filter((orderItem) => isSameMedicine(orderItem.medicineName, plan.medicineName))
+        .reduce((sum, orderItem) => sum + orderItem.quantity, 0);
+      const suppliedFrom = toDateKey(new Date(lastOrder.deliveredAt ?? lastOrder.createdAt));
+      runOutKey = addDays(suppliedFrom, Math.floor(ordered / perDay));
+    } else {
+      runOutKey = addDays(plan.startKey, plan.endKey ? daysBetween(plan.startKey, plan.endKey) + 1 : REFILL_SUPPLY_DAYS);
+    }
+
+    // The course ends before the supply does
+    if (plan.endKey && runOutKey > plan.endKey) return [];
+    const daysLeft = daysBetween(today, runOutKey);
+    if (daysLeft > REFILL_WARNING_DAYS) return [];
+
+    const remainingDays = plan.endKey ? daysBetween(runOutKey, plan.endKey) + 1 : REFILL_SUPPLY_DAYS;
+    const pharmacyId =
+      lastOrder?.pharmacyId ??
+      ordersNewestFirst.find((order) =>
+        order.items.some((orderItem) => isSameMedicine(orderItem.medicineName, plan.medicineName))
+      )?.pharmacyId;
+    return [{ plan, runOutKey, daysLeft, quantity: quantityForDays(item, remainingDays), pharmacyId }];
+  }).sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+export function useRefillReminders(patientId: string | undefined) {
+  const { plans, today, isLoading } = useMedicationSchedule(patientId);
+  const ordersQuery = useQuery(patientId ? queryKeys.orders(patientId) : null, () =>
+    ordersApi.list({ patientId: patientId! })
+  );
+  const orders = ordersQuery.data ?? NO_ORDERS;
+
+  return {
+    reminders: getRefillReminders(plans, orders, today),
+    // Most recent pharmacy overall, for medicines never ordered before
+    lastPharmacyId: [...orders].sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))[0]?.pharmacyId,
+    isLoading: isLoading || ordersQuery.isLoading,
+  };
+}
@@ -0,0 +1,53 @@
+import type { FinanceEntry, Refund, RefundStatus } from "./types";
+
+// Refund progress shown on appointment/order cards, in /invoices and in /news
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  INITIATED: "Refund initiated",
+  PROCESSING: "Refund processing",
+  COMPLETED: "Refunded",
+  FAILED: "Refund failed",
+};
+
+export const REFUND_STATUS_COLORS: Record<RefundStatus, string> = {
+  INITIATED: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  PROCESSING: "bg-blue-100 text-blue-800 border-blue-300",
+  COMPLETED: "bg-green-100 text-green-800 border-green-300",
+  FAILED: "bg-red-100 text-red-800 border-red-300",
+};
+
+// Notification `type` the backend sends for each step, e.g. REFUND_COMPLETED
+export function getRefundNotificationStatus(type: string): RefundStatus | undefined {
+  const status = type.startsWith("REFUND_") ? type.slice("REFUND_".length) : undefined;
+  return status && status in REFUND_STATUS_LABELS ? (status as RefundStatus) : undefined;
+}
+
+function formatDay(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+export function describeRefund(refund: Refund): string {
+  const amount = `₹${refund.amount.toFixed(2)}`;
+  switch (refund.status) {
+    case "COMPLETED":
+      return refund.completedAt
+        ? `${amount} returned to your original payment method on ${formatDay(refund.completedAt)}`
+        : `${amount} returned to your original payment method`;
+    case "FAILED":
+      return `We couldn't refund ${amount}${refund.failureReason ? `: ${refund.failureReason}` : ""}. Please contact support.`;
+    default:
+      return refund.expectedBy
+        ? `${amount} will reach your original payment method by ${formatDay(refund.expectedBy)}`
+        : `${amount} will be returned to your original payment method`;
+  }
+}
+
+export function isCreditEntry(entry: FinanceEntry): boolean {
+  return entry.direction === "CREDIT";
+}
+
+// Only money that has actually come back offsets a charge; refunds still in
+// progress or failed are listed but not counted
+export function isSettledCredit(entry: FinanceEntry): boolean {
+  return isCreditEntry(entry) && (!entry.meta?.refundStatus || entry.meta.refundStatus === "COMPLETED");
+}
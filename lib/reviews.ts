@@ -0,0 +1,56 @@
+"use client";
+
+import { queryKeys, reviewsApi } from "./client";
+import type { ReviewInput } from "./client";
+import { invalidateQueries, useQuery } from "./queryCache";
+import { useSession } from "./session";
+import type { Appointment, Review } from "./types";
+
+// Quick tags offered in the review prompt
+export const REVIEW_TAGS = [
+  "Explained clearly",
+  "Good listener",
+  "On time",
+  "Thorough",
+  "Friendly",
+  "Long wait",
+  "Felt rushed",
+];
+
+export const RATING_LABELS = ["", "Poor", "Fair", "Good", "Very good", "Excellent"];
+
+// Notification `type` the backend sends to nudge a patient who hasn't reviewed
+// a completed consultation yet
+export const REVIEW_REMINDER_NOTIFICATION = "REVIEW_REMINDER";
+
+const NO_REVIEWS: Review[] = [];
+
+export function useMyReviews() {
+  const { isAuthenticated } = useSession();
+  const { data, isLoading } = useQuery(isAuthenticated ? queryKeys.myReviews() : null, () => reviewsApi.mine());
+  return { reviews: data ?? NO_REVIEWS, isLoading };
+}
+
+// Reviews change the doctor's rating and review list, so those refresh too
+function invalidateReviews(doctorId: string) {
+  invalidateQueries(queryKeys.myReviews());
+  invalidateQueries(queryKeys.doctor(doctorId));
+  invalidateQueries("/api/public/doctors/directory");
+}
+
+export async function saveReview(input: ReviewInput, existing?: Review): Promise<Review> {
+  const saved = existing
+    ? await reviewsApi.update(existing._id, { rating: input.rating, tags: input.tags, comment: input.comment })
+    : await reviewsApi.create(input);
+  invalidateReviews(saved.doctorId);
+  return saved;
+}
+
+export async function deleteReview(review: Review): Promise<void> {
+  await reviewsApi.remove(review._id);
+  invalidateReviews(review.doctorId);
+}
+
+export function canReview(appointment: Appointment): boolean {
+  return appointment.status === "COMPLETED";
+}
@@ -0,0 +1,49 @@
+// Route access map shared by the proxy (server side) and RouteGuard (client side).
+// "guest" pages are for signed-out visitors only, "public" pages are open to
+// everyone, and anything not listed here requires a session.
+
+export type RouteAccess = "guest" | "public" | "protected";
+
+const ROUTE_ACCESS: Record<string, RouteAccess> = {
+  "/": "guest",
+  "/signup": "guest",
+  "/login-otp": "guest",
+  "/forgot-password": "guest",
+  // Opened from email links, which may land in a tab that is already signed in
+  "/reset-password": "public",
+  "/verify-email": "public",
+};
+
+export const LOGIN_PATH = "/";
+export const DEFAULT_AUTHENTICATED_PATH = "/dashboard";
+
+// Non-httpOnly marker the client sets next to its session so the proxy can tell
+// signed-in visitors apart before any page renders. It carries no credentials.
+export const SESSION_COOKIE = "patient_session";
+
+// Exact match first, then the longest listed prefix ("/orders" covers "/orders/track/1")
+export function getRouteAccess(pathname: string): RouteAccess {
+  if (ROUTE_ACCESS[pathname]) return ROUTE_ACCESS[pathname];
+
+  const prefix = Object.keys(ROUTE_ACCESS)
+    .filter((route) => route !== "/" && pathname.startsWith(route + "/"))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? ROUTE_ACCESS[prefix] : "protected";
+}
+
+// Only same-origin paths to protected pages are honoured, so returnTo can't be
+// used as an open redirect or to bounce between guest pages
+export function safeReturnTo(returnTo: string | null | undefined): string {
+  if (!returnTo || !returnTo.startsWith("/") || returnTo.startsWith("//") || returnTo.startsWith("/\\")) {
+    return DEFAULT_AUTHENTICATED_PATH;
+  }
+  const pathname = returnTo.split(/[?#]/)[0];
+  return getRouteAccess(pathname) === "protected" ? returnTo : DEFAULT_AUTHENTICATED_PATH;
+}
+
+export function loginUrl(returnTo?: string): string {
+  if (!returnTo || safeReturnTo(returnTo) !== returnTo || returnTo === DEFAULT_AUTHENTICATED_PATH) {
+    return LOGIN_PATH;
+  }
+  return `${LOGIN_PATH}?returnTo=${encodeURIComponent(returnTo)}`;
+}
@@ -0,0 +1,44 @@
+// Active ingredients ("salts") named in a composition, brand or prescribed
+// medicine name, normalised so the same medicine reads the same wherever it
+// comes from: strengths, dosage forms and salt forms are dropped.
+
+const SALT_ALIASES: Record<string, string> = {
+  acetaminophen: "paracetamol",
+  "acetylsalicylic acid": "aspirin",
+  clavulanate: "clavulanic acid",
+  "potassium clavulanate": "clavulanic acid",
+  "glyceryl trinitrate": "nitroglycerin",
+  "aluminum hydroxide": "aluminium hydroxide",
+  "ferrous sulfate": "ferrous sulphate",
+};
+
+// Names that stand for a fixed combination of salts
+const COMBINATIONS: Record<string, string[]> = {
+  cotrimoxazole: ["sulfamethoxazole", "trimethoprim"],
+  "co trimoxazole": ["sulfamethoxazole", "trimethoprim"],
+};
+
+// Strengths and dosage-form words that aren't part of the salt name
+const NOISE_WORDS =
+  /\b(\d+(\.\d+)?\s*(mg|mcg|g|ml|iu|meq|mmol)?|w\/[vw]|tablets?|tabs?|capsules?|caps?|syrup|suspension|injection|cream|gel|drops?|ip|bp|usp|sustained release|sr|er|xr|ds)\b/g;
+// Salt forms after the active ingredient: "diclofenac sodium", "sildenafil citrate"
+const SALT_FORM =
+  / (sodium|potassium|calcium|magnesium|hydrochloride|hcl|hydrobromide|citrate|maleate|besylate|besilate|succinate|tartrate|mesylate|fumarate|oxalate|bisulphate|bisulfate|propionate|dipropionate|hyclate|monohydrate|dihydrate|trihydrate|sesquihydrate)$/;
+
+export function normalizeSalt(value: string): string {
+  let salt = value.toLowerCase().replace(NOISE_WORDS, " ").replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ").trim();
+  if (SALT_ALIASES[salt]) return SALT_ALIASES[salt];
+  while (SALT_FORM.test(salt)) salt = salt.replace(SALT_FORM, "");
+  return SALT_ALIASES[salt] ?? salt;
+}
+
+// "Amoxicillin 500mg + Clavulanic Acid 125mg" -> ["amoxicillin", "clavulanic acid"]
+export function getSalts(composition: string): string[] {
+  const salts = composition
+    .replace(/\bw\/[vw]\b/gi, " ")
+    .split(/\+|,|&|\/|\band\b|\bwith\b/i)
+    .map(normalizeSalt)
+    .flatMap((salt) => COMBINATIONS[salt] ?? [salt])
+    .filter((salt) => salt.length > 2);
+  return [...new Set(salts)];
+}
@@ -0,0 +1,108 @@
+// Minimal runtime validators for API responses
+import { ResponseValidationError } from "./errors";
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+class SchemaMismatch {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown
+  ) {}
+}
+
+function mismatch(path: string, expected: string, received: unknown): never {
+  throw new SchemaMismatch(path, expected, received);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export const string: Schema<string> = (value, path) =>
+  typeof value === "string" ? value : mismatch(path, "string", value);
+
+export const number: Schema<number> = (value, path) =>
+  typeof value === "number" && !Number.isNaN(value) ? value : mismatch(path, "number", value);
+
+export const boolean: Schema<boolean> = (value, path) =>
+  typeof value === "boolean" ? value : mismatch(path, "boolean", value);
+
+// Mongo ids sometimes arrive populated ({ _id }) or numeric; always hand pages a string
+export const id: Schema<string> = (value, path) => {
+  if (typeof value === "string" || typeof value === "number") return String(value);
+  if (isRecord(value) && (typeof value._id === "string" || typeof value.id === "string")) {
+    return String(value._id ?? value.id);
+  }
+  return mismatch(path, "id", value);
+};
+
+export const unknown: Schema<unknown> = (value) => value;
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) return mismatch(path, "array", value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+// Accepts a bare array or the `{ success, data }` / `{ data }` envelopes some endpoints use
+export function list<T>(item: Schema<T>): Schema<T[]> {
+  const items = array(item);
+  return (value, path) => {
+    if (isRecord(value) && Array.isArray(value.data)) return items(value.data, `${path}.data`);
+    return items(value, path);
+  };
+}
+
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (!isRecord(value)) return mismatch(path, "object", value);
+    const result: Record<string, T> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = entry(child, `${path}.${key}`);
+    }
+    return result;
+  };
+}
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+// Validates the listed fields; fields the backend adds beyond the shape are kept as-is
+export function object<T extends object>(shape: Shape<T>): Schema<T> {
+  return (value, path) => {
+    if (!isRecord(value)) return mismatch(path, "object", value);
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const parsed = shape[key](value[key], `${path}.${key}`);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    }
+    return result as T;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path) =>
+    typeof value === "string" && (values as readonly string[]).includes(value)
+      ? (value as T)
+      : mismatch(path, values.join(" | "), value);
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown, endpoint: string): T {
+  try {
+    return schema(value, "$");
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      throw new ResponseValidationError(endpoint, error.path, error.expected, error.received);
+    }
+    throw error;
+  }
+}
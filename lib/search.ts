@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { appointmentsApi, conversationsApi, doctorLoader, notificationsApi, prescriptionsApi, queryKeys } from "./client";
+import { useActiveMember } from "./familyMembers";
+import { useQuery } from "./queryCache";
+import type { Appointment, Conversation, Notification, Prescription } from "./types";
+
+// Client-side search over what the patient can already load: consultation
+// messages, prescription items and notifications. The index is rebuilt from the
+// cached lists, so it follows socket invalidation like the pages do.
+
+export const SEARCH_TYPES = ["message", "prescription", "notification"] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export const SEARCH_TYPE_LABELS: Record<SearchType, string> = {
+  message: "Messages",
+  prescription: "Prescriptions",
+  notification: "Notifications",
+};
+
+export const SEARCH_DATE_RANGES = [
+  { value: "any", label: "Any time", days: null },
+  { value: "week", label: "Past 7 days", days: 7 },
+  { value: "month", label: "Past 30 days", days: 30 },
+  { value: "year", label: "Past year", days: 365 },
+] as const;
+export type SearchDateRange = (typeof SEARCH_DATE_RANGES)[number]["value"];
+
+export interface SearchDocument {
+  id: string;
+  type: SearchType;
+  title: string;
+  body: string;
+  date: string;
+  doctorId?: string;
+  href: string;
+}
+
+export interface SearchFilters {
+  type?: SearchType;
+  dateRange?: SearchDateRange;
+  doctorId?: string;
+}
+
+export interface SearchResult extends SearchDocument {
+  score: number;
+}
+
+const MAX_RESULTS = 50;
+
+export function tokenize(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Messages link to the live chat while the consultation is open and to the
+// transcript once it has ended; both scroll to and highlight the message
+export function messageHref(conversation: Conversation, index: number): string {
+  return conversation.isActive === false
+    ? `/transcripts?conversation=${conversation._id}&message=${index}`
+    : `/consultation/${conversation.appointmentId}?message=${index}`;
+}
+
+interface IndexSources {
+  conversations: Conversation[];
+  prescriptions: Prescription[];
+  notifications: Notification[];
+  appointments: Appointment[];
+  doctorNames: Record<string, string>;
+}
+
+export function buildSearchIndex({ conversations, prescriptions, notifications, appointments, doctorNames }: IndexSources) {
+  const appointmentDoctor = new Map(appointments.map((appointment) => [appointment._id, appointment.doctorId]));
+  const doctorLabel = (doctorId?: string) => (doctorId && doctorNames[doctorId] ? `Dr. ${doctorNames[doctorId]}` : "Doctor");
+  const documents: SearchDocument[] = [];
+
+  conversations.forEach((conversation) => {
+    const doctorId = appointmentDoctor.get(conversation.appointmentId);
+    conversation.messages.forEach((msg, index) => {
+      documents.push({
+        id: `${conversation._id}:${index}`,
+        type: "message",
+        title: msg.senderRole === "DOCTOR" ? doctorLabel(doctorId) : "You",
+        body: msg.attachment ? `${msg.content} ${msg.attachment.name}` : msg.content,
+        date: msg.timestamp,
+        doctorId,
+        href: messageHref(conversation, index),
+      });
+    });
+  });
+
+  prescriptions.forEach((prescription) => {
+    prescription.items.forEach((item, index) => {
+      documents.push({
+        id: `${prescription._id}:${index}`,
+        type: "prescription",
+        title: item.medicineName,
+        body: [item.dosage, item.frequency, item.duration, item.notes, `Prescribed by ${doctorLabel(prescription.doctorId)}`]
+          .filter(Boolean)
+          .join(" · "),
+        date: prescription.createdAt,
+        doctorId: prescription.doctorId,
+        href: `/records?prescription=${prescription._id}`,
+      });
+    });
+  });
+
+  notifications.forEach((notification) => {
+    documents.push({
+      id: notification._id,
+      type: "notification",
+      title: notification.title,
+      body: notification.message,
+      date: notification.createdAt,
+      href: `/news#notification-${notification._id}`,
+    });
+  });
+
+  return documents;
+}
+
+// Every term has to appear; title hits and whole-word hits rank higher, then newer first
+export function searchDocuments(documents: SearchDocument[], query: string, filters: SearchFilters = {}): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+  const days = SEARCH_DATE_RANGES.find((range) => range.value === filters.dateRange)?.days;
+  const since = days ? Date.now() - days * 24 * 60 * 60 * 1000 : null;
+
+  const results: SearchResult[] = [];
+  documents.forEach((doc) => {
+    if (filters.type && doc.type !== filters.type) return;
+    if (filters.doctorId && doc.doctorId !== filters.doctorId) return;
+    if (since !== null && new Date(doc.date).getTime() < since) return;
+
+    const title = doc.title.toLowerCase();
+    const body = doc.body.toLowerCase();
+    let score = 0;
+    for (const term of terms) {
+      const inTitle = title.includes(term);
+      if (!inTitle && !body.includes(term)) return;
+      score += inTitle ? 3 : 1;
+      if (new RegExp(`\\b${escapeRegExp(term)}\\b`).test(`${title} ${body}`)) score += 1;
+    }
+    results.push({ ...doc, score });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, MAX_RESULTS);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Splits text into matched / unmatched runs for highlighting
+export function highlightSegments(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (terms.length === 0) return [{ text, match: false }];
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+// A window of `text` around the first match, so long messages stay readable
+export function getSnippet(text: string, terms: string[], radius = 60): string {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0));
+  if (!Number.isFinite(first) || text.length <= radius * 2) return text;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius * 2);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+}
+
+const NO_CONVERSATIONS: Conversation[] = [];
+const NO_PRESCRIPTIONS: Prescription[] = [];
+const NO_NOTIFICATIONS: Notification[] = [];
+const NO_APPOINTMENTS: Appointment[] = [];
+
+// Loads the searchable lists for the active family member while `enabled`
+export function useSearchIndex(enabled: boolean) {
+  const { activeMember } = useActiveMember();
+  const patientId = enabled ? activeMember?.id : undefined;
+
+  const conversationsQuery = useQuery(patientId ? queryKeys.conversations(patientId) : null, () =>
+    conversationsApi.list({ patientId: patientId! })
+  );
+  const prescriptionsQuery = useQuery(patientId ? queryKeys.prescriptions({ patientId }) : null, () =>
+    prescriptionsApi.list({ patientId: patientId! })
+  );
+  const appointmentsQuery = useQuery(patientId ? queryKeys.appointments(patientId) : null, () =>
+    appointmentsApi.list({ patientId: patientId! })
+  );
+  const notificationsQuery = useQuery(enabled ? queryKeys.notifications() : null, () => notificationsApi.mine());
+
+  const conversations = conversationsQuery.data ?? NO_CONVERSATIONS;
+  const prescriptions = prescriptionsQuery.data ?? NO_PRESCRIPTIONS;
+  const appointments = appointmentsQuery.data ?? NO_APPOINTMENTS;
+  const notifications = notificationsQuery.data ?? NO_NOTIFICATIONS;
+
+  const [doctorNames, setDoctorNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const doctorIds = new Set([
+      ...appointments.map((appointment) => appointment.doctorId),
+      ...prescriptions.map((prescription) => prescription.doctorId),
+    ]);
+    let cancelled = false;
+    Promise.all(
+      [...doctorIds].map((doctorId) =>
+        doctorLoader
+          .load(doctorId)
+          .then((doctor) => [doctorId, doctor.name] as const)
+          .catch(() => null)
+      )
+    ).then((entries) => {
+      if (cancelled) return;
+      const names: Record<string, string> = {};
+      entries.forEach((entry) => {
+        if (entry) names[entry[0]] = entry[1];
+      });
+      setDoctorNames(names);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [appointments, prescriptions]);
+
+  const documents = buildSearchIndex({ conversations, prescriptions, notifications, appointments, doctorNames });
+  const doctors = Object.entries(doctorNames)
+    .map(([id, name]) => ({ id, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const isLoading =
+    conversationsQuery.isLoading || prescriptionsQuery.isLoading || notificationsQuery.isLoading || appointmentsQuery.isLoading;
+
+  return { documents, doctors, isLoading };
+}
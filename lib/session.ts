@@ -0,0 +1,221 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { clearOutbox } from "./outbox";
+import { clearQueryCache } from "./queryCache";
+import { SESSION_COOKIE } from "./routes";
+import { disconnectSocket } from "./socket";
+import type { User } from "./types";
+
+// Session state for the whole app: who is logged in and the tokens apiFetch and
+// the socket authenticate with. In cookie mode (NEXT_PUBLIC_AUTH_MODE=cookie) the
+// backend keeps both tokens in httpOnly cookies and only the user profile is stored here.
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE;
+export const isCookieMode = process.env.NEXT_PUBLIC_AUTH_MODE === "cookie";
+
+const TOKEN_KEY = "token";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const USER_KEY = "user";
+const SESSION_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+
+export type SessionUser = User & { id: string };
+
+export type SessionStatus = "loading" | "authenticated" | "unauthenticated";
+
+export interface Session {
+  status: SessionStatus;
+  user: SessionUser | null;
+  accessToken: string | null;
+}
+
+export interface SessionTokens {
+  token?: string;
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+const LOADING_SESSION: Session = { status: "loading", user: null, accessToken: null };
+const SIGNED_OUT_SESSION: Session = { status: "unauthenticated", user: null, accessToken: null };
+
+let session: Session | null = null;
+let refreshPromise: Promise<boolean> | null = null;
+const listeners = new Set<() => void>();
+
+// Older logins stored `_id` only; pages rely on `id`
+function normalizeUser(user: User): SessionUser {
+  return { ...user, id: String(user.id ?? user._id ?? "") };
+}
+
+function readStoredSession(): Session {
+  try {
+    const storedUser = localStorage.getItem(USER_KEY);
+    const accessToken = isCookieMode ? null : localStorage.getItem(TOKEN_KEY);
+    if (!storedUser || (!isCookieMode && !accessToken)) {
+      return SIGNED_OUT_SESSION;
+    }
+    return { status: "authenticated", user: normalizeUser(JSON.parse(storedUser)), accessToken };
+  } catch {
+    return SIGNED_OUT_SESSION;
+  }
+}
+
+// Keeps the proxy's marker cookie in step with the stored session, including
+// sessions restored from storage and logouts in other tabs
+function syncSessionCookie(status: SessionStatus) {
+  document.cookie =
+    status === "authenticated"
+      ? `${SESSION_COOKIE}=1; path=/; max-age=${SESSION_COOKIE_MAX_AGE}; SameSite=Lax`
+      : `${SESSION_COOKIE}=; path=/; max-age=0; SameSite=Lax`;
+}
+
+function setSession(next: Session) {
+  session = next;
+  syncSessionCookie(next.status);
+  listeners.forEach((listener) => listener());
+}
+
+export function getSession(): Session {
+  if (typeof window === "undefined") return LOADING_SESSION;
+  if (!session) {
+    session = readStoredSession();
+    syncSessionCookie(session.status);
+    window.addEventListener("storage", handleStorageChange);
+  }
+  return session;
+}
+
+export function getAccessToken(): string | null {
+  return getSession().accessToken;
+}
+
+export function hasSession(): boolean {
+  return getSession().status === "authenticated";
+}
+
+function storeTokens(tokens: SessionTokens): string | null {
+  if (isCookieMode) return null;
+
+  const accessToken = tokens.accessToken ?? tokens.token ?? null;
+  if (accessToken) localStorage.setItem(TOKEN_KEY, accessToken);
+  // Refresh tokens rotate: every refresh response replaces the previous one
+  if (tokens.refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  return accessToken;
+}
+
+export function startSession(user: User, tokens: SessionTokens) {
+  const accessToken = storeTokens(tokens);
+  const sessionUser = normalizeUser(user);
+  localStorage.setItem(USER_KEY, JSON.stringify(sessionUser));
+  setSession({ status: "authenticated", user: sessionUser, accessToken });
+}
+
+export function updateSessionUser(changes: Partial<User>) {
+  const current = getSession();
+  if (!current.user) return;
+
+  const user = normalizeUser({ ...current.user, ...changes });
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  setSession({ ...current, user });
+}
+
+function clearLocalSession() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+  clearQueryCache();
+  // Queued chat messages and report uploads are never sent from the next session
+  clearOutbox().catch(() => {});
+  disconnectSocket();
+  setSession(SIGNED_OUT_SESSION);
+}
+
+// Clearing storage also logs out other open tabs through the storage event
+export async function endSession() {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  const accessToken = getAccessToken();
+  clearLocalSession();
+
+  // Best effort: revokes the refresh token / clears the auth cookies server-side
+  await fetch(`${API_BASE}/api/users/logout`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+    credentials: "include",
+  }).catch(() => undefined);
+}
+
+async function requestRefresh(): Promise<boolean> {
+  const refreshToken = isCookieMode ? null : localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!isCookieMode && !refreshToken) return false;
+
+  try {
+    const response = await fetch(`${API_BASE}/api/users/refresh-token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+      credentials: "include",
+    });
+    if (!response.ok) return false;
+
+    const data: SessionTokens & { user?: User } = await response.json().catch(() => ({}));
+    const accessToken = storeTokens(data);
+    if (!isCookieMode && !accessToken) return false;
+
+    const current = getSession();
+    const user = data.user ? normalizeUser(data.user) : current.user;
+    if (data.user) localStorage.setItem(USER_KEY, JSON.stringify(user));
+    setSession({ status: "authenticated", user, accessToken });
+    return true;
+  } catch (error) {
+    console.error("Session refresh failed:", error);
+    return false;
+  }
+}
+
+// Concurrent 401s share one refresh so a rotated refresh token is only spent once
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+function handleStorageChange(event: StorageEvent) {
+  if (event.key !== null && event.key !== USER_KEY && event.key !== TOKEN_KEY) return;
+
+  const next = readStoredSession();
+  if (next.status === "unauthenticated" && session?.status === "authenticated") {
+    // Logged out in another tab
+    clearQueryCache();
+    disconnectSocket();
+  }
+  setSession(next);
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Current session for components. Redirects for signed-out visitors are handled
+ * centrally by proxy.ts and RouteGuard, not by pages.
+ */
+export function useSession() {
+  const current = useSyncExternalStore(subscribe, getSession, () => LOADING_SESSION);
+
+  return {
+    ...current,
+    isAuthenticated: current.status === "authenticated",
+    updateUser: updateSessionUser,
+    logout: endSession,
+  };
+}
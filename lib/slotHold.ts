@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { schedulesApi } from "./client";
+import { addDays, toDateKey } from "./dates";
+import type { Slot, SlotHold } from "./types";
+
+interface ActiveHold {
+  hold: SlotHold;
+  // Local Date.now() at which the hold runs out
+  deadline: number;
+}
+
+function toDeadline(hold: SlotHold): number {
+  return hold.ttlSeconds ? Date.now() + hold.ttlSeconds * 1000 : Date.parse(hold.expiresAt);
+}
+
+// Holds the slot picked in the booking flow until the appointment is created.
+// The hold is released when the patient picks another slot, leaves the page or
+// closes the tab; when it runs out `expiredHold` is set so the page can offer
+// the nearest alternative.
+export function useSlotHold() {
+  const [active, setActive] = useState<ActiveHold | null>(null);
+  const [expiredHold, setExpiredHold] = useState<SlotHold | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Read by the unmount/pagehide cleanup, which can't see current state
+  const activeRef = useRef<ActiveHold | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= active.deadline) {
+        activeRef.current = null;
+        setActive(null);
+        setExpiredHold(active.hold);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  useEffect(() => {
+    const releaseOnExit = () => {
+      const current = activeRef.current;
+      if (!current) return;
+      activeRef.current = null;
+      schedulesApi.releaseHold(current.hold._id, { keepalive: true }).catch(() => {});
+    };
+    window.addEventListener("pagehide", releaseOnExit);
+    return () => {
+      window.removeEventListener("pagehide", releaseOnExit);
+      releaseOnExit();
+    };
+  }, []);
+
+  // Acquires run one at a time, so quick clicks on two slots still release
+  // the first hold once the second one is taken
+  const acquireQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Throws ApiError (isConflict) when someone else booked or held the slot first
+  const acquire = useCallback((slotId: string, patientId?: string): Promise<SlotHold> => {
+    const run = async () => {
+      const previous = activeRef.current;
+      if (previous?.hold.slotId === slotId) return previous.hold;
+
+      const hold = await schedulesApi.holdSlot(slotId, { patientId });
+      if (previous) {
+        schedulesApi.releaseHold(previous.hold._id).catch(() => {});
+      }
+      const next = { hold, deadline: toDeadline(hold) };
+      activeRef.current = next;
+      setActive(next);
+      setNow(Date.now());
+      setExpiredHold(null);
+      return hold;
+    };
+    const attempt = acquireQueueRef.current.then(run, run);
+    acquireQueueRef.current = attempt.catch(() => {});
+    return attempt;
+  }, []);
+
+  const release = useCallback(async () => {
+    const current = activeRef.current;
+    activeRef.current = null;
+    setActive(null);
+    setExpiredHold(null);
+    if (current) {
+      await schedulesApi.releaseHold(current.hold._id).catch(() => {});
+    }
+  }, []);
+
+  // The appointment was created from the hold, so there's nothing left to release
+  const consume = useCallback(() => {
+    activeRef.current = null;
+    setActive(null);
+  }, []);
+
+  return {
+    hold: active?.hold ?? null,
+    secondsLeft: active ? Math.max(0, Math.ceil((active.deadline - now) / 1000)) : 0,
+    expiredHold,
+    acquire,
+    release,
+    consume,
+  };
+}
+
+const NEAREST_SLOT_SEARCH_DAYS = 7;
+
+// The free slot closest to `around` (an ISO time): its own day first, then the
+// following days. Null when nothing opens up within a week.
+export async function findNearestSlot(
+  params: { doctorId: string; hospitalId?: string },
+  around: string,
+  excludeSlotId?: string
+): Promise<Slot | null> {
+  const target = Date.parse(around);
+  const distance = (slot: Slot) => Math.abs(Date.parse(slot.startTime) - target);
+  let day = toDateKey(new Date(target));
+
+  for (let i = 0; i < NEAREST_SLOT_SEARCH_DAYS; i++) {
+    const slots = await schedulesApi.availableSlots({ ...params, date: day });
+    const candidates = slots.filter(
+      (slot) => !slot.isBooked && slot._id !== excludeSlotId && Date.parse(slot.startTime) > Date.now()
+    );
+    if (candidates.length > 0) {
+      return candidates.reduce((best, slot) => (distance(slot) < distance(best) ? slot : best));
+    }
+    day = addDays(day, 1);
+  }
+  return null;
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { io, Socket } from "socket.io-client";
+import { invalidateQueries } from "./queryCache";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_BASE;
 
@@ -9,18 +10,46 @@ let isInitializing = false;
 let connectionTimeout: NodeJS.Timeout | null = null;
 let connectionErrorCount = 0;
 
-export function initializeSocket(token: string): Socket | null {
-  if (typeof window === "undefined") {
-    return null;
-  }
+// Cached endpoints each server event makes stale. Most events also create a
+// notification server-side, so the notification list is refreshed with them.
+const CACHE_INVALIDATIONS: Record<string, string[]> = {
+  "notification:new": ["/api/notifications"],
+  "appointment:created": ["/api/appointments", "/api/notifications"],
+  "appointment:statusUpdated": ["/api/appointments", "/api/notifications"],
+  "prescription:created": ["/api/prescriptions", "/api/notifications"],
+  "prescription:finalized": ["/api/prescriptions", "/api/notifications"],
+  "order:created": ["/api/orders", "/api/notifications"],
+  "order:statusUpdated": ["/api/orders", "/api/notifications"],
+  "message:created": ["/api/conversations", "/api/notifications"],
+  "report:requested": ["/api/report-requests", "/api/notifications"],
+  "report:uploaded": ["/api/report-requests", "/api/notifications"],
+  "refund:initiated": ["/api/appointments", "/api/orders", "/api/finance", "/api/notifications"],
+  "refund:updated": ["/api/appointments", "/api/orders", "/api/finance", "/api/notifications"],
+  "slot:updated": ["/api/schedules"],
+  "slot:booked": ["/api/schedules"],
+};
+
+function bindCacheInvalidation(socket: Socket) {
+  Object.entries(CACHE_INVALIDATIONS).forEach(([event, prefixes]) => {
+    socket.on(event, () => prefixes.forEach(invalidateQueries));
+  });
+
+  // Events may have been missed while disconnected
+  let hasConnected = false;
+  socket.on("connect", () => {
+    if (hasConnected) invalidateQueries("/api");
+    hasConnected = true;
+  });
+}
 
-  if (!token) {
-    console.warn("Cannot initialize socket: No token provided");
+// Pass null in cookie auth mode: the handshake then relies on the session cookie
+export function initializeSocket(token: string | null): Socket | null {
+  if (typeof window === "undefined") {
     return null;
   }
 
   if (socket?.connected) {
-    const currentToken = (socket.auth as any)?.token;
+    const currentToken = (socket.auth as { token?: string | null })?.token ?? null;
     if (currentToken === token) {
       return socket;
     }
@@ -59,9 +88,8 @@ export function initializeSocket(token: string): Socket | null {
       transports: ["websocket", "polling"],
       upgrade: true,
       rememberUpgrade: true,
-      auth: {
-        token,
-      },
+      auth: token ? { token } : {},
+      withCredentials: true,
       reconnection: true,
       reconnectionDelay: 2000,
       reconnectionDelayMax: 10000,
@@ -71,6 +99,8 @@ export function initializeSocket(token: string): Socket | null {
       autoConnect: true,
     });
 
+    bindCacheInvalidation(socket);
+
     connectionTimeout = setTimeout(() => {
       if (socket && !socket.connected) {
         console.warn("Socket connection timeout, disabling reconnection");
@@ -185,3 +215,10 @@ export function offSocketEvent(event: string, callback?: (data: any) => void) {
 }
 
 
+
+// Returns false when there's no live connection to send on
+export function emitSocketEvent(event: string, data: unknown): boolean {
+  if (!socket?.connected) return false;
+  socket.emit(event, data);
+  return true;
+}
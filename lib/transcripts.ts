@@ -0,0 +1,257 @@
+import { formatFileSize } from "./uploads";
+import { createPdfWriter } from "./pdf";
+import type { Appointment, Conversation, DoctorSummary, HospitalSummary, MessageAttachment } from "./types";
+
+// Consultation transcript exports. Everything is built from one Transcript so
+// the PDF, JSON and FHIR outputs agree on who said what.
+
+export const TRANSCRIPT_FORMATS = [
+  { format: "pdf", label: "PDF", description: "Printable transcript" },
+  { format: "json", label: "JSON", description: "Structured data" },
+  { format: "fhir", label: "FHIR", description: "Communication bundle for another provider" },
+] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number]["format"];
+
+export interface TranscriptParticipant {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export interface TranscriptMessage {
+  sentAt: string;
+  sender: TranscriptParticipant;
+  messageType: string;
+  content: string;
+  attachment?: MessageAttachment;
+}
+
+export interface Transcript {
+  conversationId: string;
+  appointmentId: string;
+  clinic?: HospitalSummary & { id?: string };
+  channel?: string;
+  startedAt: string;
+  endedAt?: string;
+  summary?: string;
+  doctor: TranscriptParticipant & { specialization?: string };
+  patient: TranscriptParticipant;
+  messages: TranscriptMessage[];
+  exportedAt: string;
+}
+
+export interface TranscriptSource {
+  conversation: Conversation;
+  appointment?: Appointment & { doctor?: DoctorSummary };
+  // The account holder or family member the consultation was for
+  patient: { id: string; name: string };
+  clinic?: HospitalSummary;
+}
+
+export function buildTranscript({ conversation, appointment, patient, clinic }: TranscriptSource): Transcript {
+  const doctorName = appointment?.doctor?.name;
+  const doctor = {
+    id: appointment?.doctorId ?? "unknown",
+    name: doctorName ? `Dr. ${doctorName}` : "Doctor",
+    role: "Doctor",
+    specialization: appointment?.doctor?.specialization,
+  };
+  const patientParticipant = { id: patient.id, name: appointment?.patientName || patient.name, role: "Patient" };
+  const hospital = clinic ?? appointment?.hospital;
+
+  return {
+    conversationId: conversation._id,
+    appointmentId: conversation.appointmentId,
+    clinic: hospital && { ...hospital, id: appointment?.hospitalId },
+    channel: appointment?.channel,
+    startedAt: conversation.startedAt,
+    endedAt: conversation.endedAt,
+    summary: conversation.summary,
+    doctor,
+    patient: patientParticipant,
+    messages: conversation.messages.map((msg) => ({
+      sentAt: msg.timestamp,
+      sender:
+        msg.senderRole === "DOCTOR"
+          ? doctor
+          : msg.senderRole === "PATIENT"
+            ? patientParticipant
+            : { id: msg.senderId, name: msg.senderRole, role: msg.senderRole },
+      messageType: msg.messageType,
+      content: msg.content,
+      attachment: msg.attachment,
+    })),
+    exportedAt: new Date().toISOString(),
+  };
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function attachmentsOf(transcript: Transcript) {
+  return transcript.messages.flatMap((msg) => (msg.attachment ? [{ ...msg.attachment, message: msg }] : []));
+}
+
+export function transcriptToPdf(transcript: Transcript): Blob {
+  const { clinic, doctor, patient } = transcript;
+  const gray: [number, number, number] = [0.4, 0.4, 0.4];
+  const pdf = createPdfWriter({
+    title: `Consultation transcript - ${formatDateTime(transcript.startedAt)}`,
+    header: [
+      { text: clinic?.name || "Consultation Transcript", options: { size: 14, bold: true } },
+      ...(clinic?.address ? [{ text: clinic.address, options: { size: 9, color: gray } }] : []),
+    ],
+    footer: `Exported ${formatDateTime(transcript.exportedAt)}`,
+  });
+
+  pdf.text("Consultation Transcript", { size: 16, bold: true, spaceBefore: 4 });
+  pdf.text(`Started: ${formatDateTime(transcript.startedAt)}`, { spaceBefore: 6 });
+  pdf.text(transcript.endedAt ? `Ended: ${formatDateTime(transcript.endedAt)}` : "Status: Ongoing");
+  if (transcript.channel) pdf.text(`Type: ${transcript.channel === "VIDEO" ? "Online" : "In-clinic"} consultation`);
+
+  pdf.text("Participants", { size: 12, bold: true, spaceBefore: 12 });
+  pdf.text(`${doctor.name} - ${doctor.role}${doctor.specialization ? `, ${doctor.specialization}` : ""}`, { indent: 10 });
+  pdf.text(`${patient.name} - ${patient.role}`, { indent: 10 });
+
+  if (transcript.summary) {
+    pdf.text("Summary", { size: 12, bold: true, spaceBefore: 12 });
+    pdf.text(transcript.summary);
+  }
+
+  pdf.text("Messages", { size: 12, bold: true, spaceBefore: 12 });
+  pdf.rule(2);
+  if (transcript.messages.length === 0) pdf.text("No messages.", { color: gray });
+  transcript.messages.forEach((msg) => {
+    pdf.keepTogether(40);
+    pdf.text(`${msg.sender.name} (${msg.sender.role}) · ${formatDateTime(msg.sentAt)}`, {
+      size: 9,
+      bold: true,
+      color: gray,
+      spaceBefore: 8,
+    });
+    if (msg.attachment) {
+      pdf.text(`[Attachment: ${msg.attachment.name}, ${formatFileSize(msg.attachment.size)}]`, { indent: 10 });
+    } else {
+      pdf.text(msg.messageType === "AUDIO" ? `${msg.content} [Audio message]` : msg.content, { indent: 10 });
+    }
+  });
+
+  const attachments = attachmentsOf(transcript);
+  if (attachments.length > 0) {
+    pdf.keepTogether(80);
+    pdf.text("Attachments", { size: 12, bold: true, spaceBefore: 16 });
+    pdf.rule(2);
+    attachments.forEach((attachment, index) => {
+      pdf.keepTogether(40);
+      pdf.text(`${index + 1}. ${attachment.name}`, { bold: true, spaceBefore: 6 });
+      pdf.text(
+        `${attachment.mimeType}, ${formatFileSize(attachment.size)} · sent by ${attachment.message.sender.name} on ${formatDateTime(attachment.message.sentAt)}`,
+        { size: 9, color: gray, indent: 12 }
+      );
+      pdf.text(attachment.url, { size: 8, color: [0.1, 0.3, 0.7], indent: 12 });
+    });
+  }
+
+  return pdf.toBlob();
+}
+
+export function transcriptToJson(transcript: Transcript): Blob {
+  const json = { ...transcript, attachments: attachmentsOf(transcript).map(({ message, ...attachment }) => ({
+    ...attachment,
+    sentAt: message.sentAt,
+    senderId: message.sender.id,
+  })) };
+  return new Blob([JSON.stringify(json, null, 2)], { type: "application/json" });
+}
+
+// FHIR R4 collection Bundle: the patient, the practitioner, the clinic (when
+// known) and one Communication per message
+export function transcriptToFhirBundle(transcript: Transcript): Blob {
+  const { doctor, patient, clinic } = transcript;
+  const patientRef = { reference: `Patient/${patient.id}`, display: patient.name };
+  const doctorRef = { reference: `Practitioner/${doctor.id}`, display: doctor.name };
+  const refFor = (participant: TranscriptParticipant) =>
+    participant === doctor ? doctorRef : participant === patient ? patientRef : { display: participant.name };
+
+  const communications = transcript.messages.map((msg, index) => ({
+    resourceType: "Communication",
+    id: `${transcript.conversationId}-${index + 1}`,
+    status: "completed",
+    category: [{ text: "Consultation chat" }],
+    subject: patientRef,
+    encounter: {
+      identifier: { system: "urn:patient-portal:appointment", value: transcript.appointmentId },
+      display: `Consultation on ${formatDateTime(transcript.startedAt)}`,
+    },
+    sent: msg.sentAt,
+    sender: refFor(msg.sender),
+    recipient: [msg.sender === doctor ? patientRef : doctorRef],
+    payload: [
+      msg.attachment
+        ? {
+            contentAttachment: {
+              contentType: msg.attachment.mimeType,
+              url: msg.attachment.url,
+              title: msg.attachment.name,
+              size: msg.attachment.size,
+            },
+          }
+        : { contentString: msg.content },
+    ],
+  }));
+
+  const bundle = {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: transcript.exportedAt,
+    entry: [
+      { resource: { resourceType: "Patient", id: patient.id, name: [{ text: patient.name }] } },
+      {
+        resource: {
+          resourceType: "Practitioner",
+          id: doctor.id,
+          name: [{ text: doctor.name }],
+          ...(doctor.specialization ? { qualification: [{ code: { text: doctor.specialization } }] } : {}),
+        },
+      },
+      ...(clinic
+        ? [
+            {
+              resource: {
+                resourceType: "Organization",
+                ...(clinic.id ? { id: clinic.id } : {}),
+                name: clinic.name,
+                ...(clinic.address ? { address: [{ text: clinic.address }] } : {}),
+              },
+            },
+          ]
+        : []),
+      ...communications.map((resource) => ({ resource })),
+    ],
+  };
+  return new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" });
+}
+
+export function downloadTranscript(transcript: Transcript, format: TranscriptFormat) {
+  const blob =
+    format === "pdf"
+      ? transcriptToPdf(transcript)
+      : format === "json"
+        ? transcriptToJson(transcript)
+        : transcriptToFhirBundle(transcript);
+  const extension = format === "fhir" ? "fhir.json" : format;
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `consultation-${transcript.conversationId.slice(-8)}.${extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,412 @@
+// Shared domain types for API entities. Pages extend these with view-only
+// fields (enriched doctor/hospital names) rather than redeclaring them.
+
+export interface User {
+  id?: string;
+  _id?: string;
+  name: string;
+  email: string;
+  role?: string;
+  phone?: string;
+  phoneVerified?: boolean;
+  emailVerified?: boolean;
+}
+
+export const GENDERS = ["Male", "Female", "Other"] as const;
+export type Gender = (typeof GENDERS)[number];
+
+export const BLOOD_GROUPS = ["A+", "A-", "B+", "B-", "AB+", "AB-", "O+", "O-"] as const;
+export type BloodGroup = (typeof BLOOD_GROUPS)[number];
+
+// The full account record from /api/users/me; the session only keeps the User part
+export interface PatientProfile extends User {
+  dateOfBirth?: string;
+  gender?: Gender;
+  bloodGroup?: BloodGroup;
+  allergies?: string[];
+}
+
+export const RELATIONSHIPS = ["Child", "Spouse", "Parent", "Sibling", "Other"] as const;
+export type Relationship = (typeof RELATIONSHIPS)[number];
+
+// A family member managed by the account holder. Their `_id` is the patientId on
+// their own appointments, prescriptions, conversations and orders, which keeps
+// their history separate from the account holder's.
+export interface Dependent {
+  _id: string;
+  name: string;
+  relationship: Relationship;
+  dateOfBirth?: string;
+  gender?: Gender;
+  bloodGroup?: BloodGroup;
+  allergies?: string[];
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export const ADDRESS_LABELS = ["HOME", "WORK", "OTHER"] as const;
+export type AddressLabel = (typeof ADDRESS_LABELS)[number];
+
+// Structured delivery address. `location` is pinned on the map or taken from
+// geolocation and becomes the order's patientLocation.
+export interface Address {
+  _id: string;
+  label: AddressLabel;
+  // Custom name for OTHER addresses ("Parents' home")
+  name?: string;
+  line1: string;
+  line2?: string;
+  landmark?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  location?: GeoPoint;
+  isDefault?: boolean;
+}
+
+export interface DoctorSummary {
+  name: string;
+  specialization?: string;
+}
+
+export interface HospitalSummary {
+  name: string;
+  address?: string;
+  // IANA zone the clinic's schedule is kept in, e.g. "Asia/Kolkata"
+  timezone?: string;
+}
+
+export interface Hospital {
+  _id: string;
+  name: string;
+  address?: string;
+  timezone?: string;
+}
+
+export const APPOINTMENT_CHANNELS = ["PHYSICAL", "VIDEO"] as const;
+export type AppointmentChannel = (typeof APPOINTMENT_CHANNELS)[number];
+
+export interface Doctor {
+  _id: string;
+  id?: string;
+  name: string;
+  specialization?: string;
+  qualification?: string;
+  serviceCharge?: number;
+  hospitalId?: string;
+  hospital?: HospitalSummary;
+  // Directory/profile fields; older records may not have them
+  channels?: AppointmentChannel[];
+  experienceYears?: number;
+  languages?: string[];
+  about?: string;
+  rating?: number;
+  reviewCount?: number;
+  nextAvailableAt?: string;
+}
+
+// A patient's rating of a completed consultation
+export interface Review {
+  _id: string;
+  doctorId: string;
+  appointmentId: string;
+  patientId: string;
+  patientName?: string;
+  rating: number;
+  tags?: string[];
+  comment?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface Appointment {
+  _id: string;
+  hospitalId?: string;
+  doctorId: string;
+  patientId: string;
+  status: string;
+  patientName?: string;
+  age?: number;
+  address?: string;
+  issue?: string;
+  scheduledAt: string;
+  channel: string;
+  doctor?: DoctorSummary;
+  hospital?: HospitalSummary;
+  paymentStatus?: PaymentStatus;
+  refund?: Refund;
+}
+
+export interface Slot {
+  _id: string;
+  startTime: string;
+  endTime: string;
+  isBooked: boolean;
+  date: string;
+}
+
+// Slot counts for one calendar day of a doctor's schedule
+export interface DayAvailability {
+  date: string;
+  totalSlots: number;
+  availableSlots: number;
+}
+
+// A short reservation on a slot while the patient fills in details and pays.
+// Other patients can't book or hold it until it's released or expires.
+export interface SlotHold {
+  _id: string;
+  slotId: string;
+  expiresAt: string;
+  // Hold length as granted; counting down from this avoids client clock skew
+  ttlSeconds?: number;
+}
+
+export interface PrescriptionItem {
+  medicineName: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  notes?: string;
+}
+
+export interface Prescription {
+  _id: string;
+  appointmentId: string;
+  doctorId: string;
+  patientId?: string;
+  items: PrescriptionItem[];
+  suggestions?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface PrescriptionDocument {
+  rendered: string;
+  template: string;
+}
+
+export interface Message {
+  _id?: string;
+  // Set by the sender so an optimistic message can be matched to the saved one
+  clientId?: string;
+  senderId: string;
+  senderRole: string;
+  content: string;
+  messageType: string;
+  timestamp: string;
+  readAt?: string;
+  // Present on IMAGE, FILE and AUDIO messages
+  attachment?: MessageAttachment;
+}
+
+export interface MessageAttachment {
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // Voice notes only, in seconds
+  duration?: number;
+}
+
+export interface Conversation {
+  _id: string;
+  appointmentId: string;
+  messages: Message[];
+  summary?: string;
+  startedAt: string;
+  endedAt?: string;
+  isActive?: boolean;
+}
+
+export interface ReportRequest {
+  _id: string;
+  reportType: string;
+  description?: string;
+  requestedAt: string;
+  status: string;
+}
+
+export interface NotificationMetadata {
+  appointmentId?: string;
+  prescriptionId?: string;
+  orderId?: string;
+  amount?: number;
+  [key: string]: unknown;
+}
+
+export interface Notification {
+  _id: string;
+  type: string;
+  title: string;
+  message: string;
+  patientId?: string;
+  createdAt: string;
+  metadata?: NotificationMetadata;
+  status?: string;
+}
+
+export interface Pharmacy {
+  _id: string;
+  name: string;
+  address: string;
+  phone?: string;
+  latitude?: number;
+  longitude?: number;
+  distance?: number;
+}
+
+export interface OrderItem {
+  medicineName: string;
+  quantity: number;
+}
+
+export type DeliveryType = "DELIVERY" | "PICKUP";
+
+export interface Order {
+  _id: string;
+  patientId?: string;
+  pharmacyId: string;
+  status: string;
+  items: OrderItem[];
+  totalAmount?: number;
+  deliveryCharge?: number;
+  deliveryType: string;
+  deliveryAddress?: string;
+  phoneNumber?: string;
+  createdAt: string;
+  deliveryLocation?: GeoPoint & { timestamp?: string };
+  pharmacyLocation?: GeoPoint;
+  patientLocation?: GeoPoint;
+  deliveryPersonName?: string;
+  deliveryPersonPhone?: string;
+  estimatedDeliveryTime?: string;
+  deliveredAt?: string;
+  pharmacy?: { name: string; address?: string };
+  paymentMethod?: PaymentMethod;
+  paymentStatus?: PaymentStatus;
+  refund?: Refund;
+}
+
+export const PAYMENT_METHODS = ["UPI", "CARD", "WALLET", "NET_BANKING", "CASH"] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_STATUSES = ["REQUIRES_PAYMENT", "PENDING", "SUCCEEDED", "FAILED", "CANCELLED"] as const;
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export const PAYMENT_PURPOSES = ["APPOINTMENT", "ORDER"] as const;
+export type PaymentPurpose = (typeof PAYMENT_PURPOSES)[number];
+
+// Created by the backend before an appointment or order is committed; the
+// appointment/order then references it by id. `provider` names the gateway
+// (see lib/payments) that collects it.
+export interface PaymentIntent {
+  _id: string;
+  provider: string;
+  purpose: PaymentPurpose;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  method?: PaymentMethod;
+  clientSecret?: string;
+  providerReference?: string;
+  failureReason?: string;
+  createdAt?: string;
+}
+
+export const REFUND_STATUSES = ["INITIATED", "PROCESSING", "COMPLETED", "FAILED"] as const;
+export type RefundStatus = (typeof REFUND_STATUSES)[number];
+
+// Money going back to the patient after a paid appointment/order is cancelled.
+// The backend starts it on cancellation and pushes progress over the socket.
+export interface Refund {
+  _id: string;
+  status: RefundStatus;
+  amount: number;
+  currency?: string;
+  paymentIntentId?: string;
+  reason?: string;
+  failureReason?: string;
+  initiatedAt?: string;
+  completedAt?: string;
+  // Gateway's estimate of when the money reaches the patient's account
+  expectedBy?: string;
+}
+
+export interface FinanceEntry {
+  _id: string;
+  type: string;
+  amount: number;
+  occurredAt: string;
+  patientId?: string;
+  // CREDIT entries (refunds) reduce what the patient owes; absent means DEBIT
+  direction?: "DEBIT" | "CREDIT";
+  meta?: {
+    orderId?: string;
+    appointmentId?: string;
+    refundId?: string;
+    refundStatus?: RefundStatus;
+  };
+}
+
+export interface FinanceSummary {
+  entries?: FinanceEntry[];
+}
+
+export interface ProductPharmacy {
+  _id: string;
+  name: string;
+  address?: string;
+  phone?: string;
+  distance?: number;
+}
+
+export interface Product {
+  _id: string;
+  medicineName: string;
+  composition: string;
+  brandName?: string;
+  category?: string;
+  sellingPrice: number;
+  mrp?: number;
+  discount?: number;
+  quantity: number;
+  imageUrl?: string;
+  description?: string;
+  prescriptionRequired?: boolean;
+  daysUntilExpiry?: number;
+  pharmacy?: ProductPharmacy;
+}
+
+export interface ProductCategory {
+  value: string;
+  label: string;
+  icon: string;
+  description: string;
+}
+
+export interface CompositionBrand {
+  inventoryItemId: string;
+  brandName: string;
+  batchNumber?: string;
+  expiryDate?: string;
+  daysUntilExpiry?: number;
+  availableQuantity: number;
+  sellingPrice: number;
+  mrp: number;
+  pharmacy?: ProductPharmacy;
+}
+
+export interface CompositionMatch {
+  composition: string;
+  medicineName: string;
+  brands: CompositionBrand[];
+}
+
+export interface CompositionSearchResult {
+  compositions: CompositionMatch[];
+  query: string;
+}
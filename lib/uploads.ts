@@ -0,0 +1,45 @@
+// File rules shared by every patient upload (checkout prescriptions, chat
+// attachments), so the limits the backend enforces are stated once
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+export const MAX_UPLOAD_LABEL = "5MB";
+
+export type UploadKind = "image" | "pdf" | "audio";
+
+const KIND_LABELS: Record<UploadKind, string> = {
+  image: "an image",
+  pdf: "PDF",
+  audio: "audio",
+};
+
+// `accept` attribute for a file input taking these kinds
+export function uploadAccept(kinds: UploadKind[]): string {
+  return kinds.map((kind) => (kind === "pdf" ? ".pdf" : `${kind}/*`)).join(",");
+}
+
+export function getUploadKind(mimeType: string): UploadKind | null {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType === "application/pdf") return "pdf";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return null;
+}
+
+// Returns the message to show the patient, or null when the file is fine
+export function validateUpload(file: Blob, kinds: UploadKind[] = ["image", "pdf"]): string | null {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `File size must be less than ${MAX_UPLOAD_LABEL}`;
+  }
+  const kind = getUploadKind(file.type);
+  if (!kind || !kinds.includes(kind)) {
+    const labels = kinds.map((k) => KIND_LABELS[k]);
+    const list = labels.length > 1 ? `${labels.slice(0, -1).join(", ")} or ${labels[labels.length - 1]}` : labels[0];
+    return `Please upload ${list} file`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,398 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getErrorMessage } from "./errors";
+import { emitSocketEvent, offSocketEvent, onSocketEvent } from "./socket";
+
+// WebRTC video consultations, signaled over the app's Socket.IO connection.
+//
+// The patient joins the appointment's room with `video:join` and waits. When
+// the doctor is in the room (`video:peer-joined`, which the server also sends
+// straight back if the doctor joined first, or `consultation:started`) the
+// patient sends the offer; the doctor replies with `video:answer`, and both
+// sides trade `video:ice-candidate`s. Every payload carries the appointmentId.
+
+export type CallStatus = "idle" | "waiting" | "connecting" | "connected" | "reconnecting" | "ended" | "failed";
+
+export interface PreflightResult {
+  stream: MediaStream | null;
+  hasCamera: boolean;
+  hasMicrophone: boolean;
+  error?: string;
+}
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+
+// How long a dropped connection gets to recover by itself before an ICE restart
+const RECONNECT_GRACE_MS = 5000;
+const MAX_ICE_RESTARTS = 3;
+
+// NEXT_PUBLIC_ICE_SERVERS takes a JSON RTCIceServer[] (add TURN servers there)
+function getIceServers(): RTCIceServer[] {
+  const configured = process.env.NEXT_PUBLIC_ICE_SERVERS;
+  if (!configured) return DEFAULT_ICE_SERVERS;
+  try {
+    return JSON.parse(configured) as RTCIceServer[];
+  } catch {
+    console.warn("NEXT_PUBLIC_ICE_SERVERS is not valid JSON, using the default STUN server");
+    return DEFAULT_ICE_SERVERS;
+  }
+}
+
+function describeMediaError(error: unknown): string {
+  if (error instanceof DOMException) {
+    switch (error.name) {
+      case "NotAllowedError":
+        return "Camera and microphone access is blocked. Allow it in your browser's site settings and try again.";
+      case "NotFoundError":
+        return "No camera or microphone was found.";
+      case "NotReadableError":
+        return "Your camera or microphone is already in use by another app.";
+    }
+  }
+  return getErrorMessage(error, "Couldn't start your camera and microphone");
+}
+
+// Checks for devices and asks for access. A missing camera still allows an
+// audio-only call; a missing microphone doesn't.
+export async function runPreflight(): Promise<PreflightResult> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    return { stream: null, hasCamera: false, hasMicrophone: false, error: "This browser doesn't support video calls." };
+  }
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const hasCamera = devices.some((device) => device.kind === "videoinput");
+    const hasMicrophone = devices.some((device) => device.kind === "audioinput");
+    if (!hasMicrophone) {
+      return { stream: null, hasCamera, hasMicrophone, error: "No microphone was found. Connect one to join the call." };
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: hasCamera });
+    return { stream, hasCamera: stream.getVideoTracks().length > 0, hasMicrophone: true };
+  } catch (error) {
+    return { stream: null, hasCamera: false, hasMicrophone: false, error: describeMediaError(error) };
+  }
+}
+
+export function stopStream(stream: MediaStream | null) {
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
+interface SignalPayload {
+  appointmentId?: string;
+  sdp?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+}
+
+export function useVideoCall(appointmentId: string) {
+  const [status, setStatus] = useState<CallStatus>("idle");
+  const [joined, setJoined] = useState(false);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [muted, setMuted] = useState(false);
+  const [cameraOff, setCameraOff] = useState(false);
+  const [sharingScreen, setSharingScreen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const peerRef = useRef<RTCPeerConnection | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  // Candidates that arrive before the answer can't be added yet
+  const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+  const restartsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const joinedRef = useRef(false);
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+  };
+
+  const closePeer = useCallback(() => {
+    clearReconnectTimer();
+    const peer = peerRef.current;
+    peerRef.current = null;
+    pendingCandidatesRef.current = [];
+    if (peer) {
+      peer.onicecandidate = null;
+      peer.ontrack = null;
+      peer.onconnectionstatechange = null;
+      peer.close();
+    }
+    setRemoteStream(null);
+  }, []);
+
+  const fail = useCallback(
+    (message: string) => {
+      closePeer();
+      setError(message);
+      setStatus("failed");
+    },
+    [closePeer]
+  );
+
+  const sendOffer = useCallback(
+    async (iceRestart = false) => {
+      const peer = peerRef.current;
+      if (!peer) return;
+      const offer = await peer.createOffer({ iceRestart });
+      await peer.setLocalDescription(offer);
+      emitSocketEvent("video:offer", { appointmentId, sdp: peer.localDescription?.toJSON() });
+    },
+    [appointmentId]
+  );
+
+  const restartIce = useCallback(() => {
+    clearReconnectTimer();
+    if (!peerRef.current) return;
+    if (restartsRef.current >= MAX_ICE_RESTARTS) {
+      fail("The connection was lost and couldn't be restored.");
+      return;
+    }
+    restartsRef.current += 1;
+    setStatus("reconnecting");
+    sendOffer(true).catch((err) => fail(getErrorMessage(err, "Reconnecting failed")));
+  }, [fail, sendOffer]);
+
+  const startPeer = useCallback(async () => {
+    closePeer();
+    const peer = new RTCPeerConnection({ iceServers: getIceServers() });
+    peerRef.current = peer;
+
+    const stream = localStreamRef.current;
+    stream?.getTracks().forEach((track) => {
+      const outgoing = track.kind === "video" && screenTrackRef.current ? screenTrackRef.current : track;
+      peer.addTrack(outgoing, stream);
+    });
+    // Audio-only patients still receive the doctor's video, and can share a screen later
+    if (!stream?.getVideoTracks().length) {
+      peer.addTransceiver(screenTrackRef.current ?? "video", { direction: "sendrecv" });
+    }
+
+    peer.onicecandidate = (event) => {
+      if (event.candidate) {
+        emitSocketEvent("video:ice-candidate", { appointmentId, candidate: event.candidate.toJSON() });
+      }
+    };
+    peer.ontrack = (event) => {
+      const [stream] = event.streams;
+      if (stream) {
+        setRemoteStream(stream);
+        return;
+      }
+      // Tracks sent without a stream id arrive one by one
+      setRemoteStream((prev) => new MediaStream([...(prev?.getTracks() ?? []), event.track]));
+    };
+    peer.onconnectionstatechange = () => {
+      if (peerRef.current !== peer) return;
+      switch (peer.connectionState) {
+        case "connected":
+          clearReconnectTimer();
+          restartsRef.current = 0;
+          setStatus("connected");
+          break;
+        case "disconnected":
+          // Often a network blip that heals on its own
+          setStatus("reconnecting");
+          clearReconnectTimer();
+          reconnectTimerRef.current = setTimeout(() => {
+            if (peer.connectionState !== "connected") restartIce();
+          }, RECONNECT_GRACE_MS);
+          break;
+        case "failed":
+          restartIce();
+          break;
+      }
+    };
+
+    setStatus("connecting");
+    await sendOffer();
+  }, [appointmentId, closePeer, restartIce, sendOffer]);
+
+  useEffect(() => {
+    if (!joined) return;
+
+    const isForThisCall = (data: SignalPayload) => data?.appointmentId === appointmentId;
+    const start = () => {
+      restartsRef.current = 0;
+      startPeer().catch((err) => fail(getErrorMessage(err, "Couldn't start the call")));
+    };
+
+    // The doctor (re)joined: always start a fresh connection
+    const handlePeerJoined = (data: SignalPayload) => {
+      if (isForThisCall(data)) start();
+    };
+    // Sent alongside peer-joined by some backends; only needed when no call is up yet
+    const handleConsultationStarted = (data: SignalPayload) => {
+      if (isForThisCall(data) && !peerRef.current) start();
+    };
+    const handleAnswer = async (data: SignalPayload) => {
+      const peer = peerRef.current;
+      if (!isForThisCall(data) || !peer || !data.sdp) return;
+      try {
+        await peer.setRemoteDescription(data.sdp);
+        const pending = pendingCandidatesRef.current;
+        pendingCandidatesRef.current = [];
+        await Promise.all(pending.map((candidate) => peer.addIceCandidate(candidate)));
+      } catch (err) {
+        fail(getErrorMessage(err, "Couldn't connect to the doctor"));
+      }
+    };
+    const handleCandidate = (data: SignalPayload) => {
+      const peer = peerRef.current;
+      if (!isForThisCall(data) || !peer || !data.candidate) return;
+      if (peer.remoteDescription) {
+        peer.addIceCandidate(data.candidate).catch((err) => console.warn("Ignoring ICE candidate:", err));
+      } else {
+        pendingCandidatesRef.current.push(data.candidate);
+      }
+    };
+    const handlePeerLeft = (data: SignalPayload) => {
+      if (!isForThisCall(data)) return;
+      closePeer();
+      setStatus("waiting");
+    };
+    // Socket.IO reconnected: rejoin the room and renegotiate over the new link
+    const handleSocketReconnect = () => {
+      emitSocketEvent("video:join", { appointmentId });
+      if (peerRef.current) restartIce();
+    };
+
+    onSocketEvent("video:peer-joined", handlePeerJoined);
+    onSocketEvent("consultation:started", handleConsultationStarted);
+    onSocketEvent("video:answer", handleAnswer);
+    onSocketEvent("video:ice-candidate", handleCandidate);
+    onSocketEvent("video:peer-left", handlePeerLeft);
+    onSocketEvent("connect", handleSocketReconnect);
+
+    if (!emitSocketEvent("video:join", { appointmentId })) {
+      console.warn("Socket not connected yet; joining the video room once it connects");
+    }
+
+    return () => {
+      offSocketEvent("video:peer-joined", handlePeerJoined);
+      offSocketEvent("consultation:started", handleConsultationStarted);
+      offSocketEvent("video:answer", handleAnswer);
+      offSocketEvent("video:ice-candidate", handleCandidate);
+      offSocketEvent("video:peer-left", handlePeerLeft);
+      offSocketEvent("connect", handleSocketReconnect);
+    };
+  }, [joined, appointmentId, startPeer, restartIce, closePeer, fail]);
+
+  // Leaving the page hangs up and releases the camera
+  useEffect(() => {
+    return () => {
+      if (joinedRef.current) emitSocketEvent("video:leave", { appointmentId });
+      joinedRef.current = false;
+      clearReconnectTimer();
+      peerRef.current?.close();
+      peerRef.current = null;
+      stopStream(localStreamRef.current);
+      screenTrackRef.current?.stop();
+    };
+  }, [appointmentId]);
+
+  // Enter the waiting room with the stream from runPreflight()
+  const join = useCallback((stream: MediaStream) => {
+    localStreamRef.current = stream;
+    joinedRef.current = true;
+    setLocalStream(stream);
+    setMuted(false);
+    setCameraOff(false);
+    setError(null);
+    setJoined(true);
+    setStatus("waiting");
+  }, []);
+
+  const leave = useCallback(() => {
+    if (joinedRef.current) emitSocketEvent("video:leave", { appointmentId });
+    joinedRef.current = false;
+    closePeer();
+    stopStream(localStreamRef.current);
+    localStreamRef.current = null;
+    screenTrackRef.current?.stop();
+    screenTrackRef.current = null;
+    setLocalStream(null);
+    setSharingScreen(false);
+    setJoined(false);
+    setStatus("ended");
+  }, [appointmentId, closePeer]);
+
+  // Manual retry after the call failed, while still in the room
+  const reconnect = useCallback(() => {
+    if (!joinedRef.current) return;
+    setError(null);
+    restartsRef.current = 0;
+    startPeer().catch((err) => fail(getErrorMessage(err, "Couldn't start the call")));
+  }, [fail, startPeer]);
+
+  const toggleMute = () => {
+    const next = !muted;
+    localStreamRef.current?.getAudioTracks().forEach((track) => (track.enabled = !next));
+    setMuted(next);
+  };
+
+  const toggleCamera = () => {
+    const next = !cameraOff;
+    localStreamRef.current?.getVideoTracks().forEach((track) => (track.enabled = !next));
+    setCameraOff(next);
+  };
+
+  // Swaps the outgoing video without renegotiating
+  const sendVideoTrack = async (track: MediaStreamTrack | null) => {
+    const transceiver = peerRef.current?.getTransceivers().find((t) => t.receiver.track.kind === "video");
+    await transceiver?.sender.replaceTrack(track);
+  };
+
+  const stopScreenShare = async () => {
+    const screenTrack = screenTrackRef.current;
+    screenTrackRef.current = null;
+    screenTrack?.stop();
+    setSharingScreen(false);
+    await sendVideoTrack(localStreamRef.current?.getVideoTracks()[0] ?? null);
+  };
+
+  const toggleScreenShare = async () => {
+    if (screenTrackRef.current) {
+      await stopScreenShare();
+      return;
+    }
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      setError("Screen sharing isn't supported in this browser.");
+      return;
+    }
+    try {
+      const display = await navigator.mediaDevices.getDisplayMedia({ video: true });
+      const track = display.getVideoTracks()[0];
+      // The browser's own "Stop sharing" button ends the track
+      track.onended = () => {
+        if (screenTrackRef.current === track) stopScreenShare();
+      };
+      screenTrackRef.current = track;
+      setSharingScreen(true);
+      await sendVideoTrack(track);
+    } catch (err) {
+      // Cancelling the share picker is not an error worth showing
+      if (!(err instanceof DOMException && err.name === "NotAllowedError")) {
+        setError(getErrorMessage(err, "Couldn't share your screen"));
+      }
+    }
+  };
+
+  return {
+    status,
+    localStream,
+    remoteStream,
+    muted,
+    cameraOff,
+    sharingScreen,
+    error,
+    join,
+    leave,
+    reconnect,
+    toggleMute,
+    toggleCamera,
+    toggleScreenShare,
+  };
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getErrorMessage } from "./errors";
+
+// Keeps a recording comfortably under MAX_UPLOAD_BYTES at typical Opus bitrates
+export const MAX_VOICE_NOTE_SECONDS = 120;
+
+export interface VoiceNote {
+  blob: Blob;
+  duration: number;
+}
+
+// Browsers differ in what MediaRecorder can produce (Safari has no WebM)
+const PREFERRED_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg"];
+
+function pickMimeType(): string | undefined {
+  return PREFERRED_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function isVoiceRecordingSupported(): boolean {
+  return typeof window !== "undefined" && typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function voiceNoteFileName(note: Blob): string {
+  const extension = note.type.includes("mp4") ? "m4a" : note.type.includes("ogg") ? "ogg" : "webm";
+  return `voice-note-${Date.now()}.${extension}`;
+}
+
+export function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// Records from the microphone. `onRecorded` gets the note when recording is
+// stopped (or hits the time limit); cancel() throws the recording away.
+export function useVoiceRecorder(onRecorded: (note: VoiceNote) => void) {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const discardRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+
+  useEffect(() => {
+    onRecordedRef.current = onRecorded;
+  });
+
+  const finish = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+  };
+
+  const start = async () => {
+    if (recorderRef.current) return;
+    setError(null);
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() });
+      chunksRef.current = [];
+      discardRef.current = false;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream?.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setRecording(false);
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+        if (!discardRef.current && chunksRef.current.length > 0) {
+          onRecordedRef.current({ blob: new Blob(chunksRef.current, { type: recorder.mimeType }), duration });
+        }
+        chunksRef.current = [];
+      };
+
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      recorder.start();
+      setElapsed(0);
+      setRecording(true);
+      timerRef.current = setInterval(() => {
+        const seconds = (Date.now() - startedAtRef.current) / 1000;
+        setElapsed(seconds);
+        if (seconds >= MAX_VOICE_NOTE_SECONDS) finish();
+      }, 250);
+    } catch (err) {
+      // The recorder couldn't start (unsupported mimeType, Safari quirks): turn the mic back off
+      stream?.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setError(
+        err instanceof DOMException && err.name === "NotAllowedError"
+          ? "Microphone access is blocked. Allow it in your browser's site settings to record."
+          : getErrorMessage(err, "Couldn't start recording")
+      );
+    }
+  };
+
+  const cancel = () => {
+    discardRef.current = true;
+    finish();
+  };
+
+  // Leaving mid-recording discards it and releases the microphone
+  useEffect(
+    () => () => {
+      discardRef.current = true;
+      if (timerRef.current) clearInterval(timerRef.current);
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") recorder.stop();
+    },
+    []
+  );
+
+  return { recording, elapsed, error, start, stop: finish, cancel };
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getRouteAccess, loginUrl, safeReturnTo, SESSION_COOKIE } from "@/lib/routes";
+
+// Redirects before anything renders, so protected pages never flash for signed-out
+// visitors. The marker cookie is only a hint: RouteGuard re-checks on the client
+// and apiFetch ends the session when the backend rejects it.
+export function proxy(request: NextRequest) {
+  const { pathname, search, searchParams } = request.nextUrl;
+  const access = getRouteAccess(pathname);
+  const hasSession = request.cookies.has(SESSION_COOKIE);
+
+  if (access === "protected" && !hasSession) {
+    return NextResponse.redirect(new URL(loginUrl(pathname + search), request.url));
+  }
+
+  if (access === "guest" && hasSession) {
+    return NextResponse.redirect(new URL(safeReturnTo(searchParams.get("returnTo")), request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)"],
+};